@@ -0,0 +1,84 @@
+/**
+ * Environment Resolver - Picks the environment the tests run against
+ *
+ * TEST_ENV names one of the environments in the test data's
+ * test-data.json (production, staging, development); it defaults to
+ * production, or to development with STAND_IN=true, in which case the
+ * base URL is the local stand-in's. TestConfig and playwright.config.ts
+ * both take base URL, timeouts and retries from the result.
+ *
+ * The file is read synchronously because the Playwright config and
+ * TestConfig's statics cannot wait for the async data loader.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationError } from '../utils/CustomErrors';
+
+export interface EnvironmentSettings {
+  name: string;
+  baseUrl: string;
+  // Longest expected wait for the application, e.g. a form submission
+  timeout: number;
+  retries: number;
+  // Tests tagged @destructive are refused here
+  protected: boolean;
+}
+
+export type EnvironmentDefinitions = Record<string, Omit<EnvironmentSettings, 'name' | 'protected'> & { protected?: boolean }>;
+
+export const DEFAULT_ENVIRONMENT = 'production';
+export const STAND_IN_ENVIRONMENT = 'development';
+export const DESTRUCTIVE_TAG = '@destructive';
+
+const ENVIRONMENTS_FILE = 'test-data.json';
+
+export class EnvironmentResolver {
+
+  /**
+   * Read the environments section of the test data directory
+   */
+  static readDefinitions(dataDirectory: string): EnvironmentDefinitions {
+    const file = path.join(dataDirectory, ENVIRONMENTS_FILE);
+    let environments: unknown;
+    try {
+      environments = JSON.parse(fs.readFileSync(file, 'utf-8')).environments;
+    } catch (error) {
+      throw new ConfigurationError('TEST_ENV', `cannot be resolved: ${file} could not be read (${(error as Error).message})`);
+    }
+    if (typeof environments !== 'object' || environments === null) {
+      throw new ConfigurationError('TEST_ENV', `cannot be resolved: ${file} has no "environments" section`);
+    }
+    return environments as EnvironmentDefinitions;
+  }
+
+  /**
+   * Settings for the environment selected by TEST_ENV and STAND_IN
+   */
+  static resolve(definitions: EnvironmentDefinitions, variables: NodeJS.ProcessEnv, standInUrl: string): EnvironmentSettings {
+    const useStandIn = variables.STAND_IN === 'true';
+    const name = variables.TEST_ENV || (useStandIn ? STAND_IN_ENVIRONMENT : DEFAULT_ENVIRONMENT);
+    const definition = definitions[name];
+    if (!definition) {
+      throw new ConfigurationError('TEST_ENV', `"${name}" is not a known environment (one of ${Object.keys(definitions).join(', ')})`);
+    }
+    return {
+      name,
+      baseUrl: useStandIn ? standInUrl : definition.baseUrl,
+      timeout: definition.timeout,
+      retries: definition.retries,
+      // The stand-in is local, whatever environment it stands in for
+      protected: !useStandIn && definition.protected === true
+    };
+  }
+
+  /**
+   * Why a test with these tags may not run in the environment, or null when it may
+   */
+  static refusal(environment: EnvironmentSettings, tags: string[]): string | null {
+    if (environment.protected && tags.includes(DESTRUCTIVE_TAG)) {
+      return `${DESTRUCTIVE_TAG} tests create or delete application data and are refused on the protected "${environment.name}" environment; select another with TEST_ENV`;
+    }
+    return null;
+  }
+}
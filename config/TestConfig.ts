@@ -2,20 +2,91 @@
  * Test configuration and constants
  * Centralized configuration for better maintainability
  */
+import * as path from 'path';
+import { ConfigurationError } from '../utils/CustomErrors';
+import { EnvironmentResolver, EnvironmentSettings } from './EnvironmentResolver';
+
+export interface AdminCredentials {
+  username: string;
+  password: string;
+}
+
 export class TestConfig {
+  // Test data directory; its test-data.json also defines the environments
+  static readonly TEST_DATA_DIR = process.env.TEST_DATA_DIR || path.resolve(__dirname, '../data');
+
+  // Local stand-in application (see stand-in/), enabled with STAND_IN=true
+  static readonly USE_STAND_IN = process.env.STAND_IN === 'true';
+  static readonly STAND_IN_PORT = Number(process.env.STAND_IN_PORT || 3000);
+  static readonly STAND_IN_URL = `http://localhost:${TestConfig.STAND_IN_PORT}/`;
+
+  // Environment selected with TEST_ENV, see config/EnvironmentResolver.ts
+  static readonly ENVIRONMENT: EnvironmentSettings = EnvironmentResolver.resolve(
+    EnvironmentResolver.readDefinitions(TestConfig.TEST_DATA_DIR),
+    process.env,
+    TestConfig.STAND_IN_URL
+  );
+
   // Application URLs
-  static readonly BASE_URL = 'https://automationintesting.online/';
+  static readonly BASE_URL = TestConfig.ENVIRONMENT.baseUrl;
+
+  // Validation parity probes against the selected environment (tests/validation-parity.spec.ts), enabled with VALIDATION_PARITY=true
+  static readonly VALIDATION_PARITY = process.env.VALIDATION_PARITY === 'true';
+
+  // Credentials the stand-in accepts for its admin panel
+  static readonly STAND_IN_ADMIN_USERNAME = process.env.STAND_IN_ADMIN_USERNAME || 'admin';
+  static readonly STAND_IN_ADMIN_PASSWORD = process.env.STAND_IN_ADMIN_PASSWORD || 'password';
   
-  // Timeouts (in milliseconds)
-  static readonly DEFAULT_TIMEOUT = 5000;
-  static readonly FORM_SUBMISSION_TIMEOUT = 10000;
-  static readonly PRICE_UPDATE_TIMEOUT = 1000;
+  // Timeouts (in milliseconds), scaled to the environment's timeout
+  static readonly DEFAULT_TIMEOUT = Math.round(TestConfig.ENVIRONMENT.timeout / 2);
+  static readonly FORM_SUBMISSION_TIMEOUT = TestConfig.ENVIRONMENT.timeout;
+  static readonly PRICE_UPDATE_TIMEOUT = Math.round(TestConfig.ENVIRONMENT.timeout / 2);
+
+  // Condition-based waiting (see WaitActions in utils/PageUtils.ts)
+  static readonly WAIT_POLL_INTERVAL = 100;
+  static readonly TEXT_STABLE_PERIOD = 300;
+  static readonly RETRY_BASE_DELAY = 200;
+  static readonly RETRY_MAX_DELAY = 2000;
   
   // Test data paths
   static readonly SCREENSHOT_PATH = 'test-results/';
+  // Overlay from <TEST_DATA_DIR>/overlays/<TEST_DATA_ENV>/ applied on top of the base data
+  static readonly TEST_DATA_ENV = process.env.TEST_DATA_ENV || '';
+  // Fixed seed for GuestDataGenerator, to reproduce a run that printed it
+  static readonly TEST_DATA_SEED = process.env.TEST_DATA_SEED || '';
   
+  // Application bugs tests may hit, see services/KnownIssues.ts
+  static readonly KNOWN_ISSUES_FILE = process.env.KNOWN_ISSUES_FILE || path.resolve(__dirname, 'known-issues.yaml');
+
+  // Visual checkpoints: per-pixel colour tolerance and share of pixels allowed to differ
+  static readonly VISUAL_THRESHOLD = Number(process.env.VISUAL_THRESHOLD || 0.2);
+  static readonly VISUAL_MAX_DIFF_RATIO = Number(process.env.VISUAL_MAX_DIFF_RATIO || 0.01);
+  // Annotate checkpoints that have no baseline yet instead of failing them; a temporary opt-out
+  static readonly VISUAL_ALLOW_MISSING_BASELINES = process.env.VISUAL_ALLOW_MISSING_BASELINES === 'true';
+
+  // Debug capture: browser events kept per test, and how many recent ones reports show
+  static readonly DEBUG_EVENT_BUFFER_SIZE = 200;
+  static readonly DEBUG_REPORT_EVENT_LIMIT = 20;
+
   // Browser configuration
   static readonly VIEWPORT = { width: 1280, height: 720 };
+
+  /**
+   * Admin panel credentials from ADMIN_USERNAME / ADMIN_PASSWORD
+   * Against the stand-in they default to the stand-in's own credentials
+   */
+  static getAdminCredentials(): AdminCredentials {
+    const username = process.env.ADMIN_USERNAME || (TestConfig.USE_STAND_IN ? TestConfig.STAND_IN_ADMIN_USERNAME : '');
+    const password = process.env.ADMIN_PASSWORD || (TestConfig.USE_STAND_IN ? TestConfig.STAND_IN_ADMIN_PASSWORD : '');
+    if (!username || !password) {
+      throw new ConfigurationError('ADMIN_USERNAME / ADMIN_PASSWORD', `must be set to log in to the admin panel at ${TestConfig.BASE_URL}`);
+    }
+    return { username, password };
+  }
+
+  static hasAdminCredentials(): boolean {
+    return Boolean(process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD) || TestConfig.USE_STAND_IN;
+  }
 }
 
 /**
@@ -25,12 +96,19 @@ export class AppConstants {
   // Room pricing
   static readonly SINGLE_ROOM_PRICE = 100;
   static readonly DOUBLE_ROOM_PRICE = 150;
+  static readonly SUITE_PRICE = 250;
   static readonly CLEANING_FEE = 25;
   static readonly SERVICE_FEE = 15;
+  // The site does not add tax to the Price Summary
+  static readonly TAX_RATE = 0;
   
   // Date formats
   static readonly DATE_FORMAT = 'YYYY-MM-DD';
   
   // URL patterns
   static readonly RESERVATION_URL_PATTERN = /\/reservation/;
+  static readonly ADMIN_ROOMS_URL_PATTERN = /\/admin\/rooms/;
+  static readonly ADMIN_ROOM_URL_PATTERN = /\/admin\/room\/\d+/;
+  static readonly ADMIN_MESSAGES_URL_PATTERN = /\/admin\/message/;
+  static readonly BOOKING_API_URL_PATTERN = /\/api\/booking\/?(\?|$)/;
 }
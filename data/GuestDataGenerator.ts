@@ -0,0 +1,229 @@
+/**
+ * Guest Data Generator - Seeded synthetic guests and bookings
+ *
+ * Produces varied UserData, AddressData and BookingData that pass
+ * ValidationService by default (names 3-18 / 3-30, phone 11-21, valid email),
+ * or break exactly one rule for negative tests. The same seed always produces
+ * the same sequence, so a failing run can be reproduced with TEST_DATA_SEED.
+ */
+
+import { TestConfig } from '../config/TestConfig';
+import { DateUtils } from '../utils/DateUtils';
+import { ConfigurationError } from '../utils/CustomErrors';
+import { AddressData, BookingData, RoomType, UserData } from './TestDataModels';
+
+/**
+ * The single ValidationService rule a generated guest should break
+ */
+export type GuestRuleViolation =
+  | 'firstnameBlank'
+  | 'firstnameTooShort'
+  | 'firstnameTooLong'
+  | 'lastnameBlank'
+  | 'lastnameTooShort'
+  | 'lastnameTooLong'
+  | 'emailBlank'
+  | 'emailInvalid'
+  | 'phoneTooShort'
+  | 'phoneTooLong';
+
+export interface GuestOptions {
+  violate?: GuestRuleViolation;
+  asciiOnly?: boolean;
+  withTitle?: boolean;
+  withAddress?: boolean;
+}
+
+export interface GeneratedBookingOptions {
+  guest?: GuestOptions;
+  roomType?: RoomType;
+  nights?: number;
+  checkIn?: Date;
+}
+
+const FIRST_NAMES = ['Amelia', 'Oliver', 'Priya', 'Kwame', 'Mei', 'Liam', 'Fatima', 'Noah', 'Hannah', 'Mateo', 'Isla', 'Arjun'];
+const UNICODE_FIRST_NAMES = ['José', 'Zoë', 'Siobhán', 'Łukasz', 'Søren', 'Chloé', 'Björn', 'Ægir', 'Renée', 'Nuño'];
+const LAST_NAMES = ['Smith', 'Okafor', 'Nguyen', 'Patel', 'Kowalski', 'Hughes', "O'Brien", 'Fitzgerald', 'Lee', 'Andersen'];
+const UNICODE_LAST_NAMES = ['García-López', 'Müller', 'Ó Súilleabháin', 'Dvořák', 'Øvergård', 'Żółkiewski', 'Brontë'];
+const TITLES = ['Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Mx'];
+const STREETS = ['High Street', 'Station Road', 'Church Lane', 'Meadow View', 'Mill Road'];
+const CITIES = ['London', 'Manchester', 'Cardiff', 'Edinburgh', 'Belfast', 'York'];
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.co.uk', 'mail.example.net'];
+const PHONE_FORMATS = ['0##########', '+44 7### ######', '+44-###-###-####', '(0##) #### ####', '07### ### ###', '+353 ## ### ####'];
+const INVALID_EMAIL_FORMATS = ['{local}.{domain}', '{local}@', '@{domain}', '{local}@localhost', '{local} @{domain}'];
+const POSTCODE_LETTERS = [...'ABCDEFGHJKLMNPRSTUWXY'];
+const ROOM_TYPES = Object.values(RoomType);
+
+export class GuestDataGenerator {
+  private state: number;
+
+  constructor(public readonly seed: number = GuestDataGenerator.resolveSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * TEST_DATA_SEED when set (to reproduce a run), otherwise a fresh random seed
+   */
+  static resolveSeed(): number {
+    if (TestConfig.TEST_DATA_SEED) {
+      const seed = Number(TestConfig.TEST_DATA_SEED);
+      if (!Number.isInteger(seed) || seed < 0) {
+        throw new ConfigurationError('TEST_DATA_SEED', `must be a non-negative whole number, got: ${TestConfig.TEST_DATA_SEED}`);
+      }
+      return seed;
+    }
+    return Math.floor(Math.random() * 0xffffffff);
+  }
+
+  /**
+   * Generate a guest; valid unless a rule violation is requested
+   */
+  user(options: GuestOptions = {}): UserData {
+    const firstname = this.firstname(options);
+    const lastname = this.lastname(options);
+    const user: UserData = {
+      firstname: this.applyNameViolation(firstname, options.violate, 'firstname', 18),
+      lastname: this.applyNameViolation(lastname, options.violate, 'lastname', 30),
+      email: this.email(firstname, lastname, options.violate),
+      phone: this.phone(options.violate)
+    };
+
+    if (options.withTitle) {
+      user.title = this.pick(TITLES);
+    }
+    if (options.withAddress) {
+      user.address = this.address();
+    }
+    return user;
+  }
+
+  address(): AddressData {
+    return {
+      street: `${this.integer(1, 250)} ${this.pick(STREETS)}`,
+      city: this.pick(CITIES),
+      country: 'UK',
+      postcode: `${this.letters(2)}${this.integer(1, 20)} ${this.integer(1, 9)}${this.letters(2)}`
+    };
+  }
+
+  /**
+   * Generate a booking with ISO (YYYY-MM-DD) dates in the coming months
+   */
+  booking(options: GeneratedBookingOptions = {}): BookingData {
+    const nights = options.nights ?? this.integer(1, 7);
+    const checkIn = options.checkIn ?? DateUtils.addDays(DateUtils.addMonths(DateUtils.today(), this.integer(1, 3)), this.integer(0, 20));
+
+    return {
+      checkInDate: DateUtils.toIsoDate(checkIn),
+      checkOutDate: DateUtils.toIsoDate(DateUtils.addDays(checkIn, nights)),
+      numberOfNights: nights,
+      guestDetails: this.user(options.guest),
+      roomType: options.roomType ?? this.pick(ROOM_TYPES)
+    };
+  }
+
+  private firstname(options: GuestOptions): string {
+    const names = options.asciiOnly ? FIRST_NAMES : [...FIRST_NAMES, ...UNICODE_FIRST_NAMES];
+    const name = this.pick(names);
+    // Occasionally hyphenate to exercise longer names, staying within 18 characters
+    if (this.integer(0, 3) === 0) {
+      const combined = `${name}-${this.pick(names)}`;
+      return combined.length <= 18 ? combined : name;
+    }
+    return name;
+  }
+
+  private lastname(options: GuestOptions): string {
+    const names = options.asciiOnly ? LAST_NAMES : [...LAST_NAMES, ...UNICODE_LAST_NAMES];
+    const name = this.pick(names);
+    if (this.integer(0, 3) === 0) {
+      const combined = `${name}-${this.pick(names)}`;
+      return combined.length <= 30 ? combined : name;
+    }
+    return name;
+  }
+
+  private applyNameViolation(name: string, violate: GuestRuleViolation | undefined, field: string, maxLength: number): string {
+    switch (violate) {
+      case `${field}Blank`:
+        return '';
+      case `${field}TooShort`:
+        return name.slice(0, this.integer(1, 2));
+      case `${field}TooLong`:
+        return this.padName(name, maxLength + this.integer(1, 10));
+      default:
+        return name;
+    }
+  }
+
+  private padName(name: string, length: number): string {
+    let padded = name;
+    while (padded.length < length) {
+      padded += padded.toLowerCase();
+    }
+    return padded.slice(0, length);
+  }
+
+  private email(firstname: string, lastname: string, violate?: GuestRuleViolation): string {
+    if (violate === 'emailBlank') {
+      return '';
+    }
+    // Emails stay ASCII; the numeric suffix keeps parallel workers from colliding
+    const local = `${this.asciiSlug(firstname)}.${this.asciiSlug(lastname)}${this.integer(1, 9999)}`;
+    const domain = this.pick(EMAIL_DOMAINS);
+    if (violate === 'emailInvalid') {
+      return this.pick(INVALID_EMAIL_FORMATS).replace('{local}', local).replace('{domain}', domain);
+    }
+    return `${local}@${domain}`;
+  }
+
+  private phone(violate?: GuestRuleViolation): string {
+    if (violate === 'phoneTooShort') {
+      return this.digits(this.integer(3, 10));
+    }
+    if (violate === 'phoneTooLong') {
+      return this.digits(this.integer(22, 26));
+    }
+    return this.pick(PHONE_FORMATS).replace(/#/g, () => String(this.integer(0, 9)));
+  }
+
+  private asciiSlug(value: string): string {
+    const slug = value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[ØøŁłÆæ]/g, char => ({ Ø: 'o', ø: 'o', Ł: 'l', ł: 'l', Æ: 'ae', æ: 'ae' } as Record<string, string>)[char])
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+    return slug || 'guest';
+  }
+
+  private letters(count: number): string {
+    return Array.from({ length: count }, () => this.pick(POSTCODE_LETTERS)).join('');
+  }
+
+  private digits(count: number): string {
+    return Array.from({ length: count }, () => this.integer(0, 9)).join('');
+  }
+
+  private pick<T>(values: readonly T[]): T {
+    return values[this.integer(0, values.length - 1)];
+  }
+
+  /**
+   * Whole number between min and max inclusive
+   */
+  private integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * mulberry32: small, fast and good enough for test data
+   */
+  private next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
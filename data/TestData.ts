@@ -1,9 +1,15 @@
+import { DateUtils } from '../utils/DateUtils';
+
+// One-night stay at the start of next month, so it is always in the future
+const CHECK_IN = DateUtils.addMonths(DateUtils.today(), 1);
+const CHECK_OUT = DateUtils.addDays(CHECK_IN, 1);
+
 // Test data constants following DRY principles
 export const TestData = {
   DATES: {
-    CHECK_IN: '01',
-    CHECK_OUT: '03',
-    EXPECTED_RANGE: '2025-09-01 - 2025-09-02'
+    CHECK_IN,
+    CHECK_OUT,
+    EXPECTED_RANGE: DateUtils.formatRange(CHECK_IN, CHECK_OUT)
   },
   
   VALID_BOOKING: {
@@ -39,7 +45,10 @@ export const ValidationMessages = {
   FIRSTNAME_BLANK: 'Firstname should not be blank',
   FIRSTNAME_SIZE: 'size must be between 3 and 18',
   LASTNAME_BLANK: 'Lastname should not be blank',
+  LASTNAME_SIZE: 'size must be between 3 and 30',
   EMAIL_EMPTY: 'must not be empty',
+  EMAIL_INVALID: 'must be a valid email address',
+  PHONE_SIZE: 'size must be between 11 and 21',
   
   // Combined validation messages for different scenarios
   EMPTY_FIRSTNAME: [
@@ -25,9 +25,16 @@ export interface BookingData {
   numberOfNights: number;
   guestDetails: UserData;
   roomType?: RoomType;
+  room?: RoomData;
   specialRequests?: string[];
 }
 
+export interface StayDates {
+  checkIn: Date;
+  checkOut: Date;
+  nights: number;
+}
+
 export interface RoomData {
   type: RoomType;
   price: number;
@@ -44,6 +51,36 @@ export interface PricingData {
   total: number;
 }
 
+export interface FeeSchedule {
+  cleaningFee: number;
+  serviceFee: number;
+  taxRate: number;
+}
+
+export interface DateFixture {
+  checkIn: string;
+  checkOut: string;
+  expectedRange: string;
+}
+
+export interface MessageData {
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  description: string;
+}
+
+/**
+ * A contact message that breaks one or more rules: `fields` replace
+ * those of the valid message, and the API should answer with expectedErrors
+ */
+export interface ContactValidationCase {
+  description: string;
+  fields: Partial<MessageData>;
+  expectedErrors: string[];
+}
+
 export interface ValidationTestCase {
   name: string;
   description: string;
@@ -58,10 +95,17 @@ export interface TestScenario {
   description: string;
   category: TestCategory;
   priority: TestPriority;
-  data: any;
+  data: TestScenarioData;
   expectedOutcome: ExpectedOutcome;
 }
 
+export interface TestScenarioData {
+  user?: Partial<UserData>;
+  booking?: BookingData;
+  room?: RoomData;
+  validation?: ValidationTestCase;
+}
+
 // Enums for better type safety
 export enum RoomType {
   SINGLE = 'Single Room',
@@ -27,7 +27,7 @@ show_debug_options() {
     echo "   npx playwright codegen https://automationintesting.online/"
     echo ""
     echo "6. 👀 View Trace"
-    echo "   npx playwright show-trace test-results/debug/*/trace.zip"
+    echo "   npx playwright show-trace test-results/*/debug/trace.zip"
     echo ""
     echo "7. 📊 View HTML Report"
     echo "   npx playwright show-report"
@@ -118,6 +118,7 @@ setup_debug_env() {
 clean_debug_files() {
     echo "🧹 Cleaning debug files..."
     rm -rf test-results/debug/*
+    rm -rf test-results/*/debug
     rm -rf test-results/screenshots/*
     rm -rf test-results/videos/*
     rm -rf test-results/traces/*
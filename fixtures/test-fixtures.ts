@@ -1,35 +1,174 @@
 import { test as base, Page } from '@playwright/test';
+import * as path from 'path';
 import { HomePage } from '../pages/HomePage';
 import { RoomsPage } from '../pages/RoomsPage';
 import { ReservationPage } from '../pages/ReservationPage';
 import { BookingFormPage } from '../pages/BookingFormPage';
 import { ConfirmationPage } from '../pages/ConfirmationPage';
+import { ContactFormPage } from '../pages/ContactFormPage';
+import { AdminLoginPage } from '../pages/AdminLoginPage';
+import { AdminRoomsPage } from '../pages/AdminRoomsPage';
+import { AdminBookingsPage } from '../pages/AdminBookingsPage';
+import { AdminMessagesPage } from '../pages/AdminMessagesPage';
+import { ApiClient } from '../services/ApiClient';
+import { BookingVerifier } from '../services/BookingVerifier';
+import { KnownIssueMonitor, KnownIssueRegistry } from '../services/KnownIssues';
+import { GuestDataGenerator } from '../data/GuestDataGenerator';
+import { BookingFlow } from '../helpers/BookingFlow';
+import { ScenarioRunner } from '../helpers/ScenarioRunner';
+import { ScenarioCatalogue } from '../services/ScenarioCatalogue';
+import { dataLoader } from '../services/DataLoaderService';
+import { InputMode, WaitTimings } from '../utils/PageUtils';
+import { LocatorRegistry } from '../utils/LocatorRegistry';
+import { TestConfig } from '../config/TestConfig';
+import { EnvironmentResolver } from '../config/EnvironmentResolver';
 
 // Extend the base test with page objects
 type TestFixtures = {
+  inputMode: InputMode;
   homePage: HomePage;
   roomsPage: RoomsPage;
   reservationPage: ReservationPage;
   bookingFormPage: BookingFormPage;
   confirmationPage: ConfirmationPage;
+  contactFormPage: ContactFormPage;
+  bookingFlow: BookingFlow;
+  scenarioRunner: ScenarioRunner;
+  apiClient: ApiClient;
+  bookingVerifier: BookingVerifier;
+  guestData: GuestDataGenerator;
+  adminPage: Page;
+  adminLoginPage: AdminLoginPage;
+  adminRoomsPage: AdminRoomsPage;
+  adminBookingsPage: AdminBookingsPage;
+  adminMessagesPage: AdminMessagesPage;
+  environmentGuard: void;
+  waitTimings: void;
+  locatorDrift: void;
 };
 
-export const test = base.extend<TestFixtures>({
-  homePage: async ({ page }, use) => {
-    await use(new HomePage(page));
+type WorkerFixtures = {
+  adminStorageState: string;
+};
+
+export const test = base.extend<TestFixtures, WorkerFixtures>({
+  // Tests listed in config/known-issues.yaml are checked against their issues after they run
+  page: async ({ page }, use, testInfo) => {
+    const issues = KnownIssueRegistry.default().forTest(testInfo.titlePath);
+    if (issues.length === 0) {
+      await use(page);
+      return;
+    }
+    KnownIssueRegistry.assertNotExpired(issues);
+    const monitor = new KnownIssueMonitor(page, issues);
+    await use(page);
+    await monitor.settle(testInfo);
   },
-  roomsPage: async ({ page }, use) => {
-    await use(new RoomsPage(page));
+  // Booking journey pages click by default; test.use({ inputMode: 'keyboard' }) drives them with the keyboard only
+  inputMode: ['pointer', { option: true }],
+  homePage: async ({ page, inputMode }, use) => {
+    await use(new HomePage(page).setInputMode(inputMode));
   },
-  reservationPage: async ({ page }, use) => {
-    await use(new ReservationPage(page));
+  roomsPage: async ({ page, inputMode }, use) => {
+    await use(new RoomsPage(page).setInputMode(inputMode));
   },
-  bookingFormPage: async ({ page }, use) => {
-    await use(new BookingFormPage(page));
+  reservationPage: async ({ page, inputMode }, use) => {
+    await use(new ReservationPage(page).setInputMode(inputMode));
+  },
+  bookingFormPage: async ({ page, inputMode }, use) => {
+    await use(new BookingFormPage(page).setInputMode(inputMode));
   },
   confirmationPage: async ({ page }, use) => {
     await use(new ConfirmationPage(page));
   },
+  contactFormPage: async ({ page }, use) => {
+    await use(new ContactFormPage(page));
+  },
+  // A fresh flow per test; build another with BookingFlow.start for a second booking
+  bookingFlow: async ({ homePage, roomsPage, reservationPage, bookingFormPage, confirmationPage }, use) => {
+    await use(BookingFlow.start({ homePage, roomsPage, reservationPage, bookingFormPage, confirmationPage }));
+  },
+  scenarioRunner: async ({ homePage, roomsPage, reservationPage, bookingFormPage, confirmationPage }, use) => {
+    const validationMessages = ScenarioCatalogue.validationMessages(await dataLoader.getValidationMessages());
+    await use(new ScenarioRunner({ homePage, roomsPage, reservationPage, bookingFormPage, confirmationPage }, validationMessages));
+  },
+  apiClient: async ({ request }, use) => {
+    await use(new ApiClient(request));
+  },
+  // Own API session so logging in as admin does not change the test's apiClient; deletes what it verified
+  bookingVerifier: async ({ playwright }, use) => {
+    const session = await playwright.request.newContext();
+    const verifier = new BookingVerifier(new ApiClient(session));
+    await use(verifier);
+    try {
+      await verifier.cleanUp();
+    } finally {
+      await session.dispose();
+    }
+  },
+  // A fresh seed per test, printed and recorded so a failure can be replayed with TEST_DATA_SEED
+  guestData: async ({}, use, testInfo) => {
+    const generator = new GuestDataGenerator();
+    testInfo.annotations.push({ type: 'seed', description: `TEST_DATA_SEED=${generator.seed}` });
+    console.log(`🎲 Guest data seed for "${testInfo.title}": ${generator.seed} (replay with TEST_DATA_SEED=${generator.seed})`);
+    await use(generator);
+  },
+  // Logs in once per worker; the saved cookies are reused by every admin page in that worker
+  adminStorageState: [async ({ browser }, use, workerInfo) => {
+    const storageState = path.join(workerInfo.project.outputDir, '.auth', `admin-${workerInfo.parallelIndex}.json`);
+    const context = await browser.newContext();
+    await new AdminLoginPage(await context.newPage()).login();
+    await context.storageState({ path: storageState });
+    await context.close();
+    await use(storageState);
+  }, { scope: 'worker' }],
+  // A page in its own logged-in context, separate from the guest `page`
+  adminPage: async ({ browser, adminStorageState }, use) => {
+    const context = await browser.newContext({ storageState: adminStorageState });
+    await use(await context.newPage());
+    await context.close();
+  },
+  adminLoginPage: async ({ page }, use) => {
+    await use(new AdminLoginPage(page));
+  },
+  adminRoomsPage: async ({ adminPage }, use) => {
+    await use(new AdminRoomsPage(adminPage));
+  },
+  adminBookingsPage: async ({ adminPage }, use) => {
+    await use(new AdminBookingsPage(adminPage));
+  },
+  adminMessagesPage: async ({ adminPage }, use) => {
+    await use(new AdminMessagesPage(adminPage));
+  },
+  // Tests tagged @destructive are skipped on protected environments (see config/EnvironmentResolver.ts)
+  environmentGuard: [async ({}, use, testInfo) => {
+    const refusal = EnvironmentResolver.refusal(TestConfig.ENVIRONMENT, testInfo.tags);
+    testInfo.skip(refusal !== null, refusal ?? undefined);
+    await use();
+  }, { auto: true }],
+  // Every test starts with empty wait timings; what it waited for is attached to the report
+  waitTimings: [async ({}, use, testInfo) => {
+    WaitTimings.reset();
+    await use();
+    const entries = WaitTimings.getEntries();
+    if (entries.length > 0) {
+      testInfo.annotations.push({ type: 'wait-time', description: `${entries.length} waits, ${WaitTimings.totalMs()}ms in total` });
+      await testInfo.attach('wait-timings', { body: JSON.stringify(entries, null, 2), contentType: 'application/json' });
+    }
+  }, { auto: true }],
+  // Elements found only by a fallback strategy are attached for reporters/LocatorDriftReporter.ts
+  locatorDrift: [async ({}, use, testInfo) => {
+    LocatorRegistry.reset();
+    await use();
+    const drift = LocatorRegistry.getDrift();
+    if (drift.length > 0) {
+      drift.forEach(resolution => testInfo.annotations.push({
+        type: 'locator-drift',
+        description: `${resolution.element}: ${resolution.primary} failed, ${resolution.matched ? `found by ${resolution.matched}` : 'no strategy matched'}`
+      }));
+      await testInfo.attach('locator-drift', { body: JSON.stringify(drift, null, 2), contentType: 'application/json' });
+    }
+  }, { auto: true }],
 });
 
 export { expect } from '@playwright/test';
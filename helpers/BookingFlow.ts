@@ -0,0 +1,274 @@
+import { test, expect } from '@playwright/test';
+import { HomePage } from '../pages/HomePage';
+import { RoomsPage, RoomCriteria } from '../pages/RoomsPage';
+import { ReservationPage } from '../pages/ReservationPage';
+import { BookingFormPage, BookingFormData } from '../pages/BookingFormPage';
+import { ConfirmationPage } from '../pages/ConfirmationPage';
+import { TestConfig } from '../config/TestConfig';
+import { TestData } from '../data/TestData';
+import { StayDates } from '../data/TestDataModels';
+import { DateUtils } from '../utils/DateUtils';
+import { WaitTimings } from '../utils/PageUtils';
+import { BookingFlowError, ValidationError } from '../utils/CustomErrors';
+
+export interface BookingFlowPages {
+  homePage: HomePage;
+  roomsPage: RoomsPage;
+  reservationPage: ReservationPage;
+  bookingFormPage: BookingFormPage;
+  confirmationPage: ConfirmationPage;
+}
+
+/**
+ * Stages in the order the flow passes them; a flow stops after the last one it needs
+ */
+export type BookingFlowStage = 'rooms' | 'reservation' | 'bookingForm' | 'submitted';
+
+export type RoomChoice = { index: number } | RoomCriteria;
+
+export type BookingOutcome = 'confirmed' | 'rejected';
+
+export interface BookingFlowResult {
+  stage: BookingFlowStage;
+  roomId?: number;
+  roomType?: string;
+  stay?: StayDates;
+  displayedPrice?: number;
+  outcome?: BookingOutcome;
+  // Status the booking API answered the submission with, when it answered
+  responseStatus?: number;
+  validationMessages: string[];
+  screenshots: string[];
+}
+
+const STAGES: BookingFlowStage[] = ['rooms', 'reservation', 'bookingForm', 'submitted'];
+
+/**
+ * BookingFlow - Composable guest booking flow
+ *
+ * Each call configures one part of the flow and moves its end point
+ * forward; run() then walks from the homepage to that point as test
+ * steps. Unset parts fall back to the first room and TestData.DATES.
+ *
+ *   const result = await bookingFlow
+ *     .selectRoom({ type: RoomType.SUITE })
+ *     .fillGuest(TestData.EMPTY_EMAIL)
+ *     .expectValidationErrors(ValidationMessages.EMPTY_EMAIL)
+ *     .run();
+ */
+export class BookingFlow {
+  private target: BookingFlowStage = 'rooms';
+  private room: RoomChoice = { index: 0 };
+  private checkIn: Date | string = TestData.DATES.CHECK_IN;
+  private checkOut: Date | string = TestData.DATES.CHECK_OUT;
+  private pricingCheck = false;
+  private guest: BookingFormData | null = null;
+  private clearFirst = false;
+  private expectedOutcome: BookingOutcome | null = null;
+  private expectedMessages: string[] = [];
+  private screenshotName: string | null = null;
+
+  constructor(private readonly pages: BookingFlowPages) {}
+
+  static start(pages: BookingFlowPages): BookingFlow {
+    return new BookingFlow(pages);
+  }
+
+  selectRoom(choice: RoomChoice): this {
+    this.room = choice;
+    return this.reach('reservation');
+  }
+
+  selectStay(checkIn: Date | string, checkOut: Date | string): this {
+    this.checkIn = checkIn;
+    this.checkOut = checkOut;
+    return this.reach('reservation');
+  }
+
+  /**
+   * Check the Price Summary against PricingCalculator once the stay is selected
+   */
+  verifyPricing(): this {
+    this.pricingCheck = true;
+    return this.reach('reservation');
+  }
+
+  proceedToBookingForm(): this {
+    return this.reach('bookingForm');
+  }
+
+  /**
+   * Fill only the given fields; with clearFirst every field is emptied beforehand
+   */
+  fillGuest(guest: BookingFormData, options: { clearFirst?: boolean } = {}): this {
+    this.guest = guest;
+    this.clearFirst = options.clearFirst ?? false;
+    return this.reach('bookingForm');
+  }
+
+  submit(): this {
+    return this.reach('submitted');
+  }
+
+  /**
+   * Require the "Booking Confirmed" screen for the selected stay
+   */
+  expectConfirmation(): this {
+    this.expectedOutcome = 'confirmed';
+    return this.reach('submitted');
+  }
+
+  /**
+   * Require the form to stay open with an alert containing each message
+   */
+  expectValidationErrors(messages: string[]): this {
+    this.expectedOutcome = 'rejected';
+    this.expectedMessages = messages;
+    return this.reach('submitted');
+  }
+
+  /**
+   * Screenshot the form before and after submitting, and the alert when one is shown
+   */
+  captureScreenshots(name: string): this {
+    this.screenshotName = name;
+    return this;
+  }
+
+  async run(): Promise<BookingFlowResult> {
+    const { homePage, roomsPage, reservationPage, bookingFormPage } = this.pages;
+    const result: BookingFlowResult = { stage: 'rooms', validationMessages: [], screenshots: [] };
+
+    await test.step('Open the room list', async () => {
+      await homePage.navigateAndVerify();
+      await homePage.clickHeroBookNow();
+    });
+    if (!this.passes('reservation')) {
+      return result;
+    }
+
+    await test.step(`Choose ${this.describeRoom()} and dates ${DateUtils.formatRange(this.checkIn, this.checkOut)}`, async () => {
+      if ('index' in this.room) {
+        await roomsPage.selectRoomByIndex(this.room.index);
+      } else {
+        await roomsPage.selectRoom(this.room);
+      }
+      await reservationPage.verifyPageLoad();
+      result.roomId = reservationPage.getRoomId();
+      result.roomType = (await reservationPage.getRoomType()).trim();
+      result.stay = await reservationPage.selectStay(this.checkIn, this.checkOut);
+      if (this.pricingCheck) {
+        await reservationPage.verifyPricing();
+      }
+      const total = (await reservationPage.getPriceSummaryLines()).find(line => line.key === 'total');
+      result.displayedPrice = total?.amount;
+      result.stage = 'reservation';
+    });
+    if (!this.passes('bookingForm')) {
+      return result;
+    }
+
+    await test.step('Open and fill the booking form', async () => {
+      await reservationPage.proceedToCheckout();
+      await bookingFormPage.verifyFormFieldsVisible();
+      if (this.clearFirst) {
+        await bookingFormPage.clearAllFields();
+      }
+      if (this.guest) {
+        await bookingFormPage.fillForm(this.guest);
+      }
+      result.stage = 'bookingForm';
+    });
+    if (!this.passes('submitted')) {
+      return result;
+    }
+
+    await test.step('Submit the booking', async () => {
+      await this.screenshot(result, 'before');
+      const stopRecording = bookingFormPage.recordBookingResponses();
+      try {
+        await bookingFormPage.submitForm();
+        result.outcome = await this.waitForOutcome();
+      } finally {
+        result.responseStatus = stopRecording();
+      }
+      if (result.outcome === 'rejected') {
+        result.validationMessages = await bookingFormPage.getValidationMessages();
+      }
+      await this.screenshot(result, 'after');
+      result.stage = 'submitted';
+    });
+
+    if (this.expectedOutcome) {
+      await test.step(`Expect the booking to be ${this.expectedOutcome}`, async () => {
+        await this.verifyOutcome(result);
+      });
+    }
+    return result;
+  }
+
+  // Private helper methods
+
+  private reach(stage: BookingFlowStage): this {
+    if (STAGES.indexOf(stage) > STAGES.indexOf(this.target)) {
+      this.target = stage;
+    }
+    return this;
+  }
+
+  private passes(stage: BookingFlowStage): boolean {
+    return STAGES.indexOf(stage) <= STAGES.indexOf(this.target);
+  }
+
+  private describeRoom(): string {
+    return 'index' in this.room ? `room ${this.room.index + 1} in the list` : `a room matching ${JSON.stringify(this.room)}`;
+  }
+
+  /**
+   * Wait for either the confirmation or the validation alert instead of a fixed sleep
+   */
+  private async waitForOutcome(): Promise<BookingOutcome> {
+    const { confirmationPage, bookingFormPage } = this.pages;
+    await WaitTimings.measure('booking confirmation or validation alert', () =>
+      expect(confirmationPage.confirmationHeading.or(bookingFormPage.validationAlert).first())
+        .toBeVisible({ timeout: TestConfig.FORM_SUBMISSION_TIMEOUT }));
+    return await bookingFormPage.validationAlert.isVisible() ? 'rejected' : 'confirmed';
+  }
+
+  private async verifyOutcome(result: BookingFlowResult): Promise<void> {
+    const { confirmationPage, bookingFormPage } = this.pages;
+
+    if (this.expectedOutcome === 'confirmed') {
+      if (result.outcome !== 'confirmed') {
+        throw new BookingFlowError('Booking submission', `expected a confirmation but the form showed: ${result.validationMessages.join('; ')}`);
+      }
+      await confirmationPage.verifyBookingConfirmation(DateUtils.formatRange(result.stay!.checkIn, result.stay!.checkOut));
+      return;
+    }
+
+    if (result.outcome !== 'rejected') {
+      throw new BookingFlowError('Booking submission', `expected validation errors (${this.expectedMessages.join('; ')}) but the booking was confirmed`);
+    }
+    const missing = this.expectedMessages.filter(message => !result.validationMessages.some(shown => shown.includes(message)));
+    if (missing.length > 0) {
+      throw new ValidationError('booking form', missing.join(' | '), result.validationMessages.join(' | '));
+    }
+    await bookingFormPage.verifyStillOnReservationPage();
+  }
+
+  private async screenshot(result: BookingFlowResult, moment: 'before' | 'after'): Promise<void> {
+    if (!this.screenshotName) {
+      return;
+    }
+    const { bookingFormPage } = this.pages;
+    const path = test.info().outputPath(`${this.screenshotName}-${moment}.png`);
+    await bookingFormPage.takeScreenshot(path);
+    result.screenshots.push(path);
+
+    if (moment === 'after' && result.outcome === 'rejected') {
+      const alertPath = test.info().outputPath(`${this.screenshotName}-validation.png`);
+      await bookingFormPage.takeValidationAlertScreenshot(alertPath);
+      result.screenshots.push(alertPath);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { test } from '@playwright/test';
+import { BookingFlow, BookingFlowPages, BookingFlowResult } from './BookingFlow';
+import { ExpectedOutcome, TestCategory, TestScenario } from '../data/TestDataModels';
+import { ScenarioCatalogue } from '../services/ScenarioCatalogue';
+import { ValidationService } from '../services/ValidationService';
+import { DateUtils } from '../utils/DateUtils';
+import { ScenarioOutcomeError, TestError, ValidationError } from '../utils/CustomErrors';
+
+/**
+ * ScenarioRunner - Runs one testScenarios entry through the booking flow
+ *
+ * The room comes from data.room or the booking's room type, the stay from
+ * the booking's day numbers in next month and the guest from data.user.
+ * Pricing scenarios check the Price Summary. A scenario with a validation
+ * test case first submits that case on its own and requires the messages
+ * ValidationService predicts; then the guest is submitted and the outcome
+ * must be the scenario's expectedOutcome.
+ */
+export class ScenarioRunner {
+  constructor(
+    private readonly pages: BookingFlowPages,
+    // Known validation messages, see ScenarioCatalogue.validationMessages
+    private readonly validationMessages: string[]
+  ) {}
+
+  async run(scenario: TestScenario): Promise<BookingFlowResult> {
+    const { user, validation } = scenario.data;
+    if (!user && scenario.expectedOutcome !== ExpectedOutcome.SUCCESS) {
+      throw new TestError(`Scenario ${scenario.id} expects ${scenario.expectedOutcome} but has no data.user to submit`);
+    }
+
+    if (validation) {
+      await test.step(`Validation case: ${validation.name}`, async () => {
+        await this.flowFor(scenario)
+          .fillGuest(validation.formData, { clearFirst: true })
+          .expectValidationErrors(ValidationService.validateCompleteForm(validation.formData).allErrors)
+          .run();
+      });
+    }
+
+    // Without a guest nothing is submitted; completing the flow is the success
+    if (!user) {
+      return this.flowFor(scenario).run();
+    }
+
+    const result = await this.flowFor(scenario).fillGuest(user, { clearFirst: true }).submit().run();
+    await test.step(`Expect outcome ${scenario.expectedOutcome}`, async () => {
+      const actual = ScenarioCatalogue.classify(result, this.validationMessages);
+      if (actual !== scenario.expectedOutcome) {
+        throw new ScenarioOutcomeError(scenario.id, scenario.expectedOutcome, actual, result.validationMessages);
+      }
+
+      if (actual === ExpectedOutcome.SUCCESS) {
+        await this.pages.confirmationPage.verifyBookingConfirmation(DateUtils.formatRange(result.stay!.checkIn, result.stay!.checkOut));
+      } else if (actual === ExpectedOutcome.VALIDATION_ERROR) {
+        const missing = ValidationService.validateCompleteForm(user).allErrors
+          .filter(message => !result.validationMessages.some(shown => shown.includes(message)));
+        if (missing.length > 0) {
+          throw new ValidationError('booking form', missing.join(' | '), result.validationMessages.join(' | '));
+        }
+      }
+    });
+    return result;
+  }
+
+  private flowFor(scenario: TestScenario): BookingFlow {
+    const { booking, room } = scenario.data;
+    const flow = BookingFlow.start(this.pages);
+
+    const type = room?.type ?? booking?.roomType;
+    if (type) {
+      flow.selectRoom({ type });
+    }
+    if (booking) {
+      const month = DateUtils.addMonths(DateUtils.today(), 1);
+      flow.selectStay(DateUtils.dayOfMonth(month, booking.checkInDate), DateUtils.dayOfMonth(month, booking.checkOutDate));
+    }
+    if (scenario.category === TestCategory.PRICING) {
+      flow.verifyPricing();
+    }
+    return flow;
+  }
+}
@@ -1,15 +1,39 @@
 // Page Objects
 export { HomePage } from './pages/HomePage';
-export { RoomsPage } from './pages/RoomsPage';
+export { RoomsPage, RoomListing, RoomCriteria } from './pages/RoomsPage';
 export { ReservationPage } from './pages/ReservationPage';
 export { BookingFormPage, BookingFormData } from './pages/BookingFormPage';
 export { ConfirmationPage } from './pages/ConfirmationPage';
+export { ContactFormPage, ContactFormData } from './pages/ContactFormPage';
+export { AdminLoginPage } from './pages/AdminLoginPage';
+export { AdminRoomsPage, AdminRoomListing, NewAdminRoom } from './pages/AdminRoomsPage';
+export { AdminBookingsPage, AdminBookingListing } from './pages/AdminBookingsPage';
+export { AdminMessagesPage, AdminMessageListing } from './pages/AdminMessagesPage';
+
+export { elementLocators } from './pages/ElementLocators';
 
 // Helpers
-export { BookingFlowHelper } from './helpers/BookingFlowHelper';
+export { BookingFlow, BookingFlowPages, BookingFlowResult, BookingFlowStage, BookingOutcome, RoomChoice } from './helpers/BookingFlow';
+export { ScenarioRunner } from './helpers/ScenarioRunner';
+
+// Services
+export { ApiClient, ApiRoom, ApiBooking, ApiMessage, ApiMessageSummary } from './services/ApiClient';
+export { BookingVerifier, ExpectedBooking } from './services/BookingVerifier';
+export { KnownIssueRegistry, KnownIssueMonitor, KnownIssue, KnownIssueMatcher } from './services/KnownIssues';
+export { AccessibilityAudit, AccessibilityAuditResult, AccessibilityRule, AccessibilitySuppression, AccessibilityViolation } from './services/AccessibilityAudit';
+export { VisualCheckpoints, VisualCheckpointOptions, VisualCheckpointRecord } from './services/VisualCheckpoints';
+export { ValidationMatrix, ValidationMatrixEntry } from './services/ValidationMatrix';
+export { ValidationParity, ValidationParityReport } from './services/ValidationParity';
+export { ScenarioCatalogue, ScenarioFilter } from './services/ScenarioCatalogue';
+
+// Utilities
+export { LocatorRegistry, LocatorStrategy, LocatorResolution } from './utils/LocatorRegistry';
+export { KeyboardActions, InputMode } from './utils/PageUtils';
+export { RoomTypeNames } from './utils/RoomTypeNames';
 
 // Test Data
 export { TestData, ValidationMessages, Screenshots } from './data/TestData';
+export { GuestDataGenerator, GuestOptions, GuestRuleViolation } from './data/GuestDataGenerator';
 
 // Fixtures
 export { test, expect } from './fixtures/test-fixtures';
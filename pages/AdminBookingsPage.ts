@@ -0,0 +1,69 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { AdminPage } from './AdminPage';
+import { AppConstants, TestConfig } from '../config/TestConfig';
+import { ElementActions, WaitActions } from '../utils/PageUtils';
+import { ElementNotFoundError, PageNotLoadedError } from '../utils/CustomErrors';
+
+export interface AdminBookingListing {
+  firstname: string;
+  lastname: string;
+  depositPaid: boolean;
+  checkInDate: string;
+  checkOutDate: string;
+}
+
+/**
+ * AdminBookingsPage - Bookings listed on a room's admin detail page
+ */
+export class AdminBookingsPage extends AdminPage {
+  private readonly roomHeading: Locator;
+  private readonly bookingListings: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    this.roomHeading = page.getByRole('heading', { level: 2 });
+    this.bookingListings = page.locator('[data-testid="bookinglisting"]');
+  }
+
+  /**
+   * Open the detail page of a room by its ID
+   */
+  async navigateToRoom(roomId: number): Promise<void> {
+    await this.page.goto(new URL(`admin/room/${roomId}`, TestConfig.BASE_URL).toString());
+    if (!AppConstants.ADMIN_ROOM_URL_PATTERN.test(this.page.url())) {
+      throw new PageNotLoadedError(`Admin page for room ${roomId}`, AppConstants.ADMIN_ROOM_URL_PATTERN.source);
+    }
+    await ElementActions.waitForVisible(this.roomHeading);
+  }
+
+  async getRoomName(): Promise<string> {
+    return (await ElementActions.getTextContent(this.roomHeading)).replace(/^Room:\s*/, '').trim();
+  }
+
+  /**
+   * Read every booking row: guest name, deposit and ISO dates
+   */
+  async getBookings(): Promise<AdminBookingListing[]> {
+    const bookings: AdminBookingListing[] = [];
+    for (const listing of await this.bookingListings.all()) {
+      const [firstname, lastname, depositPaid, checkInDate, checkOutDate] = (await listing.locator('p').allTextContents()).map(text => text.trim());
+      bookings.push({ firstname, lastname, depositPaid: depositPaid === 'true', checkInDate, checkOutDate });
+    }
+    return bookings;
+  }
+
+  async findBooking(firstname: string, lastname: string): Promise<AdminBookingListing | undefined> {
+    return (await this.getBookings()).find(booking => booking.firstname === firstname && booking.lastname === lastname);
+  }
+
+  async deleteBooking(firstname: string, lastname: string): Promise<void> {
+    const index = (await this.getBookings()).findIndex(booking => booking.firstname === firstname && booking.lastname === lastname);
+    if (index === -1) {
+      throw new ElementNotFoundError(`Admin booking listing for ${firstname} ${lastname}`, '[data-testid="bookinglisting"]');
+    }
+    const deleteButton = this.bookingListings.nth(index).locator('.bookingDelete');
+    await WaitActions.forResponse(this.page, '/api/booking/', () => deleteButton.click(), { method: 'DELETE' });
+    await expect.poll(async () => await this.findBooking(firstname, lastname), { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT }).toBeUndefined();
+  }
+}
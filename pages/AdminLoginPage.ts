@@ -0,0 +1,55 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { AdminCredentials, AppConstants, TestConfig } from '../config/TestConfig';
+import { ElementActions } from '../utils/PageUtils';
+import { TestError } from '../utils/CustomErrors';
+
+/**
+ * AdminLoginPage - Handles the admin panel login form
+ * Credentials default to TestConfig.getAdminCredentials(), never to literals
+ */
+export class AdminLoginPage extends BasePage {
+  private readonly usernameInput: Locator;
+  private readonly passwordInput: Locator;
+  private readonly loginButton: Locator;
+  private readonly errorAlert: Locator;
+
+  constructor(page: Page) {
+    super(page, new URL('admin', TestConfig.BASE_URL).toString());
+
+    this.usernameInput = page.locator('#username');
+    this.passwordInput = page.locator('#password');
+    this.loginButton = page.locator('#doLogin');
+    this.errorAlert = page.locator('.alert.alert-danger');
+  }
+
+  /**
+   * Log in and wait for the rooms page
+   */
+  async login(credentials: AdminCredentials = TestConfig.getAdminCredentials()): Promise<void> {
+    await this.submitCredentials(credentials);
+    try {
+      await expect(this.page).toHaveURL(AppConstants.ADMIN_ROOMS_URL_PATTERN, { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT });
+    } catch {
+      const reason = await this.getErrorMessage();
+      throw new TestError(`Admin login as "${credentials.username}" failed${reason ? `: ${reason}` : ''}`);
+    }
+  }
+
+  /**
+   * Fill in and submit the form without waiting for the outcome
+   */
+  async submitCredentials(credentials: AdminCredentials): Promise<void> {
+    await this.navigate();
+    await ElementActions.fillInput(this.usernameInput, credentials.username);
+    await ElementActions.fillInput(this.passwordInput, credentials.password);
+    await this.loginButton.click();
+  }
+
+  async getErrorMessage(): Promise<string> {
+    if (!await ElementActions.isElementVisible(this.errorAlert)) {
+      return '';
+    }
+    return (await ElementActions.getTextContent(this.errorAlert)).trim();
+  }
+}
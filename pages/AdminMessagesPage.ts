@@ -0,0 +1,92 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { AdminPage } from './AdminPage';
+import { AppConstants, TestConfig } from '../config/TestConfig';
+import { MessageData } from '../data/TestDataModels';
+import { ElementActions, WaitActions } from '../utils/PageUtils';
+import { ElementNotFoundError, PageNotLoadedError } from '../utils/CustomErrors';
+
+export interface AdminMessageListing {
+  name: string;
+  subject: string;
+  read: boolean;
+}
+
+/**
+ * AdminMessagesPage - Contact form inbox in the admin panel
+ * Opening a message shows it in a modal and marks it read
+ */
+export class AdminMessagesPage extends AdminPage {
+  private readonly messageRows: Locator;
+  private readonly messageModal: Locator;
+
+  constructor(page: Page) {
+    super(page, new URL('admin/message', TestConfig.BASE_URL).toString());
+
+    this.messageRows = page.locator('.messages .detail');
+    this.messageModal = page.locator('[data-testid="message"]');
+  }
+
+  async navigateAndVerify(): Promise<void> {
+    await this.navigate();
+    if (!AppConstants.ADMIN_MESSAGES_URL_PATTERN.test(this.page.url())) {
+      throw new PageNotLoadedError('Admin messages page', AppConstants.ADMIN_MESSAGES_URL_PATTERN.source);
+    }
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Read every inbox row in display order
+   */
+  async getMessages(): Promise<AdminMessageListing[]> {
+    const messages: AdminMessageListing[] = [];
+    const rows = await this.messageRows.all();
+    for (const [index, row] of rows.entries()) {
+      messages.push({
+        name: (await ElementActions.getTextContent(row.getByTestId(`message${index}`))).trim(),
+        subject: (await ElementActions.getTextContent(row.getByTestId(`messageDescription${index}`))).trim(),
+        read: !(await row.getAttribute('class') || '').includes('read-false')
+      });
+    }
+    return messages;
+  }
+
+  /**
+   * Open the newest message with the given subject and read its details
+   */
+  async openMessage(subject: string): Promise<MessageData> {
+    await this.messageRows.nth(await this.findMessageIndex(subject)).getByTestId(/^messageDescription/).click();
+    await ElementActions.waitForVisible(this.messageModal);
+
+    const [from, phone, email, messageSubject, description] = (await this.messageModal.locator('p').allTextContents()).map(text => text.trim());
+    return {
+      name: from.replace(/^From:\s*/, ''),
+      phone: phone.replace(/^Phone:\s*/, ''),
+      email: email.replace(/^Email:\s*/, ''),
+      subject: messageSubject,
+      description
+    };
+  }
+
+  async closeMessage(): Promise<void> {
+    await this.messageModal.getByRole('button', { name: 'Close' }).click();
+    await expect(this.messageModal).toBeHidden();
+  }
+
+  async deleteMessage(subject: string): Promise<void> {
+    const index = await this.findMessageIndex(subject);
+    const before = await this.messageRows.count();
+    await this.page.getByTestId(`DeleteMessage${index}`).click();
+    await WaitActions.forCount(this.messageRows, before - 1, { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT });
+  }
+
+  /**
+   * Index of the newest (last listed) message with the subject
+   */
+  private async findMessageIndex(subject: string): Promise<number> {
+    const index = (await this.getMessages()).map(message => message.subject).lastIndexOf(subject);
+    if (index === -1) {
+      throw new ElementNotFoundError(`Admin message "${subject}"`, '.messages .detail');
+    }
+    return index;
+  }
+}
@@ -0,0 +1,36 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { ElementActions } from '../utils/PageUtils';
+
+/**
+ * AdminPage - Navigation shared by the logged-in admin panel pages
+ */
+export abstract class AdminPage extends BasePage {
+  protected readonly roomsLink: Locator;
+  protected readonly messagesLink: Locator;
+  protected readonly logoutButton: Locator;
+
+  constructor(page: Page, pageUrl?: string) {
+    super(page, pageUrl);
+
+    this.roomsLink = page.getByRole('navigation').getByRole('link', { name: 'Rooms', exact: true });
+    this.messagesLink = page.getByRole('navigation').getByRole('link', { name: /^Messages/ });
+    this.logoutButton = page.getByRole('button', { name: 'Logout' });
+  }
+
+  /**
+   * Number shown on the Messages badge; 0 when there is no badge
+   */
+  async getUnreadMessageCount(): Promise<number> {
+    const badge = this.messagesLink.locator('.badge');
+    if (await badge.count() === 0) {
+      return 0;
+    }
+    return Number(await ElementActions.getTextContent(badge)) || 0;
+  }
+
+  async logout(): Promise<void> {
+    await this.logoutButton.click();
+    await this.page.waitForURL(url => !url.pathname.startsWith('/admin/'));
+  }
+}
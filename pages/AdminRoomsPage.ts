@@ -0,0 +1,133 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { AdminPage } from './AdminPage';
+import { AppConstants, TestConfig } from '../config/TestConfig';
+import { RoomType } from '../data/TestDataModels';
+import { ElementActions, WaitActions } from '../utils/PageUtils';
+import { ElementNotFoundError, PageNotLoadedError } from '../utils/CustomErrors';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+export interface AdminRoomListing {
+  roomName: string;
+  type: string; // As the panel shows it, e.g. "Double"
+  accessible: boolean;
+  price: number;
+  features: string[];
+}
+
+export interface NewAdminRoom {
+  roomName: string;
+  type: RoomType;
+  price: number;
+  accessible?: boolean;
+  features?: string[];
+}
+
+/**
+ * AdminRoomsPage - Room inventory in the admin panel
+ * Lists rooms, creates them through the form and deletes them
+ */
+export class AdminRoomsPage extends AdminPage {
+  private readonly roomListings: Locator;
+  private readonly roomNameInput: Locator;
+  private readonly typeSelect: Locator;
+  private readonly accessibleSelect: Locator;
+  private readonly roomPriceInput: Locator;
+  private readonly createButton: Locator;
+  private readonly errorAlert: Locator;
+
+  constructor(page: Page) {
+    super(page, new URL('admin/rooms', TestConfig.BASE_URL).toString());
+
+    this.roomListings = page.locator('[data-testid="roomlisting"]');
+    this.roomNameInput = page.locator('#roomName');
+    this.typeSelect = page.locator('#type');
+    this.accessibleSelect = page.locator('#accessible');
+    this.roomPriceInput = page.locator('#roomPrice');
+    this.createButton = page.locator('#createRoom');
+    this.errorAlert = page.locator('.alert.alert-danger');
+  }
+
+  /**
+   * Open the rooms page, failing if the session was sent back to the login form
+   */
+  async navigateAndVerify(): Promise<void> {
+    await this.navigate();
+    if (!AppConstants.ADMIN_ROOMS_URL_PATTERN.test(this.page.url())) {
+      throw new PageNotLoadedError('Admin rooms page', AppConstants.ADMIN_ROOMS_URL_PATTERN.source);
+    }
+    await ElementActions.waitForVisible(this.createButton);
+  }
+
+  /**
+   * Read every room row: name, type, accessible, price and features
+   */
+  async getRooms(): Promise<AdminRoomListing[]> {
+    const rooms: AdminRoomListing[] = [];
+    for (const listing of await this.roomListings.all()) {
+      const [roomName, type, accessible, price, details] = (await listing.locator('p').allTextContents()).map(text => text.trim());
+      rooms.push({
+        roomName,
+        type,
+        accessible: accessible === 'true',
+        price: Number(price),
+        features: details && !details.startsWith('No features') ? details.split(',').map(feature => feature.trim()) : []
+      });
+    }
+    return rooms;
+  }
+
+  async hasRoom(roomName: string): Promise<boolean> {
+    return (await this.getRooms()).some(room => room.roomName === roomName);
+  }
+
+  /**
+   * Fill in the create form and wait for the new row to appear
+   */
+  async createRoom(room: NewAdminRoom): Promise<void> {
+    await this.submitRoom(room);
+    await expect.poll(() => this.hasRoom(room.roomName), { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT }).toBe(true);
+  }
+
+  /**
+   * Fill in and submit the create form without waiting for the outcome
+   */
+  async submitRoom(room: NewAdminRoom): Promise<void> {
+    await ElementActions.fillInput(this.roomNameInput, room.roomName);
+    await this.typeSelect.selectOption({ label: RoomTypeNames.nameOf(room.type) });
+    await this.accessibleSelect.selectOption(String(room.accessible ?? false));
+    await ElementActions.fillInput(this.roomPriceInput, String(room.price));
+    for (const feature of room.features ?? []) {
+      await this.page.getByLabel(feature, { exact: true }).check();
+    }
+    await this.createButton.click();
+  }
+
+  async getErrorMessages(): Promise<string[]> {
+    if (!await ElementActions.isElementVisible(this.errorAlert)) {
+      return [];
+    }
+    return (await this.errorAlert.locator('p').allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Open a room's detail page, where its bookings are listed
+   */
+  async openRoom(roomName: string): Promise<void> {
+    await (await this.roomListing(roomName)).locator('p').first().click();
+    await this.page.waitForURL(AppConstants.ADMIN_ROOM_URL_PATTERN);
+  }
+
+  async deleteRoom(roomName: string): Promise<void> {
+    const deleteButton = (await this.roomListing(roomName)).locator('.roomDelete');
+    await WaitActions.forResponse(this.page, '/api/room/', () => deleteButton.click(), { method: 'DELETE' });
+    await expect.poll(() => this.hasRoom(roomName), { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT }).toBe(false);
+  }
+
+  private async roomListing(roomName: string): Promise<Locator> {
+    const index = (await this.getRooms()).findIndex(room => room.roomName === roomName);
+    if (index === -1) {
+      throw new ElementNotFoundError(`Admin room listing "${roomName}"`, '[data-testid="roomlisting"]');
+    }
+    return this.roomListings.nth(index);
+  }
+}
@@ -1,4 +1,7 @@
-import { Page } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
+import { ElementActions, InputMode, KeyboardActions } from '../utils/PageUtils';
+import { VisualCheckpoints, VisualCheckpointOptions } from '../services/VisualCheckpoints';
+import { AccessibilityAudit, AccessibilityAuditResult, AccessibilityRule, AccessibilitySuppression } from '../services/AccessibilityAudit';
 
 /**
  * Base class for all page objects
@@ -7,12 +10,26 @@ import { Page } from '@playwright/test';
 export abstract class BasePage {
   protected readonly page: Page;
   protected readonly pageUrl?: string;
+  protected inputMode: InputMode = 'pointer';
+
+  /**
+   * Accepted accessibility findings for this page; each needs a reason
+   */
+  protected readonly accessibilitySuppressions: AccessibilitySuppression[] = [];
 
   constructor(page: Page, pageUrl?: string) {
     this.page = page;
     this.pageUrl = pageUrl;
   }
 
+  /**
+   * Drive this page with mouse clicks (the default) or with the keyboard only
+   */
+  setInputMode(mode: InputMode): this {
+    this.inputMode = mode;
+    return this;
+  }
+
   /**
    * Navigate to the page if URL is defined
    */
@@ -34,15 +51,58 @@ export abstract class BasePage {
    */
   async takeScreenshot(filename: string, fullPage: boolean = true): Promise<void> {
     await this.page.screenshot({ 
-      path: `test-results/${filename}`, 
-      fullPage 
+      path: `test-results/${filename}`,
+      fullPage
     });
   }
 
   /**
-   * Wait for a specific timeout
+   * Audit the page as currently shown and attach the result to the test report
+   */
+  async auditAccessibility(rules?: AccessibilityRule[]): Promise<AccessibilityAuditResult> {
+    return AccessibilityAudit.run(this.page, { pageName: this.constructor.name, suppressions: this.accessibilitySuppressions, rules });
+  }
+
+  /**
+   * Audit the page and fail on any violation this page does not suppress
+   */
+  async verifyAccessibility(rules?: AccessibilityRule[]): Promise<AccessibilityAuditResult> {
+    return AccessibilityAudit.verify(this.page, { pageName: this.constructor.name, suppressions: this.accessibilitySuppressions, rules });
+  }
+
+  /**
+   * Compare the page, or one element of it, with the reviewed baseline for the running browser
    */
-  protected async wait(milliseconds: number): Promise<void> {
-    await this.page.waitForTimeout(milliseconds);
+  async verifyVisualCheckpoint(name: string, options: VisualCheckpointOptions = {}): Promise<void> {
+    await VisualCheckpoints.verify(this.page, name, { ...options, mask: [...this.dynamicRegions(), ...(options.mask ?? [])] });
+  }
+
+  /**
+   * Regions that change between runs (dates, prices), masked in every visual checkpoint of this page
+   */
+  protected dynamicRegions(): Locator[] {
+    return [];
+  }
+
+  /**
+   * Click the element, or in keyboard mode Tab to it and press Enter/Space
+   */
+  protected async activate(element: Locator, name: string): Promise<void> {
+    if (this.inputMode === 'keyboard') {
+      await KeyboardActions.activate(this.page, element, name);
+    } else {
+      await ElementActions.clickWithRetry(element);
+    }
+  }
+
+  /**
+   * Replace the field's value, typing it after Tabbing to the field in keyboard mode
+   */
+  protected async enterText(element: Locator, value: string, name: string): Promise<void> {
+    if (this.inputMode === 'keyboard') {
+      await KeyboardActions.type(this.page, element, value, name);
+    } else {
+      await ElementActions.fillInput(element, value);
+    }
   }
 }
@@ -1,4 +1,8 @@
-import { Page, Locator, expect } from '@playwright/test';
+import { Page, Locator, Response, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { AppConstants } from '../config/TestConfig';
+import { RESERVATION_ACCESSIBILITY_SUPPRESSIONS } from './ReservationPage';
+import { elementLocators } from './ElementLocators';
 
 export interface BookingFormData {
   firstname?: string;
@@ -7,8 +11,7 @@ export interface BookingFormData {
   phone?: string;
 }
 
-export class BookingFormPage {
-  readonly page: Page;
+export class BookingFormPage extends BasePage {
   readonly forenameInput: Locator;
   readonly surnameInput: Locator;
   readonly emailInput: Locator;
@@ -16,44 +19,58 @@ export class BookingFormPage {
   readonly reserveFormButton: Locator;
   readonly validationAlert: Locator;
 
+  // The form is rendered inside the reservation page's booking card
+  protected readonly accessibilitySuppressions = RESERVATION_ACCESSIBILITY_SUPPRESSIONS;
+
+  // Elements come from the locator registry: these combine every strategy, actions resolve the one that matches
   constructor(page: Page) {
-    this.page = page;
-    this.forenameInput = page.getByPlaceholder('Firstname');
-    this.surnameInput = page.getByPlaceholder('Lastname');
-    this.emailInput = page.getByPlaceholder('Email');
-    this.phoneInput = page.getByPlaceholder('Phone');
-    this.reserveFormButton = page.getByRole('button', { name: /reserve now/i }).first();
-    this.validationAlert = page.locator('.alert.alert-danger');
+    super(page);
+    this.forenameInput = elementLocators.locate(page, 'bookingForm.firstname');
+    this.surnameInput = elementLocators.locate(page, 'bookingForm.lastname');
+    this.emailInput = elementLocators.locate(page, 'bookingForm.email');
+    this.phoneInput = elementLocators.locate(page, 'bookingForm.phone');
+    this.reserveFormButton = elementLocators.locate(page, 'bookingForm.submit').first();
+    this.validationAlert = elementLocators.locate(page, 'bookingForm.validationAlert');
   }
 
   async fillForm(formData: BookingFormData): Promise<void> {
-    if (formData.firstname !== undefined) {
-      await this.forenameInput.fill(formData.firstname);
-    }
-    if (formData.lastname !== undefined) {
-      await this.surnameInput.fill(formData.lastname);
-    }
-    if (formData.email !== undefined) {
-      await this.emailInput.fill(formData.email);
-    }
-    if (formData.phone !== undefined) {
-      await this.phoneInput.fill(formData.phone);
+    for (const field of ['firstname', 'lastname', 'email', 'phone'] as const) {
+      if (formData[field] !== undefined) {
+        await this.enterText(await this.resolve(field), formData[field]!, `${field} field`);
+      }
     }
   }
 
   async clearAllFields(): Promise<void> {
-    await this.forenameInput.clear();
-    await this.surnameInput.clear();
-    await this.emailInput.clear();
-    await this.phoneInput.clear();
+    for (const field of ['firstname', 'lastname', 'email', 'phone']) {
+      await this.enterText(await this.resolve(field), '', `${field} field`);
+    }
   }
 
   async submitForm(): Promise<void> {
-    await this.reserveFormButton.click();
+    await this.activate((await this.resolve('submit')).first(), 'Reserve Now submit button');
+  }
+
+  /**
+   * Record the status the booking API answers with until the returned function is called
+   * The function returns the last status, or undefined when no booking request was answered
+   */
+  recordBookingResponses(): () => number | undefined {
+    let status: number | undefined;
+    const listener = (response: Response) => {
+      if (response.request().method() === 'POST' && AppConstants.BOOKING_API_URL_PATTERN.test(response.url())) {
+        status = response.status();
+      }
+    };
+    this.page.on('response', listener);
+    return () => {
+      this.page.off('response', listener);
+      return status;
+    };
   }
 
   async verifyValidationAlert(): Promise<void> {
-    await expect(this.validationAlert).toBeVisible();
+    await expect(await this.resolve('validationAlert')).toBeVisible();
   }
 
   async verifyValidationMessage(message: string): Promise<void> {
@@ -74,6 +91,11 @@ export class BookingFormPage {
     await this.validationAlert.screenshot({ path });
   }
 
+  async getValidationMessages(): Promise<string[]> {
+    await expect(this.validationAlert).toBeVisible();
+    return (await this.validationAlert.locator('li, p').allTextContents()).map(text => text.trim());
+  }
+
   async getValidationText(): Promise<string | null> {
     return await this.validationAlert.textContent();
   }
@@ -89,4 +111,8 @@ export class BookingFormPage {
     await expect(this.page).toHaveURL(/\/reservation/);
     await this.verifyFormFieldsVisible();
   }
+
+  private async resolve(element: string): Promise<Locator> {
+    return elementLocators.resolve(this.page, `bookingForm.${element}`);
+  }
 }
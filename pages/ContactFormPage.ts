@@ -0,0 +1,99 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { TestConfig } from '../config/TestConfig';
+import { ContactFormData } from '../services/ValidationService';
+import { ElementActions } from '../utils/PageUtils';
+import { ValidationError } from '../utils/CustomErrors';
+
+export { ContactFormData };
+
+/**
+ * ContactFormPage - Handles the homepage "Send Us a Message" form
+ * Submits messages and reads back the thank-you note or validation alert
+ */
+export class ContactFormPage extends BasePage {
+  private readonly nameInput: Locator;
+  private readonly emailInput: Locator;
+  private readonly phoneInput: Locator;
+  private readonly subjectInput: Locator;
+  private readonly descriptionInput: Locator;
+  private readonly submitButton: Locator;
+  private readonly validationAlert: Locator;
+  private readonly thankYouHeading: Locator;
+
+  constructor(page: Page) {
+    super(page, TestConfig.BASE_URL);
+
+    this.nameInput = page.getByTestId('ContactName');
+    this.emailInput = page.getByTestId('ContactEmail');
+    this.phoneInput = page.getByTestId('ContactPhone');
+    this.subjectInput = page.getByTestId('ContactSubject');
+    this.descriptionInput = page.getByTestId('ContactDescription');
+    this.submitButton = page.locator('#contact').getByRole('button', { name: 'Submit' });
+    this.validationAlert = page.locator('#contact .alert.alert-danger');
+    this.thankYouHeading = page.getByRole('heading', { name: /Thanks for getting in touch/i });
+  }
+
+  /**
+   * Open the homepage and scroll the contact form into view
+   */
+  async navigateAndVerify(): Promise<void> {
+    await this.navigate();
+    await this.nameInput.scrollIntoViewIfNeeded();
+    await ElementActions.waitForVisible(this.nameInput);
+  }
+
+  /**
+   * Fill the given fields; fields left undefined are not touched
+   */
+  async fillForm(formData: ContactFormData): Promise<void> {
+    const fields: Array<[Locator, string | undefined]> = [
+      [this.nameInput, formData.name],
+      [this.emailInput, formData.email],
+      [this.phoneInput, formData.phone],
+      [this.subjectInput, formData.subject],
+      [this.descriptionInput, formData.description]
+    ];
+    for (const [input, value] of fields) {
+      if (value !== undefined) {
+        await ElementActions.fillInput(input, value);
+      }
+    }
+  }
+
+  async submitForm(): Promise<void> {
+    await this.submitButton.click();
+  }
+
+  /**
+   * Fill in and submit a message, then wait for the thank-you note
+   */
+  async sendMessage(formData: ContactFormData): Promise<void> {
+    await this.fillForm(formData);
+    await this.submitForm();
+    await this.verifyThankYou(formData.name || '', formData.subject || '');
+  }
+
+  async verifyThankYou(name: string, subject: string): Promise<void> {
+    await expect(this.thankYouHeading).toHaveText(`Thanks for getting in touch ${name}!`, { timeout: TestConfig.FORM_SUBMISSION_TIMEOUT });
+    await expect(this.page.locator('#contact').getByText(subject, { exact: true })).toBeVisible();
+  }
+
+  /**
+   * Messages in the validation alert, one per line
+   */
+  async getValidationMessages(): Promise<string[]> {
+    await ElementActions.waitForVisible(this.validationAlert, TestConfig.FORM_SUBMISSION_TIMEOUT);
+    return (await this.validationAlert.locator('p').allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Check the alert shows exactly the expected messages; the application does not fix their order
+   */
+  async verifyValidationMessages(expected: string[]): Promise<void> {
+    const actual = await this.getValidationMessages();
+    if ([...actual].sort().join('\n') !== [...expected].sort().join('\n')) {
+      throw new ValidationError('contact form', expected.join(' | '), actual.join(' | '));
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { LocatorRegistry } from '../utils/LocatorRegistry';
+
+/**
+ * Element Locators - Strategies for elements that have broken on markup changes
+ * The first strategy is the primary one; the drift report lists elements that needed a later one
+ */
+export const elementLocators = new LocatorRegistry({
+  'reservation.reserveNow': [
+    { role: 'button', name: 'Reserve Now', exact: true },
+    { css: '#doReservation' }
+  ],
+  'bookingForm.firstname': [
+    { role: 'textbox', name: 'Firstname', exact: true },
+    { placeholder: 'Firstname', exact: true },
+    { css: 'input[name="firstname"]' }
+  ],
+  'bookingForm.lastname': [
+    { role: 'textbox', name: 'Lastname', exact: true },
+    { placeholder: 'Lastname', exact: true },
+    { css: 'input[name="lastname"]' }
+  ],
+  'bookingForm.email': [
+    { role: 'textbox', name: 'Email', exact: true },
+    { placeholder: 'Email', exact: true },
+    { css: 'input[name="email"]' }
+  ],
+  'bookingForm.phone': [
+    { role: 'textbox', name: 'Phone', exact: true },
+    { placeholder: 'Phone', exact: true },
+    { css: 'input[name="phone"]' }
+  ],
+  'bookingForm.submit': [
+    { role: 'button', name: 'Reserve Now', exact: true },
+    { css: 'form button[type="submit"]' }
+  ],
+  'bookingForm.validationAlert': [
+    { role: 'alert' },
+    { css: '.alert.alert-danger' }
+  ],
+  'confirmation.heading': [
+    { role: 'heading', name: /Booking Confirmed/i },
+    { css: 'h2:has-text("Booking Confirmed")' }
+  ],
+  'confirmation.text': [
+    { text: 'Your booking has been confirmed for the following dates:' },
+    { css: 'p:has-text("booking has been confirmed")' }
+  ]
+});
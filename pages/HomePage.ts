@@ -33,11 +33,11 @@ export class HomePage extends BasePage {
   }
 
   /**
-   * Click the main "Book Now" button in hero section
+   * Activate the main "Book Now" button in hero section
    */
   async clickHeroBookNow(): Promise<void> {
     await this.verifyHeroBookNowVisible();
-    await ElementActions.clickWithRetry(this.heroBookNowButton);
+    await this.activate(this.heroBookNowButton, 'Hero Book Now link');
   }
 
   /**
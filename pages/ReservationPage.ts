@@ -1,29 +1,61 @@
 import { Page, Locator, expect } from '@playwright/test';
 import { BasePage } from './BasePage';
 import { TestConfig, AppConstants } from '../config/TestConfig';
-import { ElementActions, PageActions } from '../utils/PageUtils';
-import { PageNotLoadedError } from '../utils/CustomErrors';
+import { PricingCalculator, PriceBreakdown, PriceLine, PriceLineKey } from '../services/PricingCalculator';
+import { ElementActions, PageActions, WaitActions } from '../utils/PageUtils';
+import { elementLocators } from './ElementLocators';
+import { DateUtils } from '../utils/DateUtils';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+import { BookingFlowError, ElementNotFoundError, PageNotLoadedError, PricingMismatchError, TestError } from '../utils/CustomErrors';
+import { RoomType, StayDates } from '../data/TestDataModels';
+import { AccessibilitySuppression } from '../services/AccessibilityAudit';
+
+const PRICE_LINE_PATTERNS: Array<{ key: PriceLineKey; pattern: RegExp }> = [
+  { key: 'roomRate', pattern: /(£[\d.,]+ x \d+ nights?)\s*£([\d.,]+)/ },
+  { key: 'cleaningFee', pattern: /(Cleaning fee)\s*£([\d.,]+)/i },
+  { key: 'serviceFee', pattern: /(Service fee)\s*£([\d.,]+)/i },
+  { key: 'tax', pattern: /(Tax|VAT)[^£]*£([\d.,]+)/i },
+  { key: 'total', pattern: /(Total)\s*£([\d.,]+)/i }
+];
+
+/**
+ * Accepted findings on the reservation page, shared by the page objects that live on it
+ */
+export const RESERVATION_ACCESSIBILITY_SUPPRESSIONS: AccessibilitySuppression[] = [
+  { rule: 'color-contrast', selector: '.rbc-off-range', reason: 'Greyed-out days of the neighbouring months are inactive calendar cells' },
+  { rule: 'heading-order', selector: 'booking-card', reason: 'The Price Summary card uses an h3 under the room h1 in the application markup' }
+];
 
 /**
  * ReservationPage - Handles room reservation interactions
  * Manages date selection, pricing verification, and checkout process
+ *
+ * Calendar days are addressed by real dates: the Month View is moved
+ * with Back/Next until the month is displayed, and only in-month cells
+ * (not .rbc-off-range) are clicked.
  */
 export class ReservationPage extends BasePage {
   // Page elements
   private readonly pageHeader: Locator;
   private readonly calendar: Locator;
+  private readonly monthLabel: Locator;
+  private readonly nextMonthButton: Locator;
+  private readonly previousMonthButton: Locator;
   private readonly priceSummary: Locator;
-  private readonly reserveNowButton: Locator;
   private readonly dayButtons: Locator;
 
+  protected readonly accessibilitySuppressions = RESERVATION_ACCESSIBILITY_SUPPRESSIONS;
+
   constructor(page: Page) {
     super(page);
     
     // Initialize page elements
     this.pageHeader = page.getByRole('heading', { level: 1 });
     this.calendar = page.getByRole('table', { name: /Month View/i });
+    this.monthLabel = page.locator('.rbc-toolbar-label');
+    this.nextMonthButton = page.getByRole('button', { name: 'Next', exact: true });
+    this.previousMonthButton = page.getByRole('button', { name: 'Back', exact: true });
     this.priceSummary = page.getByRole('heading', { name: /Price Summary/i }).locator('..');
-    this.reserveNowButton = page.locator('#doReservation');
     this.dayButtons = page.getByRole('button');
   }
 
@@ -42,31 +74,141 @@ export class ReservationPage extends BasePage {
   }
 
   /**
-   * Select check-in and check-out dates
+   * Select check-in and check-out days in the currently displayed month
    */
-  async selectDates(checkInDay: string, checkOutDay: string): Promise<void> {
-    await this.selectDate(checkInDay);
-    await this.selectDate(checkOutDay);
-    
-    // Wait for price calculation to complete
-    await this.wait(TestConfig.PRICE_UPDATE_TIMEOUT);
+  async selectDates(checkInDay: string, checkOutDay: string): Promise<StayDates> {
+    const month = await this.getDisplayedMonth();
+    return this.selectStay(DateUtils.dayOfMonth(month, checkInDay), DateUtils.dayOfMonth(month, checkOutDay));
+  }
+
+  /**
+   * Select a stay by real dates, moving between months as needed
+   * Check-out is the departure day, so 2025-09-01 to 2025-09-02 is one night
+   */
+  async selectStay(checkIn: Date | string, checkOut: Date | string): Promise<StayDates> {
+    const requested = this.toStay(checkIn, checkOut);
+    const requestedRange = DateUtils.formatRange(requested.checkIn, requested.checkOut);
+    if (requested.nights < 1) {
+      throw new BookingFlowError('Date selection', `check-out must be after check-in (${requestedRange})`);
+    }
+
+    await this.selectDate(requested.checkIn);
+    await this.selectDate(requested.checkOut);
+
+    // Wait for the Price Summary to stop changing
+    await WaitActions.forStableText(this.priceSummary, { timeout: TestConfig.PRICE_UPDATE_TIMEOUT });
+
+    const selected = await this.getSelectedStay();
+    if (!selected) {
+      // The calendar does not expose its selection; the Price Summary still shows the nights
+      const nights = await this.getDisplayedNights();
+      if (nights !== requested.nights) {
+        throw new BookingFlowError('Date selection', `requested ${requestedRange} (${requested.nights} nights) but the Price Summary shows ${nights} nights`);
+      }
+      return requested;
+    }
+    const selectedRange = DateUtils.formatRange(selected.checkIn, selected.checkOut);
+    if (selectedRange !== requestedRange) {
+      throw new BookingFlowError('Date selection', `requested ${requestedRange} but calendar shows ${selectedRange}`);
+    }
+    return selected;
+  }
+
+  /**
+   * Get the stay currently selected on the calendar
+   * Read from the Month View's data-checkin/data-checkout, which only the stand-in renders;
+   * returns null on the live site and when nothing is selected
+   */
+  async getSelectedStay(): Promise<StayDates | null> {
+    const checkIn = await this.calendar.getAttribute('data-checkin');
+    const checkOut = await this.calendar.getAttribute('data-checkout');
+    if (!checkIn || !checkOut) {
+      return null;
+    }
+    return this.toStay(checkIn, checkOut);
+  }
+
+  /**
+   * Get the first day of the month shown in the Month View
+   */
+  async getDisplayedMonth(): Promise<Date> {
+    return DateUtils.parseMonthLabel(await ElementActions.getTextContent(this.monthLabel));
+  }
+
+  /**
+   * Move the Month View with Back/Next until the month of the given date is shown
+   */
+  async navigateToMonth(date: Date | string): Promise<void> {
+    const target = DateUtils.startOfMonth(date);
+    const offset = DateUtils.monthsBetween(await this.getDisplayedMonth(), target);
+    const [button, name] = offset > 0 ? [this.nextMonthButton, 'Next month button'] : [this.previousMonthButton, 'Back month button'];
+
+    for (let i = 0; i < Math.abs(offset); i++) {
+      await this.activate(button, name);
+    }
+    await expect(this.monthLabel).toHaveText(DateUtils.monthLabel(target));
   }
 
   /**
-   * Verify pricing calculations are correct
+   * Verify the Price Summary matches the calculation for this room and the selected stay
    */
   async verifyPricing(): Promise<void> {
-    await this.verifyRoomRate();
-    await this.verifyFees();
-    await this.verifyTotalPrice();
+    const roomType = await this.getRoomTypeValue();
+    const selected = await this.getSelectedStay();
+    const nights = selected ? selected.nights : await this.getDisplayedNights();
+    await this.verifyPriceBreakdown(PricingCalculator.calculate(roomType, nights));
   }
 
   /**
-   * Proceed to checkout by clicking Reserve Now button
+   * Verify the Price Summary line by line against an expected breakdown
+   */
+  async verifyPriceBreakdown(expected: PriceBreakdown): Promise<void> {
+    const differences = expected.diff(await this.getPriceSummaryLines());
+    if (differences.length > 0) {
+      throw new PricingMismatchError(
+        `${expected.roomType} x ${expected.nights} nights`,
+        differences.map(difference =>
+          `${difference.label}: expected ${this.formatAmount(difference.expected)}, displayed ${this.formatAmount(difference.actual)}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Parse the Price Summary into structured line items
+   */
+  async getPriceSummaryLines(): Promise<PriceLine[]> {
+    await expect(this.priceSummary).toContainText(/Total/i);
+    const text = (await this.priceSummary.innerText()).replace(/\s+/g, ' ');
+
+    const lines: PriceLine[] = [];
+    for (const { key, pattern } of PRICE_LINE_PATTERNS) {
+      const match = pattern.exec(text);
+      if (match) {
+        lines.push({ key, label: match[1], amount: Number(match[2].replace(/,/g, '')) });
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Proceed to checkout with the Reserve Now button
    */
   async proceedToCheckout(): Promise<void> {
-    await ElementActions.waitForVisible(this.reserveNowButton);
-    await ElementActions.clickWithRetry(this.reserveNowButton);
+    const reserveNowButton = await elementLocators.resolve(this.page, 'reservation.reserveNow');
+    await ElementActions.waitForVisible(reserveNowButton);
+    await this.activate(reserveNowButton, 'Reserve Now button');
+  }
+
+  /**
+   * Get the room ID from the /reservation/<id> URL
+   */
+  getRoomId(): number {
+    const match = /\/reservation\/(\d+)/.exec(new URL(this.page.url()).pathname);
+    if (!match) {
+      throw new PageNotLoadedError('Reservation Page', AppConstants.RESERVATION_URL_PATTERN.toString());
+    }
+    return Number(match[1]);
   }
 
   /**
@@ -78,46 +220,75 @@ export class ReservationPage extends BasePage {
 
   // Private helper methods
 
+  /**
+   * The calendar follows today's date and the Price Summary the selected stay
+   */
+  protected dynamicRegions(): Locator[] {
+    return [this.monthLabel, this.calendar.locator('tbody'), this.priceSummary.getByText(/£\s*[\d.,]+/)];
+  }
+
   /**
    * Select a specific date on the calendar
    */
-  private async selectDate(day: string): Promise<void> {
-    const dateButton = this.page.getByRole('button', { name: day }).first();
-    await ElementActions.clickWithRetry(dateButton);
+  private async selectDate(date: Date): Promise<void> {
+    await this.navigateToMonth(date);
+
+    const dayLabel = DateUtils.dayLabel(date);
+    const dateButton = this.calendar
+      .locator('.rbc-date-cell:not(.rbc-off-range)')
+      .getByRole('button', { name: dayLabel, exact: true });
+
+    const matches = await dateButton.count();
+    if (matches !== 1) {
+      throw new ElementNotFoundError(
+        `Calendar day ${DateUtils.toIsoDate(date)} (${matches} matching buttons)`,
+        `.rbc-date-cell:not(.rbc-off-range) button[name="${dayLabel}"]`
+      );
+    }
+    await this.activate(dateButton, `calendar day ${DateUtils.toIsoDate(date)}`);
+  }
+
+  private toStay(checkIn: Date | string, checkOut: Date | string): StayDates {
+    return {
+      checkIn: DateUtils.toDate(checkIn),
+      checkOut: DateUtils.toDate(checkOut),
+      nights: DateUtils.nightsBetween(checkIn, checkOut)
+    };
   }
 
   /**
    * Verify essential page elements are present
    */
   private async verifyPageElements(): Promise<void> {
-    await expect(this.pageHeader).toHaveText(/(Single Room|Double Room|Suite)/i);
+    await expect(this.pageHeader).toHaveText(new RegExp(`\\b(${RoomTypeNames.names().join('|')})\\b`, 'i'));
     await ElementActions.waitForVisible(this.calendar);
   }
 
   /**
-   * Verify room rate pricing (Single £100 or Double £150)
+   * Resolve the page header to a RoomType
    */
-  private async verifyRoomRate(): Promise<void> {
-    const expectedPattern = new RegExp(`£(${AppConstants.SINGLE_ROOM_PRICE}|${AppConstants.DOUBLE_ROOM_PRICE}) x 1 nights`);
-    await expect(this.priceSummary).toContainText(expectedPattern);
+  private async getRoomTypeValue(): Promise<RoomType> {
+    const header = (await this.getRoomType()).trim();
+    const roomType = RoomTypeNames.fromLabel(header);
+    if (!roomType) {
+      throw new TestError(`Unrecognised room type in page header: "${header}"`);
+    }
+    return roomType;
   }
 
   /**
-   * Verify additional fees
+   * Read the number of nights from the room rate line of the Price Summary
    */
-  private async verifyFees(): Promise<void> {
-    await expect(this.priceSummary).toContainText(`£${AppConstants.CLEANING_FEE}`);
-    await expect(this.priceSummary).toContainText(`£${AppConstants.SERVICE_FEE}`);
+  private async getDisplayedNights(): Promise<number> {
+    const roomLine = (await this.getPriceSummaryLines()).find(line => line.key === 'roomRate');
+    const match = roomLine ? /x (\d+) nights?/.exec(roomLine.label) : null;
+    if (!match) {
+      throw new BookingFlowError('Price Summary', 'no "x N nights" line is displayed');
+    }
+    return Number(match[1]);
   }
 
-  /**
-   * Verify total price calculation
-   */
-  private async verifyTotalPrice(): Promise<void> {
-    const singleTotal = AppConstants.SINGLE_ROOM_PRICE + AppConstants.CLEANING_FEE + AppConstants.SERVICE_FEE;
-    const doubleTotal = AppConstants.DOUBLE_ROOM_PRICE + AppConstants.CLEANING_FEE + AppConstants.SERVICE_FEE;
-    const expectedPattern = new RegExp(`£(${singleTotal}|${doubleTotal})`);
-    
-    await expect(this.priceSummary).toContainText(expectedPattern);
+  private formatAmount(amount?: number): string {
+    return amount === undefined ? 'nothing' : `£${amount}`;
   }
 }
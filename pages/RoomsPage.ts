@@ -1,17 +1,159 @@
-import { Page, Locator, expect } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { RoomData, RoomType } from '../data/TestDataModels';
+import { ElementActions } from '../utils/PageUtils';
+import { ElementNotFoundError, RoomListingMismatchError, TestError } from '../utils/CustomErrors';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
 
-export class RoomsPage {
-  readonly page: Page;
-  readonly roomBookNowButtons: Locator;
+/**
+ * A room card as shown to guests; capacity is not displayed on the cards
+ */
+export type RoomListing = Omit<RoomData, 'capacity'>;
+
+/**
+ * Every given criterion must match; prices are per night and inclusive
+ */
+export interface RoomCriteria {
+  type?: RoomType;
+  minPrice?: number;
+  maxPrice?: number;
+  feature?: string;
+}
+
+/**
+ * RoomsPage - The room list on the homepage
+ * Reads the room cards and books a room chosen by position, type, price or feature
+ */
+export class RoomsPage extends BasePage {
+  private readonly roomCards: Locator;
 
   constructor(page: Page) {
-    this.page = page;
-    this.roomBookNowButtons = page.getByRole('link', { name: /book now/i });
+    super(page);
+
+    this.roomCards = page.locator('.room-card');
+  }
+
+  /**
+   * Read every room card: type, price per night, features and description
+   */
+  async getRooms(): Promise<RoomListing[]> {
+    await ElementActions.waitForVisible(this.roomCards.first());
+    const rooms: RoomListing[] = [];
+    for (const card of await this.roomCards.all()) {
+      rooms.push(await this.parseCard(card));
+    }
+    return rooms;
   }
 
   async selectFirstAvailableRoom(): Promise<void> {
-    const firstRoomBookNow = this.roomBookNowButtons.nth(1);
-    await expect(firstRoomBookNow).toBeVisible();
-    await firstRoomBookNow.click();
+    await this.selectRoomByIndex(0);
+  }
+
+  /**
+   * Book the room at a zero-based position in the list
+   */
+  async selectRoomByIndex(index: number): Promise<void> {
+    const count = await this.roomCards.count();
+    if (index >= count) {
+      throw new ElementNotFoundError(`Room card ${index + 1} (${count} listed)`, '.room-card');
+    }
+    await this.bookRoom(this.roomCards.nth(index), `room card ${index + 1}`);
+  }
+
+  async selectRoomByType(type: RoomType): Promise<RoomListing> {
+    return this.selectRoom({ type });
+  }
+
+  /**
+   * Book the first listed room matching every criterion and return what its card showed
+   */
+  async selectRoom(criteria: RoomCriteria): Promise<RoomListing> {
+    const rooms = await this.getRooms();
+    const index = rooms.findIndex(room => RoomsPage.matches(room, criteria));
+    if (index === -1) {
+      throw new ElementNotFoundError(
+        `Room matching ${JSON.stringify(criteria)} (listed: ${rooms.map(room => `${room.type} £${room.price}`).join(', ')})`,
+        '.room-card'
+      );
+    }
+    await this.bookRoom(this.roomCards.nth(index), `${rooms[index].type} room card`);
+    return rooms[index];
+  }
+
+  /**
+   * Check the listing offers exactly the expected rooms, compared by type
+   */
+  async verifyRoomsMatch(expected: RoomData[]): Promise<void> {
+    const mismatches = RoomsPage.compareRooms(expected, await this.getRooms());
+    if (mismatches.length > 0) {
+      throw new RoomListingMismatchError(mismatches);
+    }
+  }
+
+  static matches(room: RoomListing, criteria: RoomCriteria): boolean {
+    return (criteria.type === undefined || room.type === criteria.type)
+      && (criteria.minPrice === undefined || room.price >= criteria.minPrice)
+      && (criteria.maxPrice === undefined || room.price <= criteria.maxPrice)
+      && (criteria.feature === undefined || room.features.some(feature => feature.toLowerCase() === criteria.feature!.toLowerCase()));
+  }
+
+  /**
+   * Differences between expected rooms and listed ones; feature order is ignored
+   */
+  static compareRooms(expected: RoomData[], listed: RoomListing[]): string[] {
+    const mismatches: string[] = [];
+    for (const room of expected) {
+      const shown = listed.find(listing => listing.type === room.type);
+      if (!shown) {
+        mismatches.push(`${room.type}: not listed`);
+        continue;
+      }
+      if (shown.price !== room.price) {
+        mismatches.push(`${room.type}: expected £${room.price} per night, listed £${shown.price}`);
+      }
+      if ([...shown.features].sort().join(', ') !== [...room.features].sort().join(', ')) {
+        mismatches.push(`${room.type}: expected features ${room.features.join(', ')}, listed ${shown.features.join(', ') || 'none'}`);
+      }
+      if (shown.description !== room.description) {
+        mismatches.push(`${room.type}: expected description "${room.description}", listed "${shown.description}"`);
+      }
+    }
+    listed
+      .filter(listing => !expected.some(room => room.type === listing.type))
+      .forEach(listing => mismatches.push(`${listing.type}: listed but not in the test data`));
+    return mismatches;
+  }
+
+  // Private helper methods
+
+  /**
+   * Prices on the room cards can be changed from the admin panel
+   */
+  protected dynamicRegions(): Locator[] {
+    return [this.roomCards.getByText(/£\s*[\d.,]+/)];
+  }
+
+  private async bookRoom(card: Locator, cardName: string): Promise<void> {
+    await this.activate(card.getByRole('link', { name: /book now/i }), `"Book now" link of the ${cardName}`);
+  }
+
+  private async parseCard(card: Locator): Promise<RoomListing> {
+    const title = (await card.locator('.card-title').innerText()).trim();
+    const type = RoomTypeNames.fromLabel(title);
+    if (!type) {
+      throw new TestError(`Unrecognised room type on room card: "${title}"`);
+    }
+
+    const price = /£\s*([\d.,]+)/.exec(await card.innerText());
+    if (!price) {
+      throw new TestError(`No price on the ${type} room card`);
+    }
+
+    return {
+      type,
+      price: Number(price[1].replace(/,/g, '')),
+      features: (await card.locator('li').allTextContents()).map(feature => feature.trim()).filter(Boolean),
+      description: (await card.locator('.card-text').innerText()).trim()
+    };
   }
 }
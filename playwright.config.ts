@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { TestConfig } from './config/TestConfig';
 
 /**
  * Read environment variables from file.
@@ -17,20 +18,25 @@ export default defineConfig({
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
-  /* Retry on CI only */
-  retries: process.env.CI ? 2 : 0,
+  /* Retry on CI only, as often as the environment (TEST_ENV) allows */
+  retries: process.env.CI ? TestConfig.ENVIRONMENT.retries : 0,
   /* Opt out of parallel tests on CI. */
   workers: process.env.CI ? 1 : undefined,
+  /* Visual checkpoint baselines per browser and platform; only `npm run visual:review` writes them */
+  snapshotPathTemplate: 'visual-baselines/{projectName}-{platform}/{arg}{ext}',
+  updateSnapshots: 'none',
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
     ['html', { open: 'never' }],
     ['list'],
-    ['json', { outputFile: 'test-results/results.json' }]
+    ['json', { outputFile: 'test-results/results.json' }],
+    ['./reporters/LocatorDriftReporter.ts', { outputFile: 'test-results/locator-drift.json' }],
+    ['./reporters/ScenarioCoverageReporter.ts', { outputFile: 'test-results/scenario-coverage.json' }]
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
-    /* Base URL to use in actions like `await page.goto('/')`. */
-    // baseURL: 'http://localhost:3000',
+    /* Base URL of the environment selected with TEST_ENV, for actions like `await page.goto('/')`. */
+    baseURL: TestConfig.BASE_URL,
 
     /* Enhanced debugging and tracing configuration */
     trace: process.env.DEBUG_MODE === 'true' ? 'on' : 'on-first-retry',
@@ -46,8 +52,8 @@ export default defineConfig({
     headless: process.env.DEBUG_MODE === 'true' ? false : true,
     
     /* Extended timeout for debugging */
-    actionTimeout: process.env.DEBUG_MODE === 'true' ? 30000 : 10000,
-    navigationTimeout: process.env.DEBUG_MODE === 'true' ? 30000 : 10000,
+    actionTimeout: process.env.DEBUG_MODE === 'true' ? 30000 : TestConfig.ENVIRONMENT.timeout,
+    navigationTimeout: process.env.DEBUG_MODE === 'true' ? 30000 : TestConfig.ENVIRONMENT.timeout,
   },
 
   /* Configure projects for major browsers */
@@ -88,10 +94,10 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Run the local stand-in application when STAND_IN=true */
+  webServer: TestConfig.USE_STAND_IN ? {
+    command: 'npm run stand-in',
+    url: `${TestConfig.STAND_IN_URL}api/room`,
+    reuseExistingServer: !process.env.CI,
+  } : undefined,
 });
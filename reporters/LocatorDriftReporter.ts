@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { LocatorResolution } from '../utils/LocatorRegistry';
+
+export interface LocatorDriftEntry {
+  element: string;
+  primary: string;
+  // Strategies that found the element instead; null means no strategy did
+  matchedBy: Array<string | null>;
+  tests: string[];
+}
+
+/**
+ * Merge the locator-drift attachments of every test into one entry per element
+ */
+export function summariseDrift(reports: Array<{ test: string; resolutions: LocatorResolution[] }>): LocatorDriftEntry[] {
+  const entries = new Map<string, LocatorDriftEntry>();
+  for (const { test, resolutions } of reports) {
+    for (const resolution of resolutions) {
+      const entry = entries.get(resolution.element)
+        ?? { element: resolution.element, primary: resolution.primary, matchedBy: [], tests: [] };
+      if (!entry.matchedBy.includes(resolution.matched)) entry.matchedBy.push(resolution.matched);
+      if (!entry.tests.includes(test)) entry.tests.push(test);
+      entries.set(resolution.element, entry);
+    }
+  }
+  return [...entries.values()].sort((a, b) => a.element.localeCompare(b.element));
+}
+
+/**
+ * Locator Drift Reporter - End-of-run list of elements whose primary locator no longer works
+ *
+ * Reads the locator-drift attachments written by the locatorDrift fixture,
+ * prints a summary and writes it to outputFile. Prints nothing when every
+ * element was found by its primary strategy.
+ */
+export default class LocatorDriftReporter implements Reporter {
+  private readonly reports: Array<{ test: string; resolutions: LocatorResolution[] }> = [];
+  private readonly outputFile: string;
+
+  constructor(options: { outputFile?: string } = {}) {
+    this.outputFile = options.outputFile ?? 'test-results/locator-drift.json';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name === 'locator-drift' && attachment.body) {
+        this.reports.push({ test: test.titlePath().filter(Boolean).join(' › '), resolutions: JSON.parse(attachment.body.toString('utf8')) });
+      }
+    }
+  }
+
+  onEnd(): void {
+    const drift = summariseDrift(this.reports);
+    if (drift.length === 0) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(drift, null, 2));
+
+    console.log(`\n⚠️ Locator drift: ${drift.length} element(s) no longer found by their primary locator (${this.outputFile})`);
+    for (const entry of drift) {
+      const found = entry.matchedBy.map(strategy => strategy ?? 'nothing').join(' / ');
+      console.log(`  - ${entry.element}: ${entry.primary} failed, found by ${found} in ${entry.tests.length} test(s)`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { TestScenario } from '../data/TestDataModels';
+import { dataLoader } from '../services/DataLoaderService';
+import { SCENARIO_ANNOTATION } from '../services/ScenarioCatalogue';
+
+export type ScenarioRunStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ScenarioRun {
+  scenario: string;
+  project: string;
+  status: ScenarioRunStatus;
+  reason?: string;
+}
+
+export interface ScenarioCoverageEntry {
+  key: string;
+  id: string;
+  name: string;
+  category: string;
+  priority: string;
+  // One per project the scenario was collected for; empty when it was not selected at all
+  runs: Array<Omit<ScenarioRun, 'scenario'>>;
+}
+
+/**
+ * Pair every catalogue scenario with its runs, in catalogue order
+ */
+export function summariseCoverage(scenarios: Record<string, TestScenario>, runs: ScenarioRun[]): ScenarioCoverageEntry[] {
+  return Object.entries(scenarios).map(([key, scenario]) => ({
+    key,
+    id: scenario.id,
+    name: scenario.name,
+    category: scenario.category,
+    priority: scenario.priority,
+    runs: runs.filter(run => run.scenario === key).map(({ scenario: _scenario, ...run }) => run)
+  }));
+}
+
+/**
+ * One summary line per scenario, e.g. "✅ val_001 Email Field Validation [validation/high]: passed (chromium)"
+ */
+export function describeCoverage(entry: ScenarioCoverageEntry): string {
+  const label = `${entry.id} ${entry.name} [${entry.category}/${entry.priority}]`;
+  if (entry.runs.length === 0) {
+    return `➖ ${label}: not selected`;
+  }
+
+  const byStatus = new Map<string, string[]>();
+  for (const run of entry.runs) {
+    const outcome = run.reason ? `${run.status}: ${run.reason}` : run.status;
+    byStatus.set(outcome, [...(byStatus.get(outcome) ?? []), run.project]);
+  }
+  const icon = entry.runs.some(run => run.status === 'failed') ? '❌'
+    : entry.runs.some(run => run.status === 'passed') ? '✅' : '⏭️';
+  return `${icon} ${label}: ${[...byStatus].map(([outcome, projects]) => `${outcome} (${projects.join(', ')})`).join(', ')}`;
+}
+
+/**
+ * Scenario Coverage Reporter - End-of-run list of the catalogue scenarios that ran
+ *
+ * Every scenario in testScenarios is listed as passed, failed, skipped (with
+ * the reason, e.g. the SCENARIO_PRIORITY filter) or not selected (left out by
+ * --grep or the files given). Prints nothing when no scenario test ran, e.g. with --list.
+ */
+export default class ScenarioCoverageReporter implements Reporter {
+  private readonly results = new Map<TestCase, TestResult>();
+  private readonly outputFile: string;
+
+  constructor(options: { outputFile?: string } = {}) {
+    this.outputFile = options.outputFile ?? 'test-results/scenario-coverage.json';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (this.scenarioOf(test)) {
+      // Retries replace earlier attempts
+      this.results.set(test, result);
+    }
+  }
+
+  onEnd(): void {
+    if (this.results.size === 0) {
+      return;
+    }
+
+    const runs: ScenarioRun[] = [...this.results].map(([test, result]) => ({
+      scenario: this.scenarioOf(test)!,
+      project: test.parent.project()?.name ?? '',
+      status: result.status === 'passed' ? 'passed' : result.status === 'skipped' ? 'skipped' : 'failed',
+      reason: result.status === 'skipped' ? [...test.annotations, ...result.annotations].find(annotation => annotation.type === 'skip')?.description : undefined
+    }));
+    const coverage = summariseCoverage(dataLoader.loadTestDataSync().testScenarios, runs);
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(coverage, null, 2));
+
+    const ran = coverage.filter(entry => entry.runs.some(run => run.status !== 'skipped')).length;
+    console.log(`\n📋 Scenario coverage: ${ran} of ${coverage.length} scenario(s) ran (${this.outputFile})`);
+    coverage.forEach(entry => console.log(`  ${describeCoverage(entry)}`));
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  private scenarioOf(test: TestCase): string | undefined {
+    return test.annotations.find(annotation => annotation.type === SCENARIO_ANNOTATION)?.description;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Test data linter
+ *
+ * Checks test data against TestDataSchema, resolves its key references and
+ * cross-checks validation expectations with ValidationService without
+ * launching a browser. Run with `npm run lint:data`, optionally
+ * passing data directories (defaults to TestConfig.TEST_DATA_DIR). Each
+ * directory is checked on its own and merged with every overlay it has.
+ * Open parity findings are listed without failing. Exits with code 1 when
+ * any combination has problems.
+ */
+
+import { relative, resolve } from 'path';
+import { TestConfig } from '../config/TestConfig';
+import { LoadedTestData, TestDataFiles } from '../services/TestDataFiles';
+import { RawTestData, TestDataResolver } from '../services/TestDataResolver';
+import { TestDataSchema } from '../services/TestDataSchema';
+import { ValidationMatrix } from '../services/ValidationMatrix';
+import { TestDataReferenceError, TestError } from '../utils/CustomErrors';
+
+interface LintResult {
+  problems: string[];
+  findings: string[];
+}
+
+function lint(loaded: LoadedTestData): LintResult {
+  const problems = TestDataSchema.validate(loaded.data);
+  const findings: string[] = [];
+  if (problems.length === 0) {
+    try {
+      const resolved = TestDataResolver.resolve(loaded.data as unknown as RawTestData);
+      for (const entry of ValidationMatrix.build(resolved)) {
+        problems.push(...entry.mismatches.map(mismatch => `${entry.source}: ${mismatch}`));
+        findings.push(...entry.findings.map(finding => `${entry.source}: ${finding}`));
+      }
+    } catch (error) {
+      if (!(error instanceof TestDataReferenceError)) {
+        throw error;
+      }
+      problems.push(...error.problems);
+    }
+  }
+  return { problems: problems.map(problem => loaded.annotate(problem)), findings };
+}
+
+async function lintDirectory(directory: string): Promise<boolean> {
+  let passed = true;
+
+  for (const environment of ['', ...await TestDataFiles.listEnvironments(directory)]) {
+    const name = relative(process.cwd(), directory) || '.';
+    const label = environment ? `${name} + overlay ${environment}` : name;
+    let result: LintResult;
+    try {
+      result = lint(await TestDataFiles.load(directory, environment));
+    } catch (error) {
+      if (!(error instanceof TestError)) {
+        throw error;
+      }
+      result = { problems: [error.message], findings: [] };
+    }
+    const { problems, findings } = result;
+
+    findings.forEach(finding => console.warn(`⚠️  ${label}: ${finding}`));
+    if (problems.length === 0) {
+      console.log(`✅ ${label}`);
+      continue;
+    }
+    passed = false;
+    console.error(`❌ ${label} (${problems.length} problem(s))`);
+    problems.forEach(problem => console.error(`  - ${problem}`));
+  }
+  return passed;
+}
+
+async function main(): Promise<void> {
+  const directories = process.argv.length > 2 ? process.argv.slice(2).map(directory => resolve(directory)) : [TestConfig.TEST_DATA_DIR];
+  let passed = true;
+  for (const directory of directories) {
+    passed = await lintDirectory(directory) && passed;
+  }
+  process.exit(passed ? 0 : 1);
+}
+
+main();
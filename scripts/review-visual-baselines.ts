@@ -0,0 +1,93 @@
+/**
+ * Visual baseline review
+ *
+ * Lists the visual checkpoints recorded in the last run (read from
+ * test-results/results.json): new ones without a baseline and changed
+ * ones with their diff image. Run with `npm run visual:review`; pass
+ * `--accept <name>...` to copy the screenshots of those checkpoints over
+ * their baselines, or `--accept-all` for every one listed. `--project
+ * <name>` limits both to one browser.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { relative } from 'path';
+import type { JSONReport } from '@playwright/test/reporter';
+import { VisualCheckpoints, VisualCheckpointRecord } from '../services/VisualCheckpoints';
+import { TestError } from '../utils/CustomErrors';
+
+const REPORT_FILE = 'test-results/results.json';
+
+interface ReviewArguments {
+  project?: string;
+  acceptAll: boolean;
+  // Checkpoint names after --accept; undefined when only listing
+  accept?: string[];
+}
+
+function parseArguments(args: string[]): ReviewArguments {
+  const parsed: ReviewArguments = { acceptAll: false };
+  for (let index = 0; index < args.length; index++) {
+    if (args[index] === '--project') {
+      parsed.project = args[++index];
+    } else if (args[index] === '--accept-all') {
+      parsed.acceptAll = true;
+    } else if (args[index] === '--accept') {
+      parsed.accept = parsed.accept ?? [];
+    } else if (parsed.accept) {
+      parsed.accept.push(args[index]);
+    }
+  }
+  return parsed;
+}
+
+function describe(record: VisualCheckpointRecord): string {
+  const lines = [`  [${record.status}] ${record.project} ${record.name}`, `      baseline: ${relative(process.cwd(), record.baseline)}`, `      actual:   ${relative(process.cwd(), record.actual)}`];
+  if (record.diff) {
+    lines.push(`      diff:     ${relative(process.cwd(), record.diff)}`);
+  }
+  return lines.join('\n');
+}
+
+function main(): void {
+  if (!existsSync(REPORT_FILE)) {
+    console.error(`❌ ${REPORT_FILE} not found; run the tests first`);
+    process.exit(1);
+  }
+  const report: JSONReport = JSON.parse(readFileSync(REPORT_FILE, 'utf-8'));
+  const { project, acceptAll, accept } = parseArguments(process.argv.slice(2));
+  const pending = VisualCheckpoints.pending(report).filter(record => !project || record.project === project);
+
+  if (pending.length === 0) {
+    console.log('✅ No visual checkpoints to review');
+    return;
+  }
+
+  if (!acceptAll && !accept) {
+    console.log(`🖼️  ${pending.length} visual checkpoint(s) to review (open the HTML report to compare):`);
+    pending.forEach(record => console.log(describe(record)));
+    console.log('\nAccept with: npm run visual:review -- --accept <name>... (or --accept-all)');
+    return;
+  }
+
+  const names = accept ?? [];
+  const accepted = pending.filter(record => acceptAll || names.includes(record.name));
+  const unknown = names.filter(name => !pending.some(record => record.name === name));
+
+  let failed = unknown.length > 0;
+  unknown.forEach(name => console.error(`❌ ${name} is not among the checkpoints to review`));
+  for (const record of accepted) {
+    try {
+      VisualCheckpoints.accept(record);
+      console.log(`✅ Accepted ${record.project} ${record.name} → ${relative(process.cwd(), record.baseline)}`);
+    } catch (error) {
+      if (!(error instanceof TestError)) {
+        throw error;
+      }
+      failed = true;
+      console.error(`❌ ${error.message}`);
+    }
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,307 @@
+/**
+ * Accessibility Audit - Local checks of the current DOM
+ *
+ * A snapshot of form fields, text colours, headings and focusable
+ * controls is read from the page in one evaluate() call; the rules
+ * below judge it in Node, and a Tab walk looks for keyboard traps.
+ * Nothing leaves the machine. Page objects list known, accepted
+ * findings as suppressions, which are reported but do not fail.
+ */
+
+import { Page, test } from '@playwright/test';
+import { AccessibilityViolationError } from '../utils/CustomErrors';
+import { BrowserWindow, DomElement, DomNode } from '../utils/BrowserDom';
+
+export type AccessibilityRule = 'missing-label' | 'color-contrast' | 'heading-order' | 'unnamed-control' | 'keyboard-trap';
+
+export const ACCESSIBILITY_RULES: AccessibilityRule[] = ['missing-label', 'color-contrast', 'heading-order', 'unnamed-control', 'keyboard-trap'];
+
+export interface AccessibilityViolation {
+  rule: AccessibilityRule;
+  selector: string;
+  message: string;
+}
+
+/**
+ * Accept findings of a rule, optionally only for selectors containing the given text
+ */
+export interface AccessibilitySuppression {
+  rule: AccessibilityRule;
+  selector?: string;
+  reason: string;
+}
+
+export interface AccessibilityAuditResult {
+  pageName: string;
+  url: string;
+  violations: AccessibilityViolation[];
+  suppressed: Array<AccessibilityViolation & { reason: string }>;
+}
+
+export interface DomSnapshot {
+  fields: Array<{ selector: string; labelled: boolean }>;
+  text: Array<{ selector: string; text: string; color: string; background: string | null; fontSizePx: number; bold: boolean }>;
+  headings: Array<{ selector: string; level: number; text: string }>;
+  controls: Array<{ selector: string; name: string }>;
+  focusableCount: number;
+}
+
+export interface AuditOptions {
+  pageName: string;
+  suppressions?: AccessibilitySuppression[];
+  rules?: AccessibilityRule[];
+}
+
+type Rgb = [number, number, number];
+
+/**
+ * Parse rgb()/rgba() as returned by getComputedStyle
+ */
+export function parseColor(value: string): Rgb | null {
+  const match = /rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:[,\s/]+([\d.]+))?\s*\)/.exec(value);
+  if (!match || (match[4] !== undefined && Number(match[4]) === 0)) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * WCAG 2 contrast ratio between two colours, from 1 to 21
+ */
+export function contrastRatio(foreground: Rgb, background: Rgb): number {
+  const luminance = (rgb: Rgb) => {
+    const [r, g, b] = rgb.map(channel => {
+      const value = channel / 255;
+      return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Judge a DOM snapshot against the static rules
+ */
+export function evaluateSnapshot(snapshot: DomSnapshot): AccessibilityViolation[] {
+  const violations: AccessibilityViolation[] = [];
+
+  snapshot.fields.filter(field => !field.labelled).forEach(field => violations.push({
+    rule: 'missing-label',
+    selector: field.selector,
+    message: 'Form field has no label, aria-label or aria-labelledby (a placeholder is not a label)'
+  }));
+
+  for (const element of snapshot.text) {
+    const foreground = parseColor(element.color);
+    const background = element.background === null ? null : parseColor(element.background) ?? [255, 255, 255] as Rgb;
+    if (!foreground || !background) {
+      continue;
+    }
+    const largeText = element.fontSizePx >= 24 || (element.bold && element.fontSizePx >= 18.66);
+    const required = largeText ? 3 : 4.5;
+    const ratio = contrastRatio(foreground, background);
+    if (ratio < required) {
+      violations.push({
+        rule: 'color-contrast',
+        selector: element.selector,
+        message: `"${element.text}" has contrast ${ratio.toFixed(2)}:1, needs ${required}:1`
+      });
+    }
+  }
+
+  snapshot.headings.forEach((heading, index) => {
+    const previous = snapshot.headings[index - 1];
+    if (previous && heading.level > previous.level + 1) {
+      violations.push({
+        rule: 'heading-order',
+        selector: heading.selector,
+        message: `h${heading.level} "${heading.text}" follows h${previous.level}; heading levels should increase by one`
+      });
+    }
+  });
+
+  snapshot.controls.filter(control => !control.name).forEach(control => violations.push({
+    rule: 'unnamed-control',
+    selector: control.selector,
+    message: 'Focusable control has no accessible name'
+  }));
+
+  return violations;
+}
+
+/**
+ * The element focus stayed on for three Tab presses in a row, if any
+ */
+export function findKeyboardTrap(focusSequence: string[]): string | null {
+  for (let index = 2; index < focusSequence.length; index++) {
+    const selector = focusSequence[index];
+    if (selector !== 'body' && selector === focusSequence[index - 1] && selector === focusSequence[index - 2]) {
+      return selector;
+    }
+  }
+  return null;
+}
+
+export function applySuppressions(
+  violations: AccessibilityViolation[],
+  suppressions: AccessibilitySuppression[]
+): Pick<AccessibilityAuditResult, 'violations' | 'suppressed'> {
+  const result: Pick<AccessibilityAuditResult, 'violations' | 'suppressed'> = { violations: [], suppressed: [] };
+  for (const violation of violations) {
+    const suppression = suppressions.find(candidate =>
+      candidate.rule === violation.rule && (!candidate.selector || violation.selector.includes(candidate.selector))
+    );
+    if (suppression) {
+      result.suppressed.push({ ...violation, reason: suppression.reason });
+    } else {
+      result.violations.push(violation);
+    }
+  }
+  return result;
+}
+
+export class AccessibilityAudit {
+
+  /**
+   * Audit the current page and attach the result to the running test
+   */
+  static async run(page: Page, { pageName, suppressions = [], rules = ACCESSIBILITY_RULES }: AuditOptions): Promise<AccessibilityAuditResult> {
+    const snapshot = await this.takeSnapshot(page);
+    const found = evaluateSnapshot(snapshot);
+    if (rules.includes('keyboard-trap')) {
+      found.push(...await this.checkKeyboardTraps(page, snapshot.focusableCount));
+    }
+
+    const result: AccessibilityAuditResult = {
+      pageName,
+      url: page.url(),
+      ...applySuppressions(found.filter(violation => rules.includes(violation.rule)), suppressions)
+    };
+
+    const testInfo = test.info();
+    await testInfo.attach(`accessibility-${pageName}`, { body: JSON.stringify(result, null, 2), contentType: 'application/json' });
+    if (result.violations.length > 0) {
+      testInfo.annotations.push({ type: 'accessibility', description: `${pageName}: ${result.violations.length} violation(s)` });
+    }
+    return result;
+  }
+
+  /**
+   * Audit and fail on any violation that is not suppressed
+   */
+  static async verify(page: Page, options: AuditOptions): Promise<AccessibilityAuditResult> {
+    const result = await this.run(page, options);
+    if (result.violations.length > 0) {
+      throw new AccessibilityViolationError(options.pageName, result.violations.map(violation => `[${violation.rule}] ${violation.selector}: ${violation.message}`));
+    }
+    return result;
+  }
+
+  /**
+   * Press Tab once more than there are focusable elements and look for focus that does not move
+   */
+  private static async checkKeyboardTraps(page: Page, focusableCount: number): Promise<AccessibilityViolation[]> {
+    const describeFocus = () => page.evaluate(() => {
+      const doc = (globalThis as unknown as BrowserWindow).document;
+      const active = doc.activeElement;
+      if (!active || active === doc.body) {
+        return 'body';
+      }
+      return active.id ? `#${active.id}` : `${active.tagName.toLowerCase()}:${(active.textContent || active.getAttribute('aria-label') || '').trim().slice(0, 30)}`;
+    });
+    const blur = () => page.evaluate(() => (globalThis as unknown as BrowserWindow).document.activeElement?.blur());
+
+    await blur();
+    const sequence: string[] = [];
+    for (let i = 0; i <= focusableCount; i++) {
+      await page.keyboard.press('Tab');
+      sequence.push(await describeFocus());
+    }
+    await blur();
+
+    const trap = findKeyboardTrap(sequence);
+    return trap ? [{ rule: 'keyboard-trap', selector: trap, message: 'Focus stays on this element when pressing Tab' }] : [];
+  }
+
+  /**
+   * Read everything the static rules need in one pass over the DOM
+   */
+  private static takeSnapshot(page: Page): Promise<DomSnapshot> {
+    return page.evaluate(() => {
+      const win = globalThis as unknown as BrowserWindow;
+      const doc = win.document;
+      const textOf = (node: DomNode) => (node.textContent || '').trim();
+
+      const isVisible = (element: DomElement) => {
+        const style = win.getComputedStyle(element);
+        return style.display !== 'none' && style.visibility !== 'hidden' && element.getClientRects().length > 0;
+      };
+      const selectorOf = (element: DomElement): string => {
+        if (element.id) {
+          return `#${element.id}`;
+        }
+        const tag = element.tagName.toLowerCase();
+        const parent = element.parentElement;
+        if (!parent || parent === doc.body) {
+          return tag;
+        }
+        const siblings = Array.from(parent.children).filter(child => child.tagName === element.tagName);
+        const position = siblings.length > 1 ? `:nth-of-type(${siblings.indexOf(element) + 1})` : '';
+        const classes = element.classList.length > 0 ? `.${Array.from(element.classList).join('.')}` : '';
+        return `${selectorOf(parent)} > ${tag}${classes}${position}`;
+      };
+      const accessibleName = (element: DomElement): string => {
+        const labelledBy = (element.getAttribute('aria-labelledby') || '').split(/\s+/)
+          .map(id => doc.getElementById(id)?.textContent || '').join(' ');
+        const labels = Array.from(element.labels || []).map(label => label.textContent).join(' ');
+        const images = Array.from(element.querySelectorAll('img[alt]')).map(image => image.alt).join(' ');
+        return [element.getAttribute('aria-label'), labelledBy, labels, element.textContent, images, element.getAttribute('title'), element.value && element.type === 'submit' ? element.value : '']
+          .filter(Boolean).join(' ').trim();
+      };
+      const backgroundOf = (element: DomElement): string | null => {
+        for (let current: DomElement | null = element; current; current = current.parentElement) {
+          const style = win.getComputedStyle(current);
+          if (style.backgroundImage && style.backgroundImage !== 'none') {
+            return null;
+          }
+          if (!/rgba\(.*,\s*0\)$|transparent/.test(style.backgroundColor)) {
+            return style.backgroundColor;
+          }
+        }
+        return 'rgb(255, 255, 255)';
+      };
+
+      const fields = Array.from(doc.querySelectorAll('input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea'))
+        .filter(isVisible)
+        .map(field => ({
+          selector: selectorOf(field),
+          labelled: Boolean(field.getAttribute('aria-label') || field.getAttribute('aria-labelledby') || (field.labels && field.labels.length > 0) || field.getAttribute('title'))
+        }));
+
+      const text = Array.from(doc.body.querySelectorAll('*'))
+        .filter(element => isVisible(element) && Array.from(element.childNodes).some(node => node.nodeType === 3 && textOf(node)))
+        .map(element => {
+          const style = win.getComputedStyle(element);
+          return {
+            selector: selectorOf(element),
+            text: textOf(element).slice(0, 40),
+            color: style.color,
+            background: backgroundOf(element),
+            fontSizePx: parseFloat(style.fontSize),
+            bold: Number(style.fontWeight) >= 700 || style.fontWeight === 'bold'
+          };
+        });
+
+      const headings = Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+        .filter(isVisible)
+        .map(heading => ({ selector: selectorOf(heading), level: Number(heading.tagName[1]), text: textOf(heading).slice(0, 40) }));
+
+      const focusable = Array.from(doc.querySelectorAll('a[href], button, [role="button"], [role="link"], [tabindex]:not([tabindex="-1"])'))
+        .filter(element => isVisible(element) && !element.disabled);
+      const controls = focusable.map(control => ({ selector: selectorOf(control), name: accessibleName(control) }));
+
+      return { fields, text, headings, controls, focusableCount: focusable.length + fields.length };
+    });
+  }
+}
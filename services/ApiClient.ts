@@ -0,0 +1,365 @@
+/**
+ * API Client - Typed access to the booking platform's REST endpoints
+ *
+ * Lets tests prepare and inspect state (rooms, bookings, availability,
+ * messages) without clicking through the UI. Responses are mapped onto
+ * the models in data/TestDataModels.ts and failures are raised as
+ * ApiRequestError / ApiAuthenticationError carrying the response body.
+ */
+
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { TestConfig } from '../config/TestConfig';
+import { BookingData, MessageData, RoomData, RoomType, UserData } from '../data/TestDataModels';
+import { ApiAuthenticationError, ApiRequestError, TestError } from '../utils/CustomErrors';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+export interface ApiRoom extends Omit<RoomData, 'type'> {
+  roomId: number;
+  roomName: string;
+  accessible: boolean;
+  // Undefined for a type RoomType has no member for, e.g. Twin
+  type?: RoomType;
+  // The type as the API names it
+  apiType: string;
+}
+
+export interface ApiBooking extends BookingData {
+  bookingId: number;
+  roomId: number;
+  depositPaid: boolean;
+}
+
+export interface ApiMessageSummary {
+  messageId: number;
+  name: string;
+  subject: string;
+  read: boolean;
+}
+
+export interface ApiMessage extends MessageData {
+  messageId: number;
+  read: boolean;
+}
+
+export interface UnavailableRange {
+  start: string;
+  end: string;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Response bodies as the API sends them
+
+interface RawRoom {
+  roomid: number;
+  roomName: string;
+  type: string;
+  accessible: boolean;
+  roomPrice: number;
+  capacity: number;
+  features: string[];
+  description: string;
+}
+
+interface RawBooking {
+  bookingid: number;
+  roomid: number;
+  firstname: string;
+  lastname: string;
+  email: string;
+  phone: string;
+  depositpaid: boolean;
+  bookingdates: { checkin: string; checkout: string };
+}
+
+interface RawMessage {
+  messageid: number;
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  description: string;
+  read: boolean;
+}
+
+type RawMessageSummary = Pick<RawMessage, 'messageid' | 'name' | 'subject' | 'read'>;
+
+const ROOM_FIELDS: Array<keyof RawRoom> = ['roomid', 'roomName', 'type', 'roomPrice'];
+const BOOKING_FIELDS: Array<keyof RawBooking> = ['bookingid', 'roomid', 'firstname', 'lastname', 'bookingdates'];
+const MESSAGE_SUMMARY_FIELDS: Array<keyof RawMessageSummary> = ['messageid', 'name', 'subject'];
+const MESSAGE_FIELDS: Array<keyof RawMessage> = [...MESSAGE_SUMMARY_FIELDS, 'email', 'description'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ApiClient {
+  private token?: string;
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly baseUrl: string = TestConfig.BASE_URL
+  ) {}
+
+  // Rooms and availability
+
+  /**
+   * Get every room on offer
+   */
+  async getRooms(): Promise<ApiRoom[]> {
+    const { rooms } = await this.receive<{ rooms: unknown[] }>('GET', 'api/room', ['rooms']);
+    return rooms.map(room => this.toRoom(this.narrow<RawRoom>('GET /api/room', room, ROOM_FIELDS)));
+  }
+
+  /**
+   * Get a single room by ID
+   */
+  async getRoom(roomId: number): Promise<ApiRoom> {
+    return this.toRoom(await this.receive<RawRoom>('GET', `api/room/${roomId}`, ROOM_FIELDS));
+  }
+
+  /**
+   * Get the first room of the given type
+   */
+  async getRoomByType(roomType: RoomType): Promise<ApiRoom> {
+    const room = (await this.getRooms()).find(candidate => candidate.type === roomType);
+    if (!room) {
+      throw new TestError(`No room of type "${roomType}" is offered`);
+    }
+    return room;
+  }
+
+  /**
+   * Get rooms with no booking overlapping the given ISO dates
+   */
+  async getAvailableRooms(checkInDate: string, checkOutDate: string): Promise<ApiRoom[]> {
+    const query = new URLSearchParams({ checkin: checkInDate, checkout: checkOutDate });
+    const { rooms } = await this.receive<{ rooms: unknown[] }>('GET', `api/room?${query}`, ['rooms']);
+    return rooms.map(room => this.toRoom(this.narrow<RawRoom>('GET /api/room', room, ROOM_FIELDS)));
+  }
+
+  /**
+   * Get the booked date ranges shown as unavailable on a room's calendar
+   */
+  async getUnavailableDates(roomId: number): Promise<UnavailableRange[]> {
+    const { report } = await this.receive<{ report: UnavailableRange[] }>('GET', `api/report/room/${roomId}`, ['report']);
+    return report.map(({ start, end }) => ({ start, end }));
+  }
+
+  // Authentication
+
+  /**
+   * Log in as admin; the token is sent with every later request
+   */
+  async login(username: string, password: string): Promise<string> {
+    const { token } = await this.receive<{ token: string }>('POST', 'api/auth/login', ['token'], { username, password });
+    this.token = token;
+    return token;
+  }
+
+  /**
+   * Check whether the current token is still accepted
+   */
+  async isAuthenticated(): Promise<boolean> {
+    if (!this.token) {
+      return false;
+    }
+    const response = await this.request.post(this.url('api/auth/validate'), { data: { token: this.token } });
+    return response.ok();
+  }
+
+  async logout(): Promise<void> {
+    if (this.token) {
+      await this.send('POST', 'api/auth/logout', { token: this.token });
+      this.token = undefined;
+    }
+  }
+
+  // Bookings
+
+  /**
+   * Create a booking for a room; dates in the booking must be ISO dates
+   */
+  async createBooking(roomId: number, booking: BookingData, depositPaid: boolean = false): Promise<ApiBooking> {
+    const { firstname, lastname, email, phone } = booking.guestDetails;
+    const body = await this.receive<{ booking: unknown }>('POST', 'api/booking', ['booking'], {
+      roomid: roomId,
+      firstname,
+      lastname,
+      email,
+      phone,
+      depositpaid: depositPaid,
+      bookingdates: { checkin: booking.checkInDate, checkout: booking.checkOutDate }
+    });
+    return this.toBooking(this.narrow<RawBooking>('POST /api/booking', body.booking, BOOKING_FIELDS), await this.getRoomTypes());
+  }
+
+  /**
+   * Get stored bookings, optionally only those for one room (admin only)
+   */
+  async getBookings(roomId?: number): Promise<ApiBooking[]> {
+    const path = roomId === undefined ? 'api/booking' : `api/booking?roomid=${roomId}`;
+    const { bookings } = await this.receive<{ bookings: unknown[] }>('GET', path, ['bookings']);
+    const roomTypes = await this.getRoomTypes();
+    return bookings.map(booking => this.toBooking(this.narrow<RawBooking>(`GET /${path}`, booking, BOOKING_FIELDS), roomTypes));
+  }
+
+  /**
+   * Get a stored booking by ID (admin only)
+   */
+  async getBooking(bookingId: number): Promise<ApiBooking> {
+    return this.toBooking(await this.receive<RawBooking>('GET', `api/booking/${bookingId}`, BOOKING_FIELDS), await this.getRoomTypes());
+  }
+
+  /**
+   * Delete a stored booking (admin only)
+   */
+  async deleteBooking(bookingId: number): Promise<void> {
+    await this.send('DELETE', `api/booking/${bookingId}`);
+  }
+
+  // Messages
+
+  /**
+   * Submit a contact form message
+   */
+  async sendMessage(message: MessageData): Promise<ApiMessage> {
+    const body = await this.receive<{ message: unknown }>('POST', 'api/message', ['message'], message);
+    return this.toMessage(this.narrow<RawMessage>('POST /api/message', body.message, MESSAGE_FIELDS));
+  }
+
+  /**
+   * Get the admin inbox summaries (admin only)
+   */
+  async getMessages(): Promise<ApiMessageSummary[]> {
+    const { messages } = await this.receive<{ messages: unknown[] }>('GET', 'api/message', ['messages']);
+    return messages
+      .map(message => this.narrow<RawMessageSummary>('GET /api/message', message, MESSAGE_SUMMARY_FIELDS))
+      .map(message => ({
+        messageId: message.messageid,
+        name: message.name,
+        subject: message.subject,
+        read: message.read
+      }));
+  }
+
+  /**
+   * Get a full message by ID (admin only)
+   */
+  async getMessage(messageId: number): Promise<ApiMessage> {
+    return this.toMessage(await this.receive<RawMessage>('GET', `api/message/${messageId}`, MESSAGE_FIELDS));
+  }
+
+  async markMessageRead(messageId: number): Promise<void> {
+    await this.send('PUT', `api/message/${messageId}/read`);
+  }
+
+  async deleteMessage(messageId: number): Promise<void> {
+    await this.send('DELETE', `api/message/${messageId}`);
+  }
+
+  // Private helper methods
+
+  /**
+   * Send a request and return the parsed body, raising on non-2xx status
+   */
+  private async send(method: HttpMethod, path: string, data?: unknown): Promise<unknown> {
+    const response = await this.request.fetch(this.url(path), {
+      method,
+      data,
+      headers: this.token ? { Cookie: `token=${this.token}` } : undefined
+    });
+    const body = await this.readBody(response);
+    const endpoint = `${method} /${path}`;
+
+    if (response.status() === 401 || response.status() === 403) {
+      throw new ApiAuthenticationError(endpoint, response.status(), body);
+    }
+    if (!response.ok()) {
+      throw new ApiRequestError(endpoint, response.status(), body);
+    }
+    return body;
+  }
+
+  /**
+   * Send a request whose response body must carry the given fields
+   */
+  private async receive<T extends object>(method: HttpMethod, path: string, fields: Array<keyof T>, data?: unknown): Promise<T> {
+    return this.narrow<T>(`${method} /${path}`, await this.send(method, path, data), fields);
+  }
+
+  /**
+   * Narrow a response body to the shape the API documents, raising when a field is missing
+   */
+  private narrow<T extends object>(endpoint: string, body: unknown, fields: Array<keyof T>): T {
+    const missing = typeof body === 'object' && body !== null
+      ? fields.filter(field => !(field in body))
+      : fields;
+    if (missing.length > 0) {
+      throw new TestError(`API response from ${endpoint} lacks ${missing.join(', ')}: ${JSON.stringify(body)}`, { endpoint, body });
+    }
+    return body as T;
+  }
+
+  private async readBody(response: APIResponse): Promise<unknown> {
+    const text = await response.text();
+    try {
+      return text ? JSON.parse(text) : undefined;
+    } catch {
+      return text;
+    }
+  }
+
+  private url(path: string): string {
+    return new URL(path, this.baseUrl).toString();
+  }
+
+  private async getRoomTypes(): Promise<Map<number, RoomType | undefined>> {
+    const rooms = await this.getRooms();
+    return new Map(rooms.map(room => [room.roomId, room.type]));
+  }
+
+  private toRoom(room: RawRoom): ApiRoom {
+    return {
+      roomId: room.roomid,
+      roomName: room.roomName,
+      accessible: room.accessible,
+      type: RoomTypeNames.fromLabel(room.type),
+      apiType: room.type,
+      price: room.roomPrice,
+      capacity: room.capacity,
+      features: room.features,
+      description: room.description
+    };
+  }
+
+  private toBooking(booking: RawBooking, roomTypes: Map<number, RoomType | undefined>): ApiBooking {
+    const { checkin, checkout } = booking.bookingdates;
+    const guestDetails: UserData = {
+      firstname: booking.firstname,
+      lastname: booking.lastname,
+      email: booking.email,
+      phone: booking.phone
+    };
+    return {
+      bookingId: booking.bookingid,
+      roomId: booking.roomid,
+      depositPaid: booking.depositpaid,
+      checkInDate: checkin,
+      checkOutDate: checkout,
+      numberOfNights: Math.round((Date.parse(checkout) - Date.parse(checkin)) / DAY_MS),
+      guestDetails,
+      roomType: roomTypes.get(booking.roomid)
+    };
+  }
+
+  private toMessage(message: RawMessage): ApiMessage {
+    return {
+      messageId: message.messageid,
+      name: message.name,
+      email: message.email,
+      phone: message.phone,
+      subject: message.subject,
+      description: message.description,
+      read: message.read
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Booking Verifier - Confirms guest bookings on the admin side
+ *
+ * A confirmation screen only proves the guest UI said "Booking Confirmed".
+ * The verifier logs in as admin through the API, waits for a stored booking
+ * with the expected room, guest name and dates, and remembers it so
+ * cleanUp() can delete it once the test is done.
+ */
+
+import { ApiBooking, ApiClient } from './ApiClient';
+import { AdminCredentials, TestConfig } from '../config/TestConfig';
+import { UserData } from '../data/TestDataModels';
+import { DateUtils } from '../utils/DateUtils';
+import { BookingVerificationError } from '../utils/CustomErrors';
+
+export interface ExpectedBooking {
+  roomId: number;
+  guest: Pick<UserData, 'firstname' | 'lastname'>;
+  checkIn: Date | string;
+  checkOut: Date | string;
+}
+
+const POLL_INTERVAL_MS = 250;
+
+export class BookingVerifier {
+  private readonly created = new Set<number>();
+
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly credentials: () => AdminCredentials = () => TestConfig.getAdminCredentials()
+  ) {}
+
+  /**
+   * Wait for the booking to be stored and return it
+   * Raises BookingVerificationError listing the room's bookings when none matches
+   */
+  async verifyBookingStored(expected: ExpectedBooking, timeout: number = TestConfig.FORM_SUBMISSION_TIMEOUT): Promise<ApiBooking> {
+    await this.ensureLoggedIn();
+    const deadline = Date.now() + timeout;
+
+    let bookings: ApiBooking[] = [];
+    do {
+      bookings = await this.apiClient.getBookings(expected.roomId);
+      const match = bookings.find(booking => this.matches(booking, expected));
+      if (match) {
+        this.created.add(match.bookingId);
+        return match;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    } while (Date.now() < deadline);
+
+    throw new BookingVerificationError(this.describe(expected), bookings.map(booking => this.describe({
+      roomId: booking.roomId,
+      guest: booking.guestDetails,
+      checkIn: booking.checkInDate,
+      checkOut: booking.checkOutDate
+    })));
+  }
+
+  /**
+   * Remember a booking made outside verifyBookingStored so cleanUp() removes it too
+   */
+  track(booking: ApiBooking): void {
+    this.created.add(booking.bookingId);
+  }
+
+  /**
+   * Delete every verified or tracked booking; ones already gone are ignored
+   */
+  async cleanUp(): Promise<void> {
+    if (this.created.size === 0) {
+      return;
+    }
+    await this.ensureLoggedIn();
+    for (const bookingId of this.created) {
+      await this.apiClient.deleteBooking(bookingId).catch(() => undefined);
+    }
+    this.created.clear();
+  }
+
+  private async ensureLoggedIn(): Promise<void> {
+    if (!await this.apiClient.isAuthenticated()) {
+      const { username, password } = this.credentials();
+      await this.apiClient.login(username, password);
+    }
+  }
+
+  private matches(booking: ApiBooking, expected: ExpectedBooking): boolean {
+    return booking.guestDetails.firstname === expected.guest.firstname
+      && booking.guestDetails.lastname === expected.guest.lastname
+      && booking.checkInDate === DateUtils.toIsoDate(DateUtils.toDate(expected.checkIn))
+      && booking.checkOutDate === DateUtils.toIsoDate(DateUtils.toDate(expected.checkOut));
+  }
+
+  private describe(booking: ExpectedBooking): string {
+    const checkIn = DateUtils.toIsoDate(DateUtils.toDate(booking.checkIn));
+    const checkOut = DateUtils.toIsoDate(DateUtils.toDate(booking.checkOut));
+    return `room ${booking.roomId}, ${booking.guest.firstname} ${booking.guest.lastname}, ${checkIn} to ${checkOut}`;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Browser Event Capture - Console and network activity for debug reports
+ *
+ * Listens on a BrowserContext (so every page in the test is covered) for
+ * console messages, uncaught page errors, failed requests and HTTP responses
+ * with status >= 400. Events go into a bounded ring buffer: once full, the
+ * oldest event is dropped. Events matching an ignore filter are never stored.
+ */
+
+import { BrowserContext, ConsoleMessage, Request, Response, WebError } from '@playwright/test';
+import { TestConfig } from '../config/TestConfig';
+
+export type BrowserEventType = 'console' | 'pageerror' | 'requestfailed' | 'response';
+
+export interface BrowserEvent {
+  type: BrowserEventType;
+  message: string;
+  timestamp: string;
+  level?: string;
+  url?: string;
+  method?: string;
+  status?: number;
+}
+
+/**
+ * Every given criterion must match; strings match as substrings
+ */
+export interface BrowserEventFilter {
+  type?: BrowserEventType;
+  level?: string;
+  message?: string | RegExp;
+  url?: string | RegExp;
+}
+
+/**
+ * Noise from the live site that says nothing about the application under test
+ */
+export const DEFAULT_IGNORED_BROWSER_EVENTS: BrowserEventFilter[] = [
+  { url: /favicon\.ico/ },
+  { url: /google-analytics\.com|googletagmanager\.com|doubleclick\.net/ },
+  { type: 'console', message: 'Download the React DevTools' }
+];
+
+function matchesText(value: string | undefined, expected: string | RegExp): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  return typeof expected === 'string' ? value.includes(expected) : expected.test(value);
+}
+
+export function matchesBrowserEvent(event: BrowserEvent, filter: BrowserEventFilter): boolean {
+  return (filter.type === undefined || event.type === filter.type)
+    && (filter.level === undefined || event.level === filter.level)
+    && (filter.message === undefined || matchesText(event.message, filter.message))
+    && (filter.url === undefined || matchesText(event.url, filter.url));
+}
+
+/**
+ * One-line description of an event for logs and reports
+ */
+export function formatBrowserEvent(event: BrowserEvent): string {
+  switch (event.type) {
+    case 'console':
+      return `[console.${event.level}] ${event.message}${event.url ? ` (${event.url})` : ''}`;
+    case 'pageerror':
+      return `[pageerror] ${event.message}`;
+    case 'requestfailed':
+      return `[requestfailed] ${event.method} ${event.url} - ${event.message}`;
+    case 'response':
+      return `[response] ${event.status} ${event.method} ${event.url}`;
+  }
+}
+
+export class BrowserEventCapture {
+  private events: BrowserEvent[] = [];
+  private dropped = 0;
+  private detachListeners: (() => void) | null = null;
+
+  constructor(
+    private readonly capacity: number = TestConfig.DEBUG_EVENT_BUFFER_SIZE,
+    private readonly ignored: BrowserEventFilter[] = [...DEFAULT_IGNORED_BROWSER_EVENTS]
+  ) {}
+
+  /**
+   * Start listening to every page in the context
+   */
+  attach(context: BrowserContext): void {
+    this.detach();
+
+    const onConsole = (message: ConsoleMessage) => {
+      const location = message.location();
+      this.record({
+        type: 'console',
+        level: message.type(),
+        message: message.text(),
+        url: location.url ? `${location.url}:${location.lineNumber}` : undefined
+      });
+    };
+    const onWebError = (webError: WebError) => {
+      const error = webError.error();
+      this.record({ type: 'pageerror', message: error.stack || error.message, url: webError.page()?.url() });
+    };
+    const onRequestFailed = (request: Request) => {
+      this.record({
+        type: 'requestfailed',
+        message: request.failure()?.errorText || 'Request failed',
+        method: request.method(),
+        url: request.url()
+      });
+    };
+    const onResponse = (response: Response) => {
+      if (response.status() >= 400) {
+        this.record({
+          type: 'response',
+          message: response.statusText(),
+          method: response.request().method(),
+          url: response.url(),
+          status: response.status()
+        });
+      }
+    };
+
+    context.on('console', onConsole);
+    context.on('weberror', onWebError);
+    context.on('requestfailed', onRequestFailed);
+    context.on('response', onResponse);
+
+    this.detachListeners = () => {
+      context.off('console', onConsole);
+      context.off('weberror', onWebError);
+      context.off('requestfailed', onRequestFailed);
+      context.off('response', onResponse);
+    };
+  }
+
+  detach(): void {
+    this.detachListeners?.();
+    this.detachListeners = null;
+  }
+
+  /**
+   * Ignore events matching a filter from now on
+   */
+  ignore(filter: BrowserEventFilter): void {
+    this.ignored.push(filter);
+  }
+
+  record(event: Omit<BrowserEvent, 'timestamp'> & { timestamp?: string }): void {
+    const entry: BrowserEvent = { ...event, timestamp: event.timestamp ?? new Date().toISOString() };
+    if (this.ignored.some(filter => matchesBrowserEvent(entry, filter))) {
+      return;
+    }
+    this.events.push(entry);
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+      this.dropped++;
+    }
+  }
+
+  /**
+   * Buffered events, oldest first, optionally narrowed by a filter
+   */
+  getEvents(filter?: BrowserEventFilter): BrowserEvent[] {
+    return filter ? this.events.filter(event => matchesBrowserEvent(event, filter)) : [...this.events];
+  }
+
+  /**
+   * Number of events pushed out of the buffer because it was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  countByType(): Record<BrowserEventType, number> {
+    const counts: Record<BrowserEventType, number> = { console: 0, pageerror: 0, requestfailed: 0, response: 0 };
+    this.events.forEach(event => counts[event.type]++);
+    return counts;
+  }
+}
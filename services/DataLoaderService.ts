@@ -1,8 +1,11 @@
 /**
  * Data Loader Service - External Test Data Management
  * 
- * This service provides centralized access to external test data from JSON files.
+ * This service provides centralized access to external test data files.
  * It implements lazy loading, caching, and type-safe data access patterns.
+ * The data directory (and TEST_DATA_ENV overlay) is merged by TestDataFiles,
+ * checked against TestDataSchema and key references between sections are
+ * resolved by TestDataResolver at load time.
  */
 
 import { 
@@ -11,11 +14,15 @@ import {
   ValidationTestCase, 
   TestScenario,
   RoomData,
-  PricingData 
+  FeeSchedule,
+  DateFixture,
+  MessageData,
+  ContactValidationCase
 } from '../data/TestDataModels';
-
-// Import test data directly - in a real environment, this would be loaded from file system
-import testDataJson from '../data/test-data.json';
+import { TestDataReferenceError, TestDataSchemaError, TestError } from '../utils/CustomErrors';
+import { LoadedTestData, TestDataFiles } from './TestDataFiles';
+import { RawTestData, TestDataResolver } from './TestDataResolver';
+import { TestDataSchema } from './TestDataSchema';
 
 export interface ExternalTestData {
   users: {
@@ -28,32 +35,37 @@ export interface ExternalTestData {
   invalidUsers: Record<string, Partial<UserData>>;
   bookings: Record<string, BookingData>;
   rooms: Record<string, RoomData>;
-  pricing: Record<string, PricingData>;
-  dates: {
-    checkIn: string;
-    checkOut: string;
-    pastDate: string;
-    futureDate: string;
-    invalidDate: string;
+  pricing: {
+    standardPricing: FeeSchedule;
+    singleRoomTotal: number;
+    doubleRoomTotal: number;
+    suiteTotal: number;
   };
+  dates: Record<string, DateFixture>;
   validation: {
-    messages: Record<string, string | string[]>;
+    errorMessages: Record<string, Record<string, string>>;
     testCases: ValidationTestCase[];
   };
   testScenarios: Record<string, TestScenario>;
+  contactMessages: {
+    validMessage: MessageData;
+    invalidMessages: Record<string, ContactValidationCase>;
+  };
   environments: Record<string, {
     baseUrl: string;
     timeout: number;
     retries: number;
+    protected?: boolean;
   }>;
 }
 
 class DataLoaderService {
   private static instance: DataLoaderService;
   private testData: ExternalTestData | null = null;
+  private loadedFiles: LoadedTestData | null = null;
 
   private constructor() {
-    // Data loaded from imported JSON
+    // Data loaded lazily from TestConfig.TEST_DATA_DIR
   }
 
   /**
@@ -67,7 +79,8 @@ class DataLoaderService {
   }
 
   /**
-   * Load test data from imported JSON with caching
+   * Load test data from the data directory with caching
+   * Schema and reference problems name the file each bad value came from
    */
   public async loadTestData(): Promise<ExternalTestData> {
     if (this.testData) {
@@ -75,19 +88,53 @@ class DataLoaderService {
     }
 
     try {
-      this.testData = testDataJson as unknown as ExternalTestData;
-      return this.testData;
+      return this.prepare(await TestDataFiles.load());
     } catch (error) {
+      if (error instanceof TestError) {
+        throw error;
+      }
       throw new Error(`Failed to load test data: ${error}`);
     }
   }
 
+  /**
+   * Load test data without awaiting, for specs that declare a test per data entry
+   * Playwright collects tests synchronously, before any fixture or hook runs
+   */
+  public loadTestDataSync(): ExternalTestData {
+    return this.testData ?? this.prepare(TestDataFiles.loadSync());
+  }
+
+  /**
+   * Get the data files that were merged, in merge order
+   */
+  public async getLoadedFiles(): Promise<string[]> {
+    await this.loadTestData();
+    return this.loadedFiles!.files;
+  }
+
+  /**
+   * Get the file that supplied a value, e.g. getValueSource('users.validUser.email')
+   */
+  public async getValueSource(valuePath: string): Promise<string | undefined> {
+    await this.loadTestData();
+    return this.loadedFiles!.sourceOf(valuePath);
+  }
+
+  /**
+   * Get every value path under a prefix with the file it came from
+   */
+  public async getValueSources(prefix = ''): Promise<Record<string, string>> {
+    await this.loadTestData();
+    return this.loadedFiles!.sourcesUnder(prefix);
+  }
+
   /**
    * Get valid user data by key
    */
   public async getValidUser(userKey: keyof ExternalTestData['users']): Promise<UserData> {
     const data = await this.loadTestData();
-    return data.users[userKey];
+    return TestDataResolver.entry(data.users, userKey, 'users');
   }
 
   /**
@@ -146,12 +193,22 @@ class DataLoaderService {
     return data.rooms[roomKey];
   }
 
+  /**
+   * Get every room in the test data, in file order
+   */
+  public async getAllRooms(): Promise<RoomData[]> {
+    const data = await this.loadTestData();
+    return Object.values(data.rooms);
+  }
+
   /**
    * Get pricing data
    */
-  public async getPricingData(pricingKey: string): Promise<PricingData> {
+  public async getPricingData<K extends keyof ExternalTestData['pricing']>(
+    pricingKey: K
+  ): Promise<ExternalTestData['pricing'][K]> {
     const data = await this.loadTestData();
-    if (!data.pricing[pricingKey]) {
+    if (data.pricing[pricingKey] === undefined) {
       throw new Error(`Pricing data not found for key: ${pricingKey}`);
     }
     return data.pricing[pricingKey];
@@ -168,9 +225,9 @@ class DataLoaderService {
   /**
    * Get validation messages
    */
-  public async getValidationMessages(): Promise<Record<string, string | string[]>> {
+  public async getValidationMessages(): Promise<ExternalTestData['validation']['errorMessages']> {
     const data = await this.loadTestData();
-    return data.validation.messages;
+    return data.validation.errorMessages;
   }
 
   /**
@@ -192,6 +249,26 @@ class DataLoaderService {
     }));
   }
 
+  /**
+   * Get the contact message that passes every contact form rule
+   */
+  public async getValidContactMessage(): Promise<MessageData> {
+    const data = await this.loadTestData();
+    return { ...data.contactMessages.validMessage };
+  }
+
+  /**
+   * Get every invalid contact message case, with its fields applied to the valid message
+   */
+  public async getContactValidationCases(): Promise<Array<{ key: string; testCase: ContactValidationCase; message: MessageData }>> {
+    const data = await this.loadTestData();
+    return Object.entries(data.contactMessages.invalidMessages).map(([key, testCase]) => ({
+      key,
+      testCase,
+      message: { ...data.contactMessages.validMessage, ...testCase.fields }
+    }));
+  }
+
   /**
    * Get filtered test scenarios by category
    */
@@ -217,13 +294,14 @@ class DataLoaderService {
    */
   public async reloadTestData(): Promise<ExternalTestData> {
     this.testData = null;
+    this.loadedFiles = null;
     return this.loadTestData();
   }
 
   /**
    * Get environment configuration
    */
-  public async getEnvironmentConfig(env: string): Promise<{ baseUrl: string; timeout: number; retries: number }> {
+  public async getEnvironmentConfig(env: string): Promise<ExternalTestData['environments'][string]> {
     const data = await this.loadTestData();
     if (!data.environments[env]) {
       throw new Error(`Environment configuration not found for: ${env}`);
@@ -238,6 +316,27 @@ class DataLoaderService {
     const data = await this.loadTestData();
     return Object.keys(data.environments);
   }
+
+  /**
+   * Check, resolve and cache merged data files
+   */
+  private prepare(loaded: LoadedTestData): ExternalTestData {
+    const problems = TestDataSchema.validate(loaded.data);
+    if (problems.length > 0) {
+      throw new TestDataSchemaError(problems.map(problem => loaded.annotate(problem)));
+    }
+
+    try {
+      this.testData = TestDataResolver.resolve(loaded.data as unknown as RawTestData);
+    } catch (error) {
+      if (error instanceof TestDataReferenceError) {
+        throw new TestDataReferenceError(error.problems.map(problem => loaded.annotate(problem)));
+      }
+      throw error;
+    }
+    this.loadedFiles = loaded;
+    return this.testData;
+  }
 }
 
 // Export singleton instance
@@ -7,10 +7,25 @@
  * - Error context capture
  * - Performance monitoring
  * - Test execution flow tracking
+ * - Console and network capture (see BrowserEventCapture)
+ *
+ * Screenshots, HTML snapshots, traces and a per-test debug-report.json are
+ * written to the test's output directory and attached to testInfo, so they
+ * appear in the HTML report and results.json. Console output is only
+ * printed in debug mode.
  */
 
-import { Page, BrowserContext, test } from '@playwright/test';
+import { Page, BrowserContext, TestInfo, test } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
 import { TestConfig } from '../config/TestConfig';
+import {
+  BrowserEvent,
+  BrowserEventCapture,
+  BrowserEventFilter,
+  BrowserEventType,
+  formatBrowserEvent
+} from './BrowserEventCapture';
 
 export interface DebugContext {
   testName: string;
@@ -36,10 +51,39 @@ export interface DebugStep {
   errorDetails?: any;
 }
 
+export interface DebugArtifact {
+  name: string;
+  path: string;
+  contentType: string;
+}
+
+/**
+ * Machine-readable summary written to debug-report.json for each test
+ */
+export interface DebugReport {
+  testName: string;
+  titlePath: string[];
+  success: boolean;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  steps: DebugStep[];
+  browserEvents: {
+    counts: Record<BrowserEventType, number>;
+    dropped: number;
+    events: BrowserEvent[];
+  };
+  artifacts: DebugArtifact[];
+}
+
 class DebugService {
   private static instance: DebugService;
   private debugSteps: Map<string, DebugStep[]> = new Map();
   private testStartTime: Map<string, Date> = new Map();
+  private eventCaptures: Map<string, BrowserEventCapture> = new Map();
+  private testInfos: Map<string, TestInfo> = new Map();
+  private artifacts: Map<string, DebugArtifact[]> = new Map();
+  private ignoredBrowserEvents: BrowserEventFilter[] = [];
   private isDebugMode: boolean;
 
   private constructor() {
@@ -55,10 +99,19 @@ class DebugService {
 
   /**
    * Initialize debugging for a test
+   * Artifacts are attached to testInfo (the current test's by default)
    */
-  public async initializeTest(testName: string, context: BrowserContext): Promise<void> {
+  public async initializeTest(testName: string, context: BrowserContext, testInfo: TestInfo = test.info()): Promise<void> {
     this.testStartTime.set(testName, new Date());
     this.debugSteps.set(testName, []);
+    this.testInfos.set(testName, testInfo);
+    this.artifacts.set(testName, []);
+
+    // Capture console output and network failures for error context and the report
+    const capture = new BrowserEventCapture();
+    this.ignoredBrowserEvents.forEach(filter => capture.ignore(filter));
+    capture.attach(context);
+    this.eventCaptures.set(testName, capture);
 
     if (this.isDebugMode) {
       // Start tracing for debugging
@@ -100,12 +153,13 @@ class DebugService {
     try {
       // Take screenshot before step execution
       if (this.isDebugMode) {
-        const screenshotPath = `test-results/debug/${testName}/step-${stepNumber}-before.png`;
+        const screenshotPath = this.artifactPath(testName, `step-${stepNumber}-before.png`);
         await page.screenshot({ 
           path: screenshotPath,
           fullPage: true 
         });
         stepResult.screenshot = screenshotPath;
+        await this.attachArtifact(testName, `step-${stepNumber}-before`, screenshotPath, 'image/png');
       }
 
       // Execute the step function
@@ -118,11 +172,12 @@ class DebugService {
 
       // Take screenshot after successful step
       if (this.isDebugMode) {
-        const successScreenshotPath = `test-results/debug/${testName}/step-${stepNumber}-success.png`;
+        const successScreenshotPath = this.artifactPath(testName, `step-${stepNumber}-success.png`);
         await page.screenshot({ 
           path: successScreenshotPath,
           fullPage: true 
         });
+        await this.attachArtifact(testName, `step-${stepNumber}-success`, successScreenshotPath, 'image/png');
       }
 
       steps.push(stepResult);
@@ -166,35 +221,25 @@ class DebugService {
   ): Promise<void> {
     try {
       // Capture error screenshot
-      const errorScreenshotPath = `test-results/debug/${testName}/step-${step.stepNumber}-error.png`;
+      const errorScreenshotPath = this.artifactPath(testName, `step-${step.stepNumber}-error.png`);
       await page.screenshot({ 
         path: errorScreenshotPath,
         fullPage: true 
       });
+      await this.attachArtifact(testName, `step-${step.stepNumber}-error`, errorScreenshotPath, 'image/png');
 
       // Capture page HTML for analysis
-      const htmlContent = await page.content();
-      const htmlPath = `test-results/debug/${testName}/step-${step.stepNumber}-error.html`;
-      const fs = require('fs');
-      const path = require('path');
-      
-      // Ensure directory exists
-      const dir = path.dirname(htmlPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      fs.writeFileSync(htmlPath, htmlContent);
+      const htmlPath = this.artifactPath(testName, `step-${step.stepNumber}-error.html`);
+      fs.writeFileSync(htmlPath, await page.content());
+      await this.attachArtifact(testName, `step-${step.stepNumber}-error-html`, htmlPath, 'text/html');
 
-      // Capture console logs if available
-      const consoleLogs = await this.getRecentConsoleLogs(page);
-      
       // Enhanced error details
       step.errorDetails = {
         ...step.errorDetails,
         screenshot: errorScreenshotPath,
         htmlSnapshot: htmlPath,
-        consoleLogs,
+        consoleLogs: this.getRecentConsoleLogs(testName),
+        networkErrors: this.getRecentNetworkErrors(testName),
         pageTitle: await page.title(),
         pageUrl: page.url(),
         viewportSize: page.viewportSize(),
@@ -211,19 +256,6 @@ class DebugService {
    */
   private async logStepDetails(testName: string, step: DebugStep, page: Page): Promise<void> {
     await test.step(`${step.stepName} (${step.duration}ms)`, async () => {
-      const stepInfo = {
-        stepNumber: step.stepNumber,
-        description: step.description,
-        action: step.action,
-        expectedResult: step.expectedResult,
-        actualResult: step.actualResult,
-        duration: `${step.duration}ms`,
-        pageUrl: page.url(),
-        success: step.success ? '✅' : '❌'
-      };
-
-      console.table(stepInfo);
-
       if (this.isDebugMode) {
         console.log(`🔍 Debug Info for Step ${step.stepNumber}:`);
         console.log(`   📝 Description: ${step.description}`);
@@ -239,12 +271,39 @@ class DebugService {
   }
 
   /**
-   * Get recent console logs from the page
+   * Ignore browser events matching a filter in every test from now on
+   * e.g. ignoreBrowserEvents({ type: 'console', message: /third-party widget/ })
+   */
+  public ignoreBrowserEvents(filter: BrowserEventFilter): void {
+    this.ignoredBrowserEvents.push(filter);
+    this.eventCaptures.forEach(capture => capture.ignore(filter));
+  }
+
+  /**
+   * Get the captured browser events of a running test
    */
-  private async getRecentConsoleLogs(page: Page): Promise<string[]> {
-    // This would need to be implemented by listening to console events
-    // For now, return empty array
-    return [];
+  public getBrowserEvents(testName: string, filter?: BrowserEventFilter): BrowserEvent[] {
+    return this.eventCaptures.get(testName)?.getEvents(filter) ?? [];
+  }
+
+  /**
+   * Get recent console messages and page errors
+   */
+  private getRecentConsoleLogs(testName: string, limit = TestConfig.DEBUG_REPORT_EVENT_LIMIT): string[] {
+    return this.getBrowserEvents(testName)
+      .filter(event => event.type === 'console' || event.type === 'pageerror')
+      .slice(-limit)
+      .map(formatBrowserEvent);
+  }
+
+  /**
+   * Get recent failed requests and error responses
+   */
+  private getRecentNetworkErrors(testName: string, limit = TestConfig.DEBUG_REPORT_EVENT_LIMIT): string[] {
+    return this.getBrowserEvents(testName)
+      .filter(event => event.type === 'requestfailed' || event.type === 'response')
+      .slice(-limit)
+      .map(formatBrowserEvent);
   }
 
   /**
@@ -262,29 +321,76 @@ class DebugService {
 
     // Stop tracing and save
     if (this.isDebugMode) {
-      const tracePath = `test-results/debug/${testName}/trace.zip`;
+      const tracePath = this.artifactPath(testName, 'trace.zip');
       await context.tracing.stop({ path: tracePath });
+      await this.attachArtifact(testName, 'debug-trace', tracePath, 'application/zip');
       console.log(`🎬 Trace saved to: ${tracePath}`);
       console.log(`   Use: npx playwright show-trace ${tracePath}`);
     }
 
+    this.eventCaptures.get(testName)?.detach();
+
     // Generate test summary
-    await this.generateTestReport(testName, steps, totalDuration, success);
+    const report = this.buildTestReport(testName, steps, startTime ?? endTime, endTime, success);
+    await this.writeTestReport(testName, report);
+    if (this.isDebugMode) {
+      this.printTestReport(testName, steps, totalDuration, success);
+    }
 
     // Clean up
     this.debugSteps.delete(testName);
     this.testStartTime.delete(testName);
+    this.eventCaptures.delete(testName);
+    this.testInfos.delete(testName);
+    this.artifacts.delete(testName);
+  }
+
+  /**
+   * Collect the steps, browser events and artifacts of a test into one report
+   */
+  private buildTestReport(
+    testName: string,
+    steps: DebugStep[],
+    startTime: Date,
+    endTime: Date,
+    success: boolean
+  ): DebugReport {
+    const capture = this.eventCaptures.get(testName);
+    return {
+      testName,
+      titlePath: this.testInfos.get(testName)?.titlePath ?? [testName],
+      success,
+      startedAt: startTime.toISOString(),
+      finishedAt: endTime.toISOString(),
+      durationMs: endTime.getTime() - startTime.getTime(),
+      steps,
+      browserEvents: {
+        counts: capture?.countByType() ?? { console: 0, pageerror: 0, requestfailed: 0, response: 0 },
+        dropped: capture?.droppedCount ?? 0,
+        events: capture?.getEvents() ?? []
+      },
+      artifacts: [...this.artifacts.get(testName) ?? []]
+    };
+  }
+
+  /**
+   * Write debug-report.json next to the test's other output and attach it
+   */
+  private async writeTestReport(testName: string, report: DebugReport): Promise<void> {
+    const reportPath = this.artifactPath(testName, 'debug-report.json');
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    await this.attachArtifact(testName, 'debug-report', reportPath, 'application/json');
   }
 
   /**
-   * Generate comprehensive test report
+   * Print a human-readable summary (debug mode only)
    */
-  private async generateTestReport(
+  private printTestReport(
     testName: string,
     steps: DebugStep[],
     totalDuration: number,
     success: boolean
-  ): Promise<void> {
+  ): void {
     console.log('\n' + '='.repeat(80));
     console.log(`📋 DEBUG REPORT: ${testName}`);
     console.log('='.repeat(80));
@@ -306,16 +412,59 @@ class DebugService {
       }
     });
 
-    if (this.isDebugMode) {
-      console.log('\n🔍 Debug Files Generated:');
-      console.log(`   📁 Debug folder: test-results/debug/${testName}/`);
-      console.log(`   🎬 Trace file: test-results/debug/${testName}/trace.zip`);
-      console.log(`   📸 Screenshots: test-results/debug/${testName}/step-*.png`);
-    }
+    this.reportBrowserEvents(testName);
+
+    console.log('\n🔍 Debug Files Generated:');
+    console.log(`   📁 Debug folder: ${path.dirname(this.artifactPath(testName, 'debug-report.json'))}`);
+    console.log(`   🎬 Trace file: ${this.artifactPath(testName, 'trace.zip')}`);
+    console.log(`   📸 Screenshots: step-*.png (also attached to the HTML report)`);
 
     console.log('='.repeat(80) + '\n');
   }
 
+  /**
+   * Path for a debug artifact inside the test's output directory
+   * Falls back to test-results/debug/<test name>/ for tests that were not initialized
+   */
+  private artifactPath(testName: string, fileName: string): string {
+    const testInfo = this.testInfos.get(testName);
+    const filePath = testInfo
+      ? testInfo.outputPath('debug', fileName)
+      : path.join(TestConfig.SCREENSHOT_PATH, 'debug', testName, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    return filePath;
+  }
+
+  private async attachArtifact(testName: string, name: string, filePath: string, contentType: string): Promise<void> {
+    this.artifacts.get(testName)?.push({ name, path: filePath, contentType });
+    await this.testInfos.get(testName)?.attach(name, { path: filePath, contentType });
+  }
+
+  /**
+   * Add captured console and network activity to the report
+   */
+  private reportBrowserEvents(testName: string): void {
+    const capture = this.eventCaptures.get(testName);
+    if (!capture) {
+      return;
+    }
+
+    const counts = capture.countByType();
+    console.log('\n🌐 Browser Events:');
+    console.log(`   💬 Console messages: ${counts.console}`);
+    console.log(`   💥 Page errors: ${counts.pageerror}`);
+    console.log(`   🚫 Failed requests: ${counts.requestfailed}`);
+    console.log(`   ⚠️  Error responses (>= 400): ${counts.response}`);
+    if (capture.droppedCount > 0) {
+      console.log(`   ♻️  Older events dropped: ${capture.droppedCount}`);
+    }
+
+    const notable = capture.getEvents()
+      .filter(event => event.type !== 'console' || event.level === 'error' || event.level === 'warning')
+      .slice(-TestConfig.DEBUG_REPORT_EVENT_LIMIT);
+    notable.forEach(event => console.log(`      ${formatBrowserEvent(event)}`));
+  }
+
   /**
    * Set up VS Code debugging integration
    */
@@ -343,7 +492,7 @@ class DebugService {
       'npx playwright test --debug',
       'npx playwright test --headed --slowmo=1000',
       'npx playwright codegen https://automationintesting.online/',
-      'npx playwright show-trace test-results/debug/*/trace.zip'
+      'npx playwright show-trace test-results/*/debug/trace.zip'
     ];
 
     console.log('🎭 Playwright Debugging Commands:');
@@ -0,0 +1,200 @@
+/**
+ * Known Issues - Declarative registry of application bugs tests may hit
+ *
+ * config/known-issues.yaml names each issue, how to recognise it on the
+ * page (text, URL, console error), the tests it affects and when it
+ * expires. The `page` fixture watches affected tests: a failure explained
+ * by the issue becomes an annotated expected failure, a pass without the
+ * issue fails so the entry gets removed, and an expired entry fails the
+ * test before it runs. Nothing is caught inside the tests themselves.
+ */
+
+import * as fs from 'fs';
+import { Page, TestInfo } from '@playwright/test';
+import { parse as parseYaml } from 'yaml';
+import { TestConfig } from '../config/TestConfig';
+import { DateUtils } from '../utils/DateUtils';
+import { KnownIssueError, TestDataSchemaError, TestDataFileError } from '../utils/CustomErrors';
+import { Schema, SchemaNode } from './TestDataSchema';
+
+export interface KnownIssueMatcher {
+  pageText?: string;
+  url?: string;
+  consoleError?: string;
+}
+
+export interface KnownIssue {
+  id: string;
+  title: string;
+  matcher: KnownIssueMatcher;
+  tests: string[];
+  expires: string;
+  baseUrl?: string;
+  link?: string;
+}
+
+const isoDate: SchemaNode = (value, path, problems) => {
+  Schema.string()(value, path, problems);
+  if (typeof value === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    problems.push(`${path}: expected a YYYY-MM-DD date, got ${JSON.stringify(value)}`);
+  }
+};
+
+const matcherNode = Schema.object({}, {
+  pageText: Schema.string(),
+  url: Schema.string(),
+  consoleError: Schema.string()
+});
+
+const KNOWN_ISSUES_SCHEMA: SchemaNode = Schema.object({
+  knownIssues: Schema.array(Schema.object(
+    {
+      id: Schema.string(),
+      title: Schema.string(),
+      matcher: (value, path, problems) => {
+        matcherNode(value, path, problems);
+        if (value && typeof value === 'object' && Object.keys(value).length === 0) {
+          problems.push(`${path}: needs at least one of pageText, url, consoleError`);
+        }
+      },
+      tests: Schema.array(Schema.string()),
+      expires: isoDate
+    },
+    { baseUrl: Schema.string(), link: Schema.string() }
+  ))
+});
+
+/**
+ * Substring match, or a regular expression when written /pattern/flags
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return regex ? new RegExp(regex[1], regex[2]).test(value) : value.includes(pattern);
+}
+
+export class KnownIssueRegistry {
+  private static defaultRegistry: KnownIssueRegistry | null = null;
+
+  constructor(public readonly issues: KnownIssue[]) {}
+
+  /**
+   * Registry from TestConfig.KNOWN_ISSUES_FILE, loaded once per worker
+   */
+  static default(): KnownIssueRegistry {
+    if (!this.defaultRegistry) {
+      this.defaultRegistry = this.load();
+    }
+    return this.defaultRegistry;
+  }
+
+  static load(file: string = TestConfig.KNOWN_ISSUES_FILE): KnownIssueRegistry {
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new TestDataFileError(file, `could not be read: ${(error as Error).message}`);
+    }
+    return this.parse(text, file);
+  }
+
+  /**
+   * Parse and schema-check a known-issues document
+   */
+  static parse(text: string, source: string = 'Known issues'): KnownIssueRegistry {
+    const document = parseYaml(text) ?? { knownIssues: [] };
+    const problems: string[] = [];
+    KNOWN_ISSUES_SCHEMA(document, '$', problems);
+
+    const ids = Array.isArray(document.knownIssues) ? document.knownIssues.map((issue: KnownIssue) => issue?.id) : [];
+    ids.filter((id: string, index: number) => id && ids.indexOf(id) !== index)
+      .forEach((id: string) => problems.push(`knownIssues: duplicate id ${JSON.stringify(id)}`));
+
+    if (problems.length > 0) {
+      throw new TestDataSchemaError(problems, source);
+    }
+    return new KnownIssueRegistry(document.knownIssues);
+  }
+
+  /**
+   * Issues that apply to a test, matched on its "file › describe › title" path
+   */
+  forTest(titlePath: string[], baseUrl: string = TestConfig.BASE_URL): KnownIssue[] {
+    const fullTitle = titlePath.join(' › ');
+    return this.issues.filter(issue =>
+      (!issue.baseUrl || baseUrl.startsWith(issue.baseUrl))
+      && issue.tests.some(test => fullTitle.includes(test))
+    );
+  }
+
+  static isExpired(issue: KnownIssue, today: Date = DateUtils.today()): boolean {
+    return DateUtils.toDate(issue.expires) < today;
+  }
+
+  /**
+   * Fail for the first expired issue, so it is re-checked rather than trusted forever
+   */
+  static assertNotExpired(issues: KnownIssue[], today: Date = DateUtils.today()): void {
+    const expired = issues.find(issue => this.isExpired(issue, today));
+    if (expired) {
+      throw new KnownIssueError(expired.id, `expired on ${expired.expires}; check whether it still reproduces, then remove the entry or move its expiry date`);
+    }
+  }
+}
+
+/**
+ * Watches one page for the known issues of the running test
+ */
+export class KnownIssueMonitor {
+  private readonly consoleErrors: string[] = [];
+
+  constructor(private readonly page: Page, private readonly issues: KnownIssue[]) {
+    page.on('console', message => {
+      if (message.type() === 'error') {
+        this.consoleErrors.push(message.text());
+      }
+    });
+    page.on('pageerror', error => this.consoleErrors.push(error.message));
+  }
+
+  /**
+   * Issues whose every matcher finds its evidence right now
+   */
+  async findReproduced(): Promise<KnownIssue[]> {
+    const needsText = this.issues.some(issue => issue.matcher.pageText);
+    const pageText = needsText ? await this.page.locator('body').innerText({ timeout: 1000 }).catch(() => '') : '';
+    const url = this.page.url();
+
+    return this.issues.filter(({ matcher }) =>
+      (!matcher.pageText || matchesPattern(pageText, matcher.pageText))
+      && (!matcher.url || matchesPattern(url, matcher.url))
+      && (!matcher.consoleError || this.consoleErrors.some(error => matchesPattern(error, matcher.consoleError!)))
+    );
+  }
+
+  /**
+   * Turn the test outcome into an expected failure, or fail a test whose issue is gone
+   */
+  async settle(testInfo: TestInfo): Promise<void> {
+    if (testInfo.status === 'skipped' || testInfo.status === 'interrupted') {
+      return;
+    }
+
+    const reproduced = await this.findReproduced();
+    reproduced.forEach(issue => testInfo.annotations.push({
+      type: 'known-issue',
+      description: `${issue.id}: ${issue.title}${issue.link ? ` (${issue.link})` : ''}`
+    }));
+
+    if (testInfo.status !== 'passed') {
+      if (reproduced.length > 0) {
+        testInfo.fail(true, `Expected failure: known issue ${reproduced.map(issue => issue.id).join(', ')}`);
+      }
+      return;
+    }
+
+    const gone = this.issues.find(issue => !reproduced.includes(issue));
+    if (gone) {
+      throw new KnownIssueError(gone.id, `did not reproduce and the test passed; remove it from ${TestConfig.KNOWN_ISSUES_FILE}`);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Pricing calculator for reservation Price Summaries
+ * Computes the expected line items for any room type and stay length
+ */
+
+import { AppConstants } from '../config/TestConfig';
+import { PricingData, RoomType } from '../data/TestDataModels';
+import { TestError } from '../utils/CustomErrors';
+
+export type PriceLineKey = 'roomRate' | 'cleaningFee' | 'serviceFee' | 'tax' | 'total';
+
+export interface PriceLine {
+  key: PriceLineKey;
+  label: string;
+  amount: number;
+}
+
+export interface PriceDifference {
+  key: PriceLineKey;
+  label: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface PricingRates {
+  nightlyRate: number;
+  cleaningFee: number;
+  serviceFee: number;
+  taxRate: number;
+}
+
+export class PricingCalculator {
+
+  /**
+   * Get the nightly rate the application charges for a room type
+   */
+  static getNightlyRate(roomType: RoomType): number {
+    switch (roomType) {
+      case RoomType.SINGLE:
+        return AppConstants.SINGLE_ROOM_PRICE;
+      case RoomType.DOUBLE:
+        return AppConstants.DOUBLE_ROOM_PRICE;
+      case RoomType.SUITE:
+        return AppConstants.SUITE_PRICE;
+      default:
+        throw new TestError(`No nightly rate known for room type: ${roomType}`);
+    }
+  }
+
+  /**
+   * Calculate the expected Price Summary for a stay
+   * Rates default to the application's; pass overrides (e.g. taxRate from PricingData) to model other setups
+   */
+  static calculate(roomType: RoomType, nights: number, overrides: Partial<PricingRates> = {}): PriceBreakdown {
+    if (!Number.isInteger(nights) || nights < 1) {
+      throw new TestError(`Number of nights must be a positive whole number, got: ${nights}`);
+    }
+
+    const rates: PricingRates = {
+      nightlyRate: this.getNightlyRate(roomType),
+      cleaningFee: AppConstants.CLEANING_FEE,
+      serviceFee: AppConstants.SERVICE_FEE,
+      taxRate: AppConstants.TAX_RATE,
+      ...overrides
+    };
+
+    const roomTotal = rates.nightlyRate * nights;
+    const lines: PriceLine[] = [
+      { key: 'roomRate', label: `£${rates.nightlyRate} x ${nights} nights`, amount: roomTotal },
+      { key: 'cleaningFee', label: 'Cleaning fee', amount: rates.cleaningFee },
+      { key: 'serviceFee', label: 'Service fee', amount: rates.serviceFee }
+    ];
+
+    const subtotal = roomTotal + rates.cleaningFee + rates.serviceFee;
+    const tax = this.roundCurrency(subtotal * rates.taxRate);
+    if (tax > 0) {
+      lines.push({ key: 'tax', label: 'Tax', amount: tax });
+    }
+    lines.push({ key: 'total', label: 'Total', amount: this.roundCurrency(subtotal + tax) });
+
+    return new PriceBreakdown(roomType, nights, rates, lines);
+  }
+
+  private static roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+/**
+ * Represents the expected line items of a Price Summary
+ */
+export class PriceBreakdown {
+  constructor(
+    public readonly roomType: RoomType,
+    public readonly nights: number,
+    public readonly rates: PricingRates,
+    public readonly lines: PriceLine[]
+  ) {}
+
+  get total(): number {
+    return this.getLine('total')?.amount ?? 0;
+  }
+
+  getLine(key: PriceLineKey): PriceLine | undefined {
+    return this.lines.find(line => line.key === key);
+  }
+
+  /**
+   * Compare displayed line items against this breakdown
+   * Returns one entry per line that is missing, unexpected or has the wrong amount
+   */
+  diff(actualLines: PriceLine[]): PriceDifference[] {
+    const differences: PriceDifference[] = [];
+
+    for (const expected of this.lines) {
+      const actual = actualLines.find(line => line.key === expected.key);
+      const labelMatches = expected.key !== 'roomRate' || actual?.label === expected.label;
+      if (!actual || actual.amount !== expected.amount || !labelMatches) {
+        differences.push({
+          key: expected.key,
+          label: actual && !labelMatches ? `${expected.label} (displayed as "${actual.label}")` : expected.label,
+          expected: expected.amount,
+          actual: actual?.amount
+        });
+      }
+    }
+
+    for (const actual of actualLines) {
+      if (!this.getLine(actual.key)) {
+        differences.push({ key: actual.key, label: actual.label, actual: actual.amount });
+      }
+    }
+
+    return differences;
+  }
+
+  /**
+   * Express the breakdown in the PricingData shape used by the test data
+   */
+  toPricingData(): PricingData {
+    return {
+      roomRate: this.rates.nightlyRate,
+      cleaningFee: this.rates.cleaningFee,
+      serviceFee: this.rates.serviceFee,
+      taxRate: this.rates.taxRate,
+      total: this.total
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Scenario Catalogue - Selects the testScenarios to run and judges their outcome
+ *
+ * SCENARIO_CATEGORY and SCENARIO_PRIORITY take comma-separated TestCategory
+ * and TestPriority values, e.g. SCENARIO_PRIORITY=high for a smoke run.
+ * Every scenario test is also tagged with its category and priority, so
+ * `--grep @high` selects the same scenarios from the command line.
+ *
+ * A submitted booking's outcome is judged from the status the booking API
+ * answered with and the messages the form showed: a confirmation is a
+ * success, no answer or a 5xx a system error, and a rejection listing only
+ * known validation messages a validation error. Any other rejection, such
+ * as dates already booked, is a business error.
+ */
+
+import { ExpectedOutcome, TestCategory, TestPriority, TestScenario } from '../data/TestDataModels';
+import { DESTRUCTIVE_TAG } from '../config/EnvironmentResolver';
+import { ConfigurationError } from '../utils/CustomErrors';
+import type { BookingFlowResult } from '../helpers/BookingFlow';
+
+export interface ScenarioFilter {
+  // Empty when every category or priority is selected
+  categories: TestCategory[];
+  priorities: TestPriority[];
+}
+
+export type ScenarioSubmission = Pick<BookingFlowResult, 'outcome' | 'responseStatus' | 'validationMessages'>;
+
+export const SCENARIO_ANNOTATION = 'scenario';
+
+export class ScenarioCatalogue {
+
+  /**
+   * Read SCENARIO_CATEGORY and SCENARIO_PRIORITY
+   */
+  static filterFrom(variables: NodeJS.ProcessEnv): ScenarioFilter {
+    return {
+      categories: this.parseList('SCENARIO_CATEGORY', variables.SCENARIO_CATEGORY, Object.values(TestCategory)),
+      priorities: this.parseList('SCENARIO_PRIORITY', variables.SCENARIO_PRIORITY, Object.values(TestPriority))
+    };
+  }
+
+  static selects(filter: ScenarioFilter, scenario: TestScenario): boolean {
+    return (filter.categories.length === 0 || filter.categories.includes(scenario.category))
+      && (filter.priorities.length === 0 || filter.priorities.includes(scenario.priority));
+  }
+
+  /**
+   * The filter as it was set, e.g. "SCENARIO_PRIORITY=high"
+   */
+  static describeFilter(filter: ScenarioFilter): string {
+    return [
+      filter.categories.length > 0 ? `SCENARIO_CATEGORY=${filter.categories.join(',')}` : '',
+      filter.priorities.length > 0 ? `SCENARIO_PRIORITY=${filter.priorities.join(',')}` : ''
+    ].filter(Boolean).join(' ') || 'no filter';
+  }
+
+  static title(scenario: TestScenario): string {
+    return `${scenario.id} ${scenario.name}`;
+  }
+
+  /**
+   * Category and priority tags; a scenario that books successfully also creates data
+   */
+  static tags(scenario: TestScenario): string[] {
+    const tags = [`@${scenario.category}`, `@${scenario.priority}`];
+    if (scenario.data.user && scenario.expectedOutcome === ExpectedOutcome.SUCCESS) {
+      tags.push(DESTRUCTIVE_TAG);
+    }
+    return tags;
+  }
+
+  /**
+   * Every validation message listed in the test data's validation.errorMessages
+   */
+  static validationMessages(errorMessages: Record<string, Record<string, string>>): string[] {
+    return Object.values(errorMessages).flatMap(field => Object.values(field));
+  }
+
+  static classify(submission: ScenarioSubmission, validationMessages: string[]): ExpectedOutcome {
+    if (submission.outcome === 'confirmed') {
+      return ExpectedOutcome.SUCCESS;
+    }
+    if (submission.responseStatus === undefined || submission.responseStatus >= 500) {
+      return ExpectedOutcome.SYSTEM_ERROR;
+    }
+    const shown = submission.validationMessages;
+    const onlyValidation = shown.length > 0 && shown.every(text => validationMessages.some(message => text.includes(message)));
+    return onlyValidation ? ExpectedOutcome.VALIDATION_ERROR : ExpectedOutcome.BUSINESS_ERROR;
+  }
+
+  private static parseList<T extends string>(variable: string, value: string | undefined, allowed: T[]): T[] {
+    const values = (value ?? '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+    const unknown = values.filter(entry => !allowed.includes(entry as T));
+    if (unknown.length > 0) {
+      throw new ConfigurationError(variable, `has unknown value(s) ${unknown.join(', ')} (one of ${allowed.join(', ')})`);
+    }
+    return values as T[];
+  }
+}
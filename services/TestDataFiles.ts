@@ -0,0 +1,349 @@
+/**
+ * Test Data Files - Loads and merges the test data directory
+ *
+ * Every .json, .yaml/.yml and .csv file directly inside the data directory
+ * is merged in file-name order:
+ * - JSON and YAML files hold one or more top-level sections
+ * - CSV files fill the section named after the file (e.g. invalidUsers.csv);
+ *   the `key` column names each entry and dotted headers (address.city) nest values
+ *
+ * Files in overlays/<environment>/ are merged last for the environment
+ * selected by TEST_DATA_ENV. Objects merge key by key; any other value,
+ * including an array, replaces what was there. The file that supplied each
+ * value is recorded so a surprising value can be traced back to its file.
+ *
+ * loadSync reads the same files for code that cannot await, such as specs
+ * that declare one test per data entry.
+ */
+
+import { Dirent, promises as fs, readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { TestConfig } from '../config/TestConfig';
+import { TestDataFileError } from '../utils/CustomErrors';
+import { childPath } from './TestDataSchema';
+
+type DataObject = Record<string, unknown>;
+
+const DATA_FILE_EXTENSIONS = ['.json', '.yaml', '.yml', '.csv'];
+const OVERLAY_DIRECTORY = 'overlays';
+const CSV_KEY_COLUMN = 'key';
+
+function isPlainObject(value: unknown): value is DataObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parentPath(valuePath: string): string {
+  const parent = valuePath.replace(/(\.[^.[]+|\[[^\]]*\])$/, '');
+  return parent === valuePath ? '' : parent;
+}
+
+function displayName(file: string): string {
+  return path.relative(process.cwd(), file) || file;
+}
+
+/**
+ * Merged test data together with the file each value came from
+ */
+export class LoadedTestData {
+  constructor(
+    public readonly data: DataObject,
+    public readonly files: string[],
+    private readonly sources: Map<string, string>
+  ) {}
+
+  /**
+   * File that supplied the value at a path such as users.validUser.email
+   * Paths inside an array report the file that supplied the whole array
+   */
+  sourceOf(valuePath: string): string | undefined {
+    for (let current = valuePath; current; current = parentPath(current)) {
+      const source = this.sources.get(current);
+      if (source) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Every value path under a prefix (e.g. "users.validUser") with its file
+   */
+  sourcesUnder(prefix = ''): Record<string, string> {
+    return Object.fromEntries(
+      [...this.sources].filter(([valuePath]) =>
+        !prefix || valuePath === prefix || valuePath.startsWith(`${prefix}.`) || valuePath.startsWith(`${prefix}[`)
+      )
+    );
+  }
+
+  /**
+   * Append the originating file to a "path: problem" message
+   */
+  annotate(problem: string): string {
+    const source = this.sourceOf(problem.slice(0, problem.indexOf(': ')));
+    return source ? `${problem} (${source})` : problem;
+  }
+}
+
+export class TestDataFiles {
+
+  /**
+   * Load the data directory, plus the overlay for an environment when one is given
+   */
+  static async load(
+    directory: string = TestConfig.TEST_DATA_DIR,
+    environment: string = TestConfig.TEST_DATA_ENV
+  ): Promise<LoadedTestData> {
+    const files = this.requireFiles(directory, await this.listDataFiles(directory));
+    if (environment) {
+      this.requireEnvironment(directory, environment, await this.listEnvironments(directory));
+      files.push(...await this.listDataFiles(this.overlayDirectory(directory, environment)));
+    }
+    return this.loadFiles(files);
+  }
+
+  /**
+   * Synchronous load, for declaring tests from the data at collection time
+   */
+  static loadSync(
+    directory: string = TestConfig.TEST_DATA_DIR,
+    environment: string = TestConfig.TEST_DATA_ENV
+  ): LoadedTestData {
+    const files = this.requireFiles(directory, this.listDataFilesSync(directory));
+    if (environment) {
+      this.requireEnvironment(directory, environment, this.environmentsIn(this.readDirectorySync(path.join(directory, OVERLAY_DIRECTORY)) ?? []));
+      files.push(...this.listDataFilesSync(this.overlayDirectory(directory, environment)));
+    }
+    return this.combine(files, files.map(file => this.parseText(file, () => readFileSync(file, 'utf8'))));
+  }
+
+  /**
+   * Merge specific files in the order given
+   */
+  static async loadFiles(files: string[]): Promise<LoadedTestData> {
+    const contents: DataObject[] = [];
+    for (const file of files) {
+      contents.push(await this.parseFile(file));
+    }
+    return this.combine(files, contents);
+  }
+
+  /**
+   * Environments that have an overlay directory
+   */
+  static async listEnvironments(directory: string = TestConfig.TEST_DATA_DIR): Promise<string[]> {
+    const entries = await fs.readdir(path.join(directory, OVERLAY_DIRECTORY), { withFileTypes: true }).catch(() => []);
+    return this.environmentsIn(entries);
+  }
+
+  /**
+   * Parse one data file into top-level sections
+   */
+  static async parseFile(file: string): Promise<DataObject> {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      throw new TestDataFileError(displayName(file), `could not be parsed: ${(error as Error).message}`);
+    }
+    return this.parseText(file, () => text);
+  }
+
+  /**
+   * Turn CSV rows into entries keyed by the `key` column
+   * Cells are kept as strings, so an empty cell is an empty value
+   */
+  static parseCsv(text: string): Record<string, DataObject> {
+    const [header, ...rows] = this.splitCsv(text);
+    if (!header || !header.includes(CSV_KEY_COLUMN)) {
+      throw new Error(`the header row must include a "${CSV_KEY_COLUMN}" column`);
+    }
+
+    const entries: Record<string, DataObject> = {};
+    rows.forEach((row, index) => {
+      if (row.length !== header.length) {
+        throw new Error(`row ${index + 1} has ${row.length} cells, expected ${header.length}`);
+      }
+      const entry: DataObject = {};
+      let key = '';
+      header.forEach((column, columnIndex) => {
+        if (column === CSV_KEY_COLUMN) {
+          key = row[columnIndex];
+        } else {
+          this.setNested(entry, column.split('.'), row[columnIndex]);
+        }
+      });
+      if (!key || entries[key]) {
+        throw new Error(`row ${index + 1} needs a unique, non-empty ${CSV_KEY_COLUMN}`);
+      }
+      entries[key] = entry;
+    });
+    return entries;
+  }
+
+  private static async listDataFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => {
+      throw new TestDataFileError(displayName(directory), 'is not a readable directory');
+    });
+    return this.dataFilesIn(directory, entries);
+  }
+
+  private static listDataFilesSync(directory: string): string[] {
+    const entries = this.readDirectorySync(directory);
+    if (!entries) {
+      throw new TestDataFileError(displayName(directory), 'is not a readable directory');
+    }
+    return this.dataFilesIn(directory, entries);
+  }
+
+  private static readDirectorySync(directory: string): Dirent[] | undefined {
+    try {
+      return readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Shared by load and loadSync, which differ only in how they read
+
+  private static dataFilesIn(directory: string, entries: Dirent[]): string[] {
+    return entries
+      .filter(entry => entry.isFile() && DATA_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map(entry => path.join(directory, entry.name))
+      .sort();
+  }
+
+  private static environmentsIn(entries: Dirent[]): string[] {
+    return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  }
+
+  private static overlayDirectory(directory: string, environment: string): string {
+    return path.join(directory, OVERLAY_DIRECTORY, environment);
+  }
+
+  private static requireFiles(directory: string, files: string[]): string[] {
+    if (files.length === 0) {
+      throw new TestDataFileError(displayName(directory), `contains no ${DATA_FILE_EXTENSIONS.join(', ')} files`);
+    }
+    return files;
+  }
+
+  private static requireEnvironment(directory: string, environment: string, overlays: string[]): void {
+    if (!overlays.includes(environment)) {
+      throw new TestDataFileError(
+        displayName(this.overlayDirectory(directory, environment)),
+        `does not exist; available overlays: ${overlays.join(', ') || 'none'}`
+      );
+    }
+  }
+
+  /**
+   * Merge parsed files, contents[i] being the content of files[i]
+   */
+  private static combine(files: string[], contents: DataObject[]): LoadedTestData {
+    const data: DataObject = {};
+    const sources = new Map<string, string>();
+    files.forEach((file, index) => this.merge(data, contents[index], '', displayName(file), sources));
+    return new LoadedTestData(data, files.map(displayName), sources);
+  }
+
+  private static parseText(file: string, read: () => string): DataObject {
+    const extension = path.extname(file).toLowerCase();
+    let content: unknown;
+
+    try {
+      const text = read();
+      if (extension === '.csv') {
+        return { [path.basename(file, extension)]: this.parseCsv(text) };
+      }
+      content = extension === '.json' ? JSON.parse(text) : parseYaml(text) ?? {};
+    } catch (error) {
+      throw new TestDataFileError(displayName(file), `could not be parsed: ${(error as Error).message}`);
+    }
+
+    if (!isPlainObject(content)) {
+      throw new TestDataFileError(displayName(file), 'must contain an object of test data sections');
+    }
+    return content;
+  }
+
+  private static merge(target: DataObject, source: DataObject, parent: string, file: string, sources: Map<string, string>): void {
+    for (const [key, value] of Object.entries(source)) {
+      const valuePath = childPath(parent, key);
+
+      if (isPlainObject(value)) {
+        if (!isPlainObject(target[key])) {
+          target[key] = {};
+          sources.delete(valuePath);
+        }
+        this.merge(target[key] as DataObject, value, valuePath, file, sources);
+      } else {
+        for (const recorded of [...sources.keys()]) {
+          if (recorded.startsWith(`${valuePath}.`) || recorded.startsWith(`${valuePath}[`)) {
+            sources.delete(recorded);
+          }
+        }
+        target[key] = value;
+        sources.set(valuePath, file);
+      }
+    }
+  }
+
+  private static setNested(target: DataObject, keys: string[], value: string): void {
+    const [key, ...rest] = keys;
+    if (rest.length === 0) {
+      target[key] = value;
+      return;
+    }
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    this.setNested(target[key] as DataObject, rest, value);
+  }
+
+  /**
+   * Minimal RFC 4180 reader: quoted cells may contain commas, quotes ("") and line breaks
+   */
+  private static splitCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+  }
+}
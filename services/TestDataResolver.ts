@@ -0,0 +1,215 @@
+/**
+ * Test Data Resolver - Cross-reference hydration for external test data
+ *
+ * Sections of the test data refer to each other by key:
+ * - bookings.*.guestDetails      -> users (an invalidUsers key is reported)
+ * - bookings.*.roomType          -> rooms (matched on room type)
+ * - validation.testCases.formData -> invalidUsers
+ * - testScenarios.*.data         -> users / invalidUsers, bookings, rooms, validation test cases
+ *
+ * References may also be written inline as objects. Every dangling
+ * reference is collected and reported together in a TestDataReferenceError.
+ */
+
+import {
+  BookingData,
+  RoomData,
+  TestScenario,
+  TestScenarioData,
+  UserData,
+  ValidationTestCase
+} from '../data/TestDataModels';
+import { TestDataReferenceError } from '../utils/CustomErrors';
+import { ExternalTestData } from './DataLoaderService';
+
+export interface RawBookingData extends Omit<BookingData, 'guestDetails' | 'room'> {
+  guestDetails: string | UserData;
+}
+
+export interface RawValidationTestCase extends Omit<ValidationTestCase, 'formData'> {
+  formData: string | Partial<UserData>;
+}
+
+export interface RawTestScenario extends Omit<TestScenario, 'data'> {
+  data: {
+    user?: string | Partial<UserData>;
+    booking?: string | RawBookingData;
+    room?: string | RoomData;
+    validation?: string | RawValidationTestCase;
+  };
+}
+
+export interface RawTestData extends Omit<ExternalTestData, 'bookings' | 'validation' | 'testScenarios'> {
+  bookings: Record<string, RawBookingData>;
+  validation: Omit<ExternalTestData['validation'], 'testCases'> & {
+    testCases: RawValidationTestCase[];
+  };
+  testScenarios: Record<string, RawTestScenario>;
+}
+
+export class TestDataResolver {
+  private readonly problems: string[] = [];
+
+  private constructor(private readonly raw: RawTestData) {}
+
+  /**
+   * Replace every key reference with the object it points to
+   * Throws TestDataReferenceError listing all dangling references
+   */
+  static resolve(raw: RawTestData): ExternalTestData {
+    return new TestDataResolver(raw).resolveAll();
+  }
+
+  /**
+   * Look up the entry a test asks for by key
+   * Throws TestDataReferenceError when the section has no such entry
+   */
+  static entry<T>(section: Record<string, T>, key: string, sectionName: string): T {
+    if (!Object.prototype.hasOwnProperty.call(section, key)) {
+      throw new TestDataReferenceError([`${sectionName}: no ${sectionName} entry "${key}"`]);
+    }
+    return section[key];
+  }
+
+  private resolveAll(): ExternalTestData {
+    const bookings = this.mapRecord(this.raw.bookings, (booking, key) =>
+      this.resolveBooking(booking, `bookings.${key}`)
+    );
+    const testCases = this.raw.validation.testCases.map((testCase, index) =>
+      this.resolveTestCase(testCase, `validation.testCases[${index}]`)
+    );
+    const testScenarios = this.mapRecord(this.raw.testScenarios, (scenario, key) =>
+      this.resolveScenario(scenario, `testScenarios.${key}`, bookings, testCases)
+    );
+
+    if (this.problems.length > 0) {
+      throw new TestDataReferenceError(this.problems);
+    }
+
+    return {
+      ...this.raw,
+      bookings: this.resolved(bookings),
+      validation: { ...this.raw.validation, testCases },
+      testScenarios
+    };
+  }
+
+  /**
+   * Undefined when the guest is unresolved; the problem is recorded
+   */
+  private resolveBooking(booking: RawBookingData, path: string): BookingData | undefined {
+    const guestDetails = this.resolveGuest(booking.guestDetails, `${path}.guestDetails`);
+    if (!guestDetails) {
+      return undefined;
+    }
+    const resolved: BookingData = { ...booking, guestDetails };
+
+    if (booking.roomType !== undefined) {
+      const room = Object.values(this.raw.rooms).find(candidate => candidate.type === booking.roomType);
+      if (room) {
+        resolved.room = room;
+      } else {
+        this.problems.push(`${path}.roomType: no rooms entry has type "${booking.roomType}"`);
+      }
+    }
+    return resolved;
+  }
+
+  private resolveTestCase(testCase: RawValidationTestCase, path: string): ValidationTestCase {
+    const formData = typeof testCase.formData === 'string'
+      ? this.lookup(this.raw.invalidUsers, testCase.formData, 'invalidUsers', `${path}.formData`)
+      : testCase.formData;
+    return { ...testCase, formData: formData || {} };
+  }
+
+  private resolveScenario(
+    scenario: RawTestScenario,
+    path: string,
+    bookings: Record<string, BookingData | undefined>,
+    testCases: ValidationTestCase[]
+  ): TestScenario {
+    const { user, booking, room, validation } = scenario.data;
+    const data: TestScenarioData = {};
+
+    if (user !== undefined) {
+      data.user = this.resolveUser(user, `${path}.data.user`);
+    }
+    if (booking !== undefined) {
+      data.booking = typeof booking === 'string'
+        ? this.lookup(bookings, booking, 'bookings', `${path}.data.booking`)
+        : this.resolveBooking(booking, `${path}.data.booking`);
+    }
+    if (room !== undefined) {
+      data.room = typeof room === 'string'
+        ? this.lookup(this.raw.rooms, room, 'rooms', `${path}.data.room`)
+        : room;
+    }
+    if (validation !== undefined) {
+      data.validation = typeof validation === 'string'
+        ? this.findTestCase(validation, testCases, `${path}.data.validation`)
+        : this.resolveTestCase(validation, `${path}.data.validation`);
+    }
+
+    return { ...scenario, data };
+  }
+
+  /**
+   * A booking's guest must be a valid user, so only the users section is searched
+   */
+  private resolveGuest(reference: string | UserData, path: string): UserData | undefined {
+    if (typeof reference !== 'string') {
+      return reference;
+    }
+    if (!this.has(this.raw.users, reference) && this.has(this.raw.invalidUsers, reference)) {
+      this.problems.push(`${path}: "${reference}" is an invalidUsers entry, but a booking guest must come from users`);
+      return undefined;
+    }
+    return this.lookup(this.raw.users, reference, 'users', path);
+  }
+
+  /**
+   * Users may be referenced from either the valid or the invalid users section
+   */
+  private resolveUser(reference: string | Partial<UserData>, path: string): Partial<UserData> | undefined {
+    if (typeof reference !== 'string') {
+      return reference;
+    }
+    const users: Record<string, Partial<UserData>> = { ...this.raw.invalidUsers, ...this.raw.users };
+    return this.lookup(users, reference, 'users or invalidUsers', path);
+  }
+
+  /**
+   * A scenario's validation key names the invalidUsers entry its test case uses
+   */
+  private findTestCase(key: string, testCases: ValidationTestCase[], path: string): ValidationTestCase | undefined {
+    const index = this.raw.validation.testCases.findIndex(testCase => testCase.formData === key);
+    if (index < 0) {
+      this.problems.push(`${path}: no validation test case uses formData "${key}"`);
+      return undefined;
+    }
+    return testCases[index];
+  }
+
+  private lookup<T>(section: Record<string, T>, key: string, sectionName: string, path: string): T | undefined {
+    if (!this.has(section, key)) {
+      this.problems.push(`${path}: no ${sectionName} entry "${key}"`);
+      return undefined;
+    }
+    return section[key];
+  }
+
+  private has(section: Record<string, unknown>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(section, key);
+  }
+
+  /**
+   * Drop the entries that failed to resolve, once their problems have been reported
+   */
+  private resolved<T>(record: Record<string, T | undefined>): Record<string, T> {
+    return Object.fromEntries(Object.entries(record).filter((entry): entry is [string, T] => entry[1] !== undefined));
+  }
+
+  private mapRecord<T, R>(record: Record<string, T>, map: (value: T, key: string) => R): Record<string, R> {
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value, key)]));
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Test Data Schema - Runtime structure checks for external test data
+ *
+ * Describes every section of ExternalTestData as it is written on disk
+ * (i.e. before TestDataResolver replaces key references with objects).
+ * Validation walks the whole document and reports every problem with the
+ * JSON path it was found at, so one run shows everything that needs fixing.
+ */
+
+import {
+  ExpectedOutcome,
+  RoomType,
+  TestCategory,
+  TestPriority,
+  ValidationTestType
+} from '../data/TestDataModels';
+import { TestDataSchemaError } from '../utils/CustomErrors';
+import { RawTestData } from './TestDataResolver';
+
+/**
+ * A schema node checks a value and appends "path: problem" entries
+ */
+export type SchemaNode = (value: unknown, path: string, problems: string[]) => void;
+
+interface NumberRules {
+  integer?: boolean;
+  min?: number;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return describeType(value) === 'object';
+}
+
+const ROOT_PATH = '$';
+
+/**
+ * Paths match the ones TestDataResolver reports, e.g. bookings.standardBooking.roomType
+ */
+export function childPath(path: string, key: string): string {
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return `${path}[${JSON.stringify(key)}]`;
+  }
+  return path === ROOT_PATH || path === '' ? key : `${path}.${key}`;
+}
+
+/**
+ * Building blocks for schema nodes
+ */
+export const Schema = {
+  string(options: { allowEmpty?: boolean } = {}): SchemaNode {
+    return (value, path, problems) => {
+      if (typeof value !== 'string') {
+        problems.push(`${path}: expected string, got ${describeType(value)}`);
+      } else if (!options.allowEmpty && value.trim() === '') {
+        problems.push(`${path}: must not be empty`);
+      }
+    };
+  },
+
+  number(rules: NumberRules = {}): SchemaNode {
+    return (value, path, problems) => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        problems.push(`${path}: expected number, got ${describeType(value)}`);
+      } else if (rules.integer && !Number.isInteger(value)) {
+        problems.push(`${path}: expected a whole number, got ${value}`);
+      } else if (rules.min !== undefined && value < rules.min) {
+        problems.push(`${path}: must be at least ${rules.min}, got ${value}`);
+      }
+    };
+  },
+
+  boolean(): SchemaNode {
+    return (value, path, problems) => {
+      if (typeof value !== 'boolean') {
+        problems.push(`${path}: expected boolean, got ${describeType(value)}`);
+      }
+    };
+  },
+
+  enumOf(enumName: string, enumObject: Record<string, string>): SchemaNode {
+    const allowed = Object.values(enumObject);
+    return (value, path, problems) => {
+      if (typeof value !== 'string' || !allowed.includes(value)) {
+        const options = allowed.map(option => JSON.stringify(option)).join(', ');
+        problems.push(`${path}: expected ${enumName} (one of ${options}), got ${JSON.stringify(value)}`);
+      }
+    };
+  },
+
+  array(item: SchemaNode): SchemaNode {
+    return (value, path, problems) => {
+      if (!Array.isArray(value)) {
+        problems.push(`${path}: expected array, got ${describeType(value)}`);
+        return;
+      }
+      value.forEach((entry, index) => item(entry, `${path}[${index}]`, problems));
+    };
+  },
+
+  /**
+   * Object with a fixed set of properties; unknown properties are reported
+   * so that misspelt keys do not silently fall back to undefined
+   */
+  object(required: Record<string, SchemaNode>, optional: Record<string, SchemaNode> = {}): SchemaNode {
+    return (value, path, problems) => {
+      if (!isPlainObject(value)) {
+        problems.push(`${path}: expected object, got ${describeType(value)}`);
+        return;
+      }
+      for (const [key, node] of Object.entries(required)) {
+        if (value[key] === undefined) {
+          problems.push(`${childPath(path, key)}: missing required property`);
+        } else {
+          node(value[key], childPath(path, key), problems);
+        }
+      }
+      for (const [key, node] of Object.entries(optional)) {
+        if (value[key] !== undefined) {
+          node(value[key], childPath(path, key), problems);
+        }
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in required) && !(key in optional)) {
+          problems.push(`${childPath(path, key)}: unexpected property`);
+        }
+      }
+    };
+  },
+
+  /**
+   * Object keyed by free-form names; whether a referenced name exists is
+   * TestDataResolver's check, not the schema's
+   */
+  record(entry: SchemaNode): SchemaNode {
+    return (value, path, problems) => {
+      if (!isPlainObject(value)) {
+        problems.push(`${path}: expected object, got ${describeType(value)}`);
+        return;
+      }
+      for (const [key, child] of Object.entries(value)) {
+        entry(child, childPath(path, key), problems);
+      }
+    };
+  },
+
+  /**
+   * Either a key naming an entry in another section or the entry written inline
+   */
+  reference(inline: SchemaNode): SchemaNode {
+    const key = Schema.string();
+    return (value, path, problems) => (typeof value === 'string' ? key : inline)(value, path, problems);
+  }
+};
+
+const address = Schema.object({
+  street: Schema.string(),
+  city: Schema.string(),
+  country: Schema.string(),
+  postcode: Schema.string()
+});
+
+const userFields = {
+  firstname: Schema.string({ allowEmpty: true }),
+  lastname: Schema.string({ allowEmpty: true }),
+  email: Schema.string({ allowEmpty: true }),
+  phone: Schema.string({ allowEmpty: true })
+};
+
+const userExtras = {
+  title: Schema.string(),
+  address
+};
+
+const user = Schema.object(userFields, userExtras);
+
+// Invalid users deliberately break field rules, so any field may be left out
+const partialUser = Schema.object({}, { ...userFields, ...userExtras });
+
+const room = Schema.object({
+  type: Schema.enumOf('RoomType', RoomType),
+  price: Schema.number({ min: 0 }),
+  capacity: Schema.number({ integer: true, min: 1 }),
+  features: Schema.array(Schema.string()),
+  description: Schema.string()
+});
+
+const booking = Schema.object(
+  {
+    checkInDate: Schema.string(),
+    checkOutDate: Schema.string(),
+    numberOfNights: Schema.number({ integer: true, min: 1 }),
+    guestDetails: Schema.reference(user)
+  },
+  {
+    roomType: Schema.enumOf('RoomType', RoomType),
+    specialRequests: Schema.array(Schema.string())
+  }
+);
+
+const validationTestCase = Schema.object({
+  name: Schema.string(),
+  description: Schema.string(),
+  formData: Schema.reference(partialUser),
+  expectedErrors: Schema.array(Schema.string()),
+  testType: Schema.enumOf('ValidationTestType', ValidationTestType)
+});
+
+const testScenario = Schema.object({
+  id: Schema.string(),
+  name: Schema.string(),
+  description: Schema.string(),
+  category: Schema.enumOf('TestCategory', TestCategory),
+  priority: Schema.enumOf('TestPriority', TestPriority),
+  data: Schema.object({}, {
+    user: Schema.reference(partialUser),
+    booking: Schema.reference(booking),
+    room: Schema.reference(room),
+    validation: Schema.reference(validationTestCase)
+  }),
+  expectedOutcome: Schema.enumOf('ExpectedOutcome', ExpectedOutcome)
+});
+
+const messageFields = {
+  name: Schema.string({ allowEmpty: true }),
+  email: Schema.string({ allowEmpty: true }),
+  phone: Schema.string({ allowEmpty: true }),
+  subject: Schema.string({ allowEmpty: true }),
+  description: Schema.string({ allowEmpty: true })
+};
+
+const contactValidationCase = Schema.object({
+  description: Schema.string(),
+  fields: Schema.object({}, messageFields),
+  expectedErrors: Schema.array(Schema.string())
+});
+
+const amount = Schema.number({ min: 0 });
+
+export const TEST_DATA_SCHEMA: SchemaNode = Schema.object({
+  users: Schema.record(user),
+  invalidUsers: Schema.record(partialUser),
+  bookings: Schema.record(booking),
+  rooms: Schema.record(room),
+  pricing: Schema.object({
+    standardPricing: Schema.object({
+      cleaningFee: amount,
+      serviceFee: amount,
+      taxRate: amount
+    }),
+    singleRoomTotal: amount,
+    doubleRoomTotal: amount,
+    suiteTotal: amount
+  }),
+  dates: Schema.record(Schema.object({
+    checkIn: Schema.string(),
+    checkOut: Schema.string(),
+    expectedRange: Schema.string()
+  })),
+  validation: Schema.object({
+    errorMessages: Schema.record(Schema.record(Schema.string())),
+    testCases: Schema.array(validationTestCase)
+  }),
+  testScenarios: Schema.record(testScenario),
+  contactMessages: Schema.object({
+    validMessage: Schema.object(messageFields),
+    invalidMessages: Schema.record(contactValidationCase)
+  }),
+  environments: Schema.record(Schema.object({
+    baseUrl: Schema.string(),
+    timeout: Schema.number({ integer: true, min: 0 }),
+    retries: Schema.number({ integer: true, min: 0 })
+  }, {
+    protected: Schema.boolean()
+  }))
+});
+
+export class TestDataSchema {
+
+  /**
+   * Return every schema problem in the document, in document order
+   */
+  static validate(data: unknown): string[] {
+    const problems: string[] = [];
+    TEST_DATA_SCHEMA(data, ROOT_PATH, problems);
+    return problems;
+  }
+
+  /**
+   * Throw a TestDataSchemaError listing every problem unless the document matches
+   */
+  static assertValid(data: unknown, source?: string): asserts data is RawTestData {
+    const problems = this.validate(data);
+    if (problems.length > 0) {
+      throw new TestDataSchemaError(problems, source);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Validation Matrix - One booking form validation test per data entry
+ *
+ * Every validation.testCases entry and every invalidUsers entry becomes an
+ * entry with a title, a tag for its ValidationTestType and the messages
+ * ValidationService predicts for its form data. A test case's own
+ * expectedErrors are cross-checked against that prediction so the data file
+ * and the service cannot drift apart unnoticed. invalidUsers entries carry
+ * no test type; it follows from how many fields the service rejects.
+ */
+
+import { UserData, ValidationTestCase, ValidationTestType } from '../data/TestDataModels';
+import { ValidationMatrixMismatchError } from '../utils/CustomErrors';
+import type { ExternalTestData } from './DataLoaderService';
+import { ValidationService } from './ValidationService';
+
+export interface ValidationMatrixEntry {
+  title: string;
+  // Path of the entry in the test data, e.g. invalidUsers.shortPhone
+  source: string;
+  testType: ValidationTestType;
+  tags: string[];
+  formData: Partial<UserData>;
+  // Messages predicted by ValidationService, in form field order
+  expectedErrors: string[];
+  // Disagreements between the data file and the prediction
+  mismatches: string[];
+  // Open parity findings: known disagreements waiting for a live parity run
+  findings: string[];
+}
+
+export type ValidationMatrixData = Pick<ExternalTestData, 'invalidUsers' | 'validation'>;
+
+const BOOKING_FIELDS = ['firstname', 'lastname', 'email', 'phone'] as const;
+
+/**
+ * Messages ValidationService predicts for a test case that its expectedErrors,
+ * as recorded from the site, leave out. Only a live run of
+ * `npm run validation:parity` can say which side is right; until then they
+ * are reported as findings instead of mismatches. Fix the wrong side and
+ * remove the entry once that run has settled it.
+ */
+const OPEN_PARITY_FINDINGS: Record<string, string[]> = {
+  // ValidationService also applies the lastname size rule to an empty lastname
+  'All Fields Empty Validation': ['size must be between 3 and 30']
+};
+
+export class ValidationMatrix {
+
+  /**
+   * Test cases first, in data file order, then invalid guests by key
+   */
+  static build(data: ValidationMatrixData): ValidationMatrixEntry[] {
+    return [
+      ...data.validation.testCases.map((testCase, index) => this.fromTestCase(testCase, `validation.testCases[${index}]`)),
+      ...Object.entries(data.invalidUsers).map(([key, formData]) => this.fromInvalidUser(key, formData))
+    ];
+  }
+
+  /**
+   * Messages the data file declares but the service does not predict, and vice versa
+   */
+  static crossCheck(declared: string[], predicted: string[]): string[] {
+    return [
+      ...declared
+        .filter(message => !predicted.includes(message))
+        .map(message => `expectedErrors lists "${message}", which ValidationService does not predict`),
+      ...predicted
+        .filter(message => !declared.includes(message))
+        .map(message => `ValidationService predicts "${message}", which expectedErrors does not list`)
+    ];
+  }
+
+  /**
+   * Throw when the data file and ValidationService disagree about an entry
+   */
+  static verifyConsistent(entry: ValidationMatrixEntry): void {
+    if (entry.mismatches.length > 0) {
+      throw new ValidationMatrixMismatchError(entry.source, entry.mismatches);
+    }
+  }
+
+  private static fromTestCase(testCase: ValidationTestCase, source: string): ValidationMatrixEntry {
+    const expectedErrors = ValidationService.validateCompleteForm(testCase.formData).allErrors;
+    const unconfirmed = (OPEN_PARITY_FINDINGS[testCase.name] ?? []).filter(message => !testCase.expectedErrors.includes(message));
+    return {
+      title: testCase.name,
+      source,
+      testType: testCase.testType,
+      tags: [`@${testCase.testType}`],
+      formData: testCase.formData,
+      expectedErrors,
+      mismatches: this.crossCheck([...testCase.expectedErrors, ...unconfirmed], expectedErrors),
+      findings: unconfirmed.map(message => `ValidationService predicts "${message}", which the messages recorded from the site do not list (open parity finding)`)
+    };
+  }
+
+  private static fromInvalidUser(key: string, formData: Partial<UserData>): ValidationMatrixEntry {
+    const summary = ValidationService.validateCompleteForm(formData);
+    const rejectedFields = summary.results.filter(result => result.hasErrors).length;
+    const testType = BOOKING_FIELDS.every(field => !formData[field])
+      ? ValidationTestType.COMPLETE_FORM
+      : rejectedFields === 1 ? ValidationTestType.SINGLE_FIELD : ValidationTestType.MULTIPLE_FIELDS;
+
+    return {
+      title: `should reject invalid guest ${key}`,
+      source: `invalidUsers.${key}`,
+      testType,
+      tags: [`@${testType}`],
+      formData,
+      expectedErrors: summary.allErrors,
+      mismatches: summary.isValid ? ['ValidationService accepts this guest, so it cannot be used as an invalid one'] : [],
+      findings: []
+    };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Validation Parity - Checks ValidationService against the messages the application really returns
+ *
+ * Every booking form rule the service encodes is probed at its boundaries
+ * (blank, one below and at the minimum, at and one above the maximum, bad
+ * formats) through the booking API. Each probe changes one field of a
+ * valid guest and books a stay that ends before it starts, so no probe can
+ * create a booking; a valid guest sent the same way tells which messages
+ * are about the dates, and those are left out.
+ *
+ * The report diffs each probe's predicted messages with the returned ones,
+ * and TestData.ValidationMessages with the messages the application used.
+ */
+
+import { ApiClient } from './ApiClient';
+import { ValidationService } from './ValidationService';
+import { UserData } from '../data/TestDataModels';
+import { ApiRequestError, TestError } from '../utils/CustomErrors';
+
+export interface BoundaryProbe {
+  // Rule being probed, e.g. lastname.size
+  rule: string;
+  description: string;
+  guest: UserData;
+}
+
+export interface ProbeResult extends BoundaryProbe {
+  predicted: string[];
+  returned: string[];
+  // Predicted by ValidationService but not returned by the application
+  notEnforced: string[];
+  // Returned by the application but not predicted
+  notPredicted: string[];
+}
+
+export interface ValidationParityReport {
+  probes: ProbeResult[];
+  // TestData.ValidationMessages entries the application never returned
+  unusedListedMessages: string[];
+  // Messages the application returned that TestData.ValidationMessages does not list
+  unlistedMessages: string[];
+}
+
+// Size limits ValidationService applies to the booking form fields
+const SIZE_RULES = [
+  { field: 'firstname', min: 3, max: 18 },
+  { field: 'lastname', min: 3, max: 30 },
+  { field: 'phone', min: 11, max: 21 }
+] as const;
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+function ofLength(field: string, length: number): string {
+  if (field === 'phone') {
+    return '0'.padEnd(length, '7');
+  }
+  const text = LETTERS.repeat(2).slice(0, length);
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export class ValidationParity {
+
+  /**
+   * Probes for every rule, each changing one field of the valid guest
+   */
+  static boundaryProbes(validGuest: UserData): BoundaryProbe[] {
+    const probe = (rule: string, field: keyof UserData, value: string): BoundaryProbe => ({
+      rule,
+      description: `${field} ${value === '' ? 'empty' : JSON.stringify(value)}${value.trim() ? ` (${value.length} characters)` : ''}`,
+      guest: { ...validGuest, [field]: value }
+    });
+
+    return [
+      probe('firstname.blank', 'firstname', ''),
+      probe('firstname.blank', 'firstname', '   '),
+      probe('lastname.blank', 'lastname', ''),
+      probe('lastname.blank', 'lastname', '   '),
+      ...SIZE_RULES.flatMap(({ field, min, max }) => [min - 1, min, max, max + 1]
+        .map(length => probe(`${field}.size`, field, ofLength(field, length)))),
+      probe('phone.size', 'phone', ''),
+      probe('email.empty', 'email', ''),
+      probe('email.format', 'email', 'invalid-email'),
+      probe('email.format', 'email', 'guest@example'),
+      probe('email.format', 'email', 'guest@example.com')
+    ];
+  }
+
+  /**
+   * Send every boundary probe to the booking API and diff the returned messages with the predicted ones
+   */
+  static async probeApi(apiClient: ApiClient, roomId: number, validGuest: UserData, listedMessages: string[]): Promise<ValidationParityReport> {
+    const problems = ValidationService.validateCompleteForm(validGuest).allErrors;
+    if (problems.length > 0) {
+      throw new TestError(`The guest the probes start from must be valid, but ValidationService reports: ${problems.join('; ')}`);
+    }
+
+    const dateMessages = await this.submit(apiClient, roomId, validGuest);
+    const probes = this.boundaryProbes(validGuest);
+    const returned: string[][] = [];
+    for (const probe of probes) {
+      returned.push((await this.submit(apiClient, roomId, probe.guest)).filter(message => !dateMessages.includes(message)));
+    }
+    return this.compare(probes, returned, listedMessages);
+  }
+
+  /**
+   * Diff predicted and returned messages; returned[i] belongs to probes[i]
+   */
+  static compare(probes: BoundaryProbe[], returned: string[][], listedMessages: string[]): ValidationParityReport {
+    const results = probes.map((probe, index) => {
+      const predicted = ValidationService.validateCompleteForm(probe.guest).allErrors;
+      return {
+        ...probe,
+        predicted,
+        returned: returned[index],
+        notEnforced: predicted.filter(message => !returned[index].includes(message)),
+        notPredicted: returned[index].filter(message => !predicted.includes(message))
+      };
+    });
+    const used = new Set(returned.flat());
+    return {
+      probes: results,
+      unusedListedMessages: [...new Set(listedMessages)].filter(message => !used.has(message)),
+      unlistedMessages: [...used].filter(message => !listedMessages.includes(message))
+    };
+  }
+
+  /**
+   * The report as diff lines: "-" predicted but not enforced, "+" enforced but not predicted
+   */
+  static differences(report: ValidationParityReport): string[] {
+    const lines: string[] = [];
+    for (const probe of report.probes.filter(result => result.notEnforced.length > 0 || result.notPredicted.length > 0)) {
+      lines.push(`${probe.rule}, ${probe.description}:`);
+      probe.notEnforced.forEach(message => lines.push(`  - ${message}`));
+      probe.notPredicted.forEach(message => lines.push(`  + ${message}`));
+    }
+    if (report.unusedListedMessages.length > 0 || report.unlistedMessages.length > 0) {
+      lines.push('TestData.ValidationMessages:');
+      report.unusedListedMessages.forEach(message => lines.push(`  - ${message}`));
+      report.unlistedMessages.forEach(message => lines.push(`  + ${message}`));
+    }
+    return lines;
+  }
+
+  /**
+   * Messages returned for a guest booking a stay that ends the day before it starts
+   */
+  private static async submit(apiClient: ApiClient, roomId: number, guest: UserData): Promise<string[]> {
+    try {
+      await apiClient.createBooking(roomId, { checkInDate: '2030-06-02', checkOutDate: '2030-06-01', numberOfNights: 0, guestDetails: guest });
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status < 500) {
+        return error.errors;
+      }
+      throw error;
+    }
+    throw new TestError(`The booking API accepted a stay that ends before it starts for ${JSON.stringify(guest)}; stopping before more bookings are created`);
+  }
+}
@@ -1,3 +1,5 @@
+import { MessageData } from '../data/TestDataModels';
+
 /**
  * Validation service for form field validation
  * Centralizes validation logic and error message handling
@@ -82,6 +84,101 @@ export class ValidationService {
     return new ValidationSummary(results);
   }
 
+  /**
+   * Validate contact form name field requirements
+   */
+  static validateContactName(value: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!value || value.trim() === '') {
+      errors.push('Name may not be blank');
+    }
+
+    return new ValidationResult('name', errors);
+  }
+
+  /**
+   * Validate contact form email field requirements
+   */
+  static validateContactEmail(value: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!value || value.trim() === '') {
+      errors.push('Email may not be blank');
+    } else if (!this.isValidEmailFormat(value)) {
+      errors.push('must be a valid email address');
+    }
+
+    return new ValidationResult('email', errors);
+  }
+
+  /**
+   * Validate contact form phone field requirements
+   * Unlike the booking form, the size rule also applies to an empty phone
+   */
+  static validateContactPhone(value: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!value || value.trim() === '') {
+      errors.push('Phone may not be blank');
+    }
+
+    if (value.length < 11 || value.length > 21) {
+      errors.push('Phone must be between 11 and 21 characters.');
+    }
+
+    return new ValidationResult('phone', errors);
+  }
+
+  /**
+   * Validate contact form subject field requirements
+   */
+  static validateContactSubject(value: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!value || value.trim() === '') {
+      errors.push('Subject may not be blank');
+    }
+
+    if (value.length < 5 || value.length > 100) {
+      errors.push('Subject must be between 5 and 100 characters.');
+    }
+
+    return new ValidationResult('subject', errors);
+  }
+
+  /**
+   * Validate contact form message field requirements
+   */
+  static validateContactDescription(value: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!value || value.trim() === '') {
+      errors.push('Message may not be blank');
+    }
+
+    if (value.length < 20 || value.length > 2000) {
+      errors.push('Message must be between 20 and 2000 characters.');
+    }
+
+    return new ValidationResult('description', errors);
+  }
+
+  /**
+   * Validate complete contact form data
+   */
+  static validateContactForm(formData: ContactFormData): ValidationSummary {
+    const results: ValidationResult[] = [
+      this.validateContactName(formData.name || ''),
+      this.validateContactEmail(formData.email || ''),
+      this.validateContactPhone(formData.phone || ''),
+      this.validateContactSubject(formData.subject || ''),
+      this.validateContactDescription(formData.description || '')
+    ];
+
+    return new ValidationSummary(results);
+  }
+
   /**
    * Check if email format is valid
    */
@@ -138,3 +235,8 @@ export interface FormData {
   email?: string;
   phone?: string;
 }
+
+/**
+ * Contact form data interface
+ */
+export type ContactFormData = Partial<MessageData>;
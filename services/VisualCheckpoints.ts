@@ -0,0 +1,131 @@
+/**
+ * Visual Checkpoints - Screenshot comparison against reviewed baselines
+ *
+ * Baselines live in visual-baselines/<project>-<platform>/<name>.png (see
+ * snapshotPathTemplate in playwright.config.ts). Test runs never write
+ * them: a missing or different screenshot fails the checkpoint (a missing
+ * one is only annotated with VISUAL_ALLOW_MISSING_BASELINES=true), and both are
+ * recorded as a 'visual-checkpoint' attachment, which
+ * `npm run visual:review` lists and accepts into the baseline folder.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page, Locator, expect, test } from '@playwright/test';
+import type { JSONReport, JSONReportSuite } from '@playwright/test/reporter';
+import { TestConfig } from '../config/TestConfig';
+import { TestError, VisualBaselineMissingError } from '../utils/CustomErrors';
+
+export interface VisualCheckpointOptions {
+  // Compare only this element instead of the page
+  element?: Locator;
+  // Dynamic regions painted over before comparing, in addition to the page object's own
+  mask?: Locator[];
+  fullPage?: boolean;
+  // Per-pixel colour tolerance from 0 to 1
+  threshold?: number;
+  // Share of pixels allowed to differ from 0 to 1
+  maxDiffPixelRatio?: number;
+}
+
+export interface VisualCheckpointRecord {
+  name: string;
+  project: string;
+  status: 'new' | 'changed';
+  baseline: string;
+  actual: string;
+  diff?: string;
+}
+
+const CHECKPOINT_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export class VisualCheckpoints {
+  static readonly ATTACHMENT = 'visual-checkpoint';
+  static readonly MISSING_BASELINE_ANNOTATION = 'visual-baseline-missing';
+
+  /**
+   * Compare the page or element with its baseline for the running project
+   */
+  static async verify(page: Page, name: string, options: VisualCheckpointOptions = {}): Promise<void> {
+    if (!CHECKPOINT_NAME.test(name)) {
+      throw new TestError(`Visual checkpoint name "${name}" must be kebab-case, e.g. "booking-form-empty"`);
+    }
+    const testInfo = test.info();
+    const baseline = testInfo.snapshotPath(`${name}.png`, { kind: 'screenshot' });
+    const actual = testInfo.outputPath(`${name}-actual.png`);
+    const screenshotOptions = {
+      mask: options.mask ?? [],
+      fullPage: options.fullPage,
+      animations: 'disabled' as const,
+      caret: 'hide' as const
+    };
+
+    if (!fs.existsSync(baseline)) {
+      if (options.element) {
+        await options.element.screenshot({ ...screenshotOptions, path: actual });
+      } else {
+        await page.screenshot({ ...screenshotOptions, path: actual });
+      }
+      await this.record({ name, project: testInfo.project.name, status: 'new', baseline, actual });
+      const missing = new VisualBaselineMissingError(name, baseline);
+      if (!TestConfig.VISUAL_ALLOW_MISSING_BASELINES) {
+        throw missing;
+      }
+      testInfo.annotations.push({ type: this.MISSING_BASELINE_ANNOTATION, description: missing.message });
+      return;
+    }
+
+    const comparison = {
+      ...screenshotOptions,
+      threshold: options.threshold ?? TestConfig.VISUAL_THRESHOLD,
+      maxDiffPixelRatio: options.maxDiffPixelRatio ?? TestConfig.VISUAL_MAX_DIFF_RATIO
+    };
+    try {
+      if (options.element) {
+        await expect(options.element).toHaveScreenshot(`${name}.png`, comparison);
+      } else {
+        await expect(page).toHaveScreenshot(`${name}.png`, comparison);
+      }
+    } catch (error) {
+      await this.record({ name, project: testInfo.project.name, status: 'changed', baseline, actual, diff: testInfo.outputPath(`${name}-diff.png`) });
+      throw error;
+    }
+  }
+
+  /**
+   * Checkpoints recorded in a JSON report, latest result per project and name
+   */
+  static pending(report: JSONReport): VisualCheckpointRecord[] {
+    const records = new Map<string, VisualCheckpointRecord>();
+    const visit = (suite: JSONReportSuite) => {
+      for (const spec of suite.specs) {
+        for (const testResult of spec.tests.flatMap(entry => entry.results)) {
+          for (const attachment of testResult.attachments) {
+            if (attachment.name === this.ATTACHMENT && attachment.body) {
+              const record: VisualCheckpointRecord = JSON.parse(Buffer.from(attachment.body, 'base64').toString('utf-8'));
+              records.set(`${record.project}/${record.name}`, record);
+            }
+          }
+        }
+      }
+      (suite.suites ?? []).forEach(visit);
+    };
+    report.suites.forEach(visit);
+    return [...records.values()];
+  }
+
+  /**
+   * Copy the screenshot taken in the run over the baseline
+   */
+  static accept(record: VisualCheckpointRecord): void {
+    if (!fs.existsSync(record.actual)) {
+      throw new TestError(`No screenshot for ${record.project}/${record.name} at ${record.actual}; run the tests again`);
+    }
+    fs.mkdirSync(path.dirname(record.baseline), { recursive: true });
+    fs.copyFileSync(record.actual, record.baseline);
+  }
+
+  private static async record(record: VisualCheckpointRecord): Promise<void> {
+    await test.info().attach(this.ATTACHMENT, { body: JSON.stringify(record), contentType: 'application/json' });
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Booking Store - In-memory state for the stand-in application
+ *
+ * Holds rooms, bookings and contact messages for the lifetime of the
+ * server process. Seed data mirrors the rooms section of
+ * data/test-data.json so the stand-in offers the same inventory the
+ * tests expect, with room types named as the live site names them.
+ */
+
+import { RoomType } from '../data/TestDataModels';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+export interface StandInRoom {
+  roomid: number;
+  roomName: string;
+  // The name the live site uses, e.g. "Single"
+  type: string;
+  accessible: boolean;
+  capacity: number;
+  description: string;
+  features: string[];
+  roomPrice: number;
+}
+
+export type NewRoom = Omit<StandInRoom, 'roomid'>;
+
+export interface StandInBookingDates {
+  checkin: string;
+  checkout: string;
+}
+
+export interface StandInBooking {
+  bookingid: number;
+  roomid: number;
+  firstname: string;
+  lastname: string;
+  depositpaid: boolean;
+  email: string;
+  phone: string;
+  bookingdates: StandInBookingDates;
+}
+
+export type NewBooking = Omit<StandInBooking, 'bookingid'>;
+
+export interface StandInMessage {
+  messageid: number;
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  description: string;
+  read: boolean;
+}
+
+export type NewMessage = Omit<StandInMessage, 'messageid' | 'read'>;
+
+const SEED_ROOMS: StandInRoom[] = [
+  {
+    roomid: 1,
+    roomName: '101',
+    type: RoomTypeNames.nameOf(RoomType.SINGLE),
+    accessible: true,
+    capacity: 2,
+    description: 'Cozy single room perfect for solo travelers',
+    features: ['TV', 'WiFi', 'Safe'],
+    roomPrice: 100
+  },
+  {
+    roomid: 2,
+    roomName: '102',
+    type: RoomTypeNames.nameOf(RoomType.DOUBLE),
+    accessible: true,
+    capacity: 4,
+    description: 'Spacious double room for couples or friends',
+    features: ['TV', 'WiFi', 'Safe', 'Mini Bar'],
+    roomPrice: 150
+  },
+  {
+    roomid: 3,
+    roomName: '103',
+    type: RoomTypeNames.nameOf(RoomType.SUITE),
+    accessible: false,
+    capacity: 6,
+    description: 'Luxurious suite with premium amenities',
+    features: ['TV', 'WiFi', 'Safe', 'Mini Bar', 'Balcony', 'Jacuzzi'],
+    roomPrice: 250
+  }
+];
+
+export class BookingStore {
+  private rooms: StandInRoom[] = [];
+  private bookings: StandInBooking[] = [];
+  private messages: StandInMessage[] = [];
+  private nextRoomId = 1;
+  private nextBookingId = 1;
+  private nextMessageId = 1;
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Restore the seed rooms and drop every booking and message
+   */
+  reset(): void {
+    this.rooms = SEED_ROOMS.map(room => ({ ...room, features: [...room.features] }));
+    this.bookings = [];
+    this.messages = [];
+    this.nextRoomId = SEED_ROOMS.length + 1;
+    this.nextBookingId = 1;
+    this.nextMessageId = 1;
+  }
+
+  getRooms(): StandInRoom[] {
+    return this.rooms;
+  }
+
+  getRoom(roomId: number): StandInRoom | undefined {
+    return this.rooms.find(room => room.roomid === roomId);
+  }
+
+  addRoom(room: NewRoom): StandInRoom {
+    const stored: StandInRoom = { roomid: this.nextRoomId++, ...room, features: [...room.features] };
+    this.rooms.push(stored);
+    return stored;
+  }
+
+  /**
+   * Remove a room together with its bookings
+   */
+  deleteRoom(roomId: number): boolean {
+    const before = this.rooms.length;
+    this.rooms = this.rooms.filter(room => room.roomid !== roomId);
+    this.bookings = this.bookings.filter(booking => booking.roomid !== roomId);
+    return this.rooms.length < before;
+  }
+
+  getBookings(): StandInBooking[] {
+    return this.bookings;
+  }
+
+  getBooking(bookingId: number): StandInBooking | undefined {
+    return this.bookings.find(booking => booking.bookingid === bookingId);
+  }
+
+  getBookingsForRoom(roomId: number): StandInBooking[] {
+    return this.bookings.filter(booking => booking.roomid === roomId);
+  }
+
+  /**
+   * Check whether a date range overlaps an existing booking for the room
+   * Check-out dates are exclusive, so back-to-back stays do not clash
+   */
+  isRoomAvailable(roomId: number, dates: StandInBookingDates): boolean {
+    return this.getBookingsForRoom(roomId).every(booking =>
+      dates.checkout <= booking.bookingdates.checkin || dates.checkin >= booking.bookingdates.checkout
+    );
+  }
+
+  /**
+   * Get rooms with no booking overlapping the given dates
+   */
+  getAvailableRooms(dates: StandInBookingDates): StandInRoom[] {
+    return this.rooms.filter(room => this.isRoomAvailable(room.roomid, dates));
+  }
+
+  addBooking(booking: NewBooking): StandInBooking {
+    const stored: StandInBooking = { bookingid: this.nextBookingId++, ...booking };
+    this.bookings.push(stored);
+    return stored;
+  }
+
+  deleteBooking(bookingId: number): boolean {
+    const before = this.bookings.length;
+    this.bookings = this.bookings.filter(booking => booking.bookingid !== bookingId);
+    return this.bookings.length < before;
+  }
+
+  getMessages(): StandInMessage[] {
+    return this.messages;
+  }
+
+  getMessage(messageId: number): StandInMessage | undefined {
+    return this.messages.find(message => message.messageid === messageId);
+  }
+
+  addMessage(message: NewMessage): StandInMessage {
+    const stored: StandInMessage = { messageid: this.nextMessageId++, ...message, read: false };
+    this.messages.push(stored);
+    return stored;
+  }
+
+  markMessageRead(messageId: number): boolean {
+    const message = this.getMessage(messageId);
+    if (message) {
+      message.read = true;
+    }
+    return message !== undefined;
+  }
+
+  deleteMessage(messageId: number): boolean {
+    const before = this.messages.length;
+    this.messages = this.messages.filter(message => message.messageid !== messageId);
+    return this.messages.length < before;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Booking Validator - Server-side rules of the stand-in application
+ *
+ * Mirrors the bean validation annotations of the real booking API,
+ * including its message texts and field order. As in ValidationService,
+ * the phone size rule only applies once a phone is entered.
+ */
+
+import { NewBooking } from './BookingStore';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class BookingValidator {
+
+  /**
+   * Validate a booking request body, returning every violated rule
+   */
+  static validate(body: Partial<NewBooking>): string[] {
+    const errors: string[] = [];
+    const firstname = body.firstname ?? '';
+    const lastname = body.lastname ?? '';
+    const email = body.email ?? '';
+    const phone = body.phone ?? '';
+
+    if (firstname.trim() === '') {
+      errors.push('Firstname should not be blank');
+    }
+    if (firstname.length < 3 || firstname.length > 18) {
+      errors.push('size must be between 3 and 18');
+    }
+
+    if (lastname.trim() === '') {
+      errors.push('Lastname should not be blank');
+    }
+    if (lastname.length < 3 || lastname.length > 30) {
+      errors.push('size must be between 3 and 30');
+    }
+
+    if (email === '') {
+      errors.push('must not be empty');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push('must be a valid email address');
+    }
+
+    if (phone !== '' && (phone.length < 11 || phone.length > 21)) {
+      errors.push('size must be between 11 and 21');
+    }
+
+    errors.push(...this.validateDates(body));
+    return errors;
+  }
+
+  private static validateDates(body: Partial<NewBooking>): string[] {
+    const dates = body.bookingdates;
+    if (!dates || !ISO_DATE_PATTERN.test(dates.checkin ?? '') || !ISO_DATE_PATTERN.test(dates.checkout ?? '')) {
+      return ['Booking dates must be provided in YYYY-MM-DD format'];
+    }
+    if (dates.checkout <= dates.checkin) {
+      return ['Check-out date must be after check-in date'];
+    }
+    return [];
+  }
+}
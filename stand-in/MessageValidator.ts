@@ -0,0 +1,58 @@
+/**
+ * Message Validator - Server-side rules for contact form messages
+ *
+ * Mirrors the bean validation annotations of the real message API,
+ * including its message texts and field order.
+ */
+
+import { NewMessage } from './BookingStore';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class MessageValidator {
+
+  /**
+   * Validate a message request body, returning every violated rule
+   */
+  static validate(body: Partial<NewMessage>): string[] {
+    const errors: string[] = [];
+    const name = body.name ?? '';
+    const email = body.email ?? '';
+    const phone = body.phone ?? '';
+    const subject = body.subject ?? '';
+    const description = body.description ?? '';
+
+    if (name.trim() === '') {
+      errors.push('Name may not be blank');
+    }
+
+    if (email.trim() === '') {
+      errors.push('Email may not be blank');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push('must be a valid email address');
+    }
+
+    if (phone.trim() === '') {
+      errors.push('Phone may not be blank');
+    }
+    if (phone.length < 11 || phone.length > 21) {
+      errors.push('Phone must be between 11 and 21 characters.');
+    }
+
+    if (subject.trim() === '') {
+      errors.push('Subject may not be blank');
+    }
+    if (subject.length < 5 || subject.length > 100) {
+      errors.push('Subject must be between 5 and 100 characters.');
+    }
+
+    if (description.trim() === '') {
+      errors.push('Message may not be blank');
+    }
+    if (description.length < 20 || description.length > 2000) {
+      errors.push('Message must be between 20 and 2000 characters.');
+    }
+
+    return errors;
+  }
+}
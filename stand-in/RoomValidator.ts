@@ -0,0 +1,43 @@
+/**
+ * Room Validator - Server-side rules for rooms created in the admin panel
+ *
+ * Follows the real room API: a room name is required, the type must be
+ * one of the offered room types and the nightly price is 1-999.
+ */
+
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+import { NewRoom } from './BookingStore';
+
+const ROOM_TYPES = RoomTypeNames.names();
+
+export class RoomValidator {
+
+  /**
+   * Validate a room request body, returning every violated rule
+   */
+  static validate(body: Partial<NewRoom>): string[] {
+    const errors: string[] = [];
+    const roomName = body.roomName ?? '';
+    const roomPrice = Number(body.roomPrice);
+
+    if (String(roomName).trim() === '') {
+      errors.push('Room name must be set');
+    }
+
+    if (!ROOM_TYPES.includes(body.type as string)) {
+      errors.push(`Type can only contain the room options ${ROOM_TYPES.join(', ')}`);
+    }
+
+    if (!Number.isFinite(roomPrice) || roomPrice < 1) {
+      errors.push('must be greater than or equal to 1');
+    } else if (roomPrice > 999) {
+      errors.push('must be less than or equal to 999');
+    }
+
+    if (body.features !== undefined && !Array.isArray(body.features)) {
+      errors.push('Features must be a list');
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Stand-in Application - Local fake of the hotel booking platform
+ *
+ * Serves the guest pages, the admin panel and the room, booking, auth and
+ * message REST endpoints so the suite can run without
+ * automationintesting.online.
+ * Built on node:http only, so it starts anywhere the tests can run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse, createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { TestConfig } from '../config/TestConfig';
+import { BookingStore, NewBooking, NewMessage, NewRoom } from './BookingStore';
+import { BookingValidator } from './BookingValidator';
+import { MessageValidator } from './MessageValidator';
+import { RoomValidator } from './RoomValidator';
+import { renderHomePage, renderReservationPage, renderNotFoundPage } from './views';
+import { renderAdminLoginPage, renderAdminMessagesPage, renderAdminRoomPage, renderAdminRoomsPage } from './adminViews';
+
+type RouteHandler = (request: StandInRequest, response: ServerResponse) => void;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+export interface RunningStandIn {
+  url: string;
+  store: BookingStore;
+  close(): Promise<void>;
+}
+
+export interface StandInRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  headers: IncomingMessage['headers'];
+}
+
+const PUBLIC_DIR = path.join(__dirname, 'public');
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8'
+};
+
+export class StandInApp {
+  private readonly routes: Route[] = [];
+  private readonly tokens = new Set<string>();
+  private readonly adminUsername = TestConfig.STAND_IN_ADMIN_USERNAME;
+  private readonly adminPassword = TestConfig.STAND_IN_ADMIN_PASSWORD;
+
+  constructor(
+    private readonly store: BookingStore = new BookingStore(),
+    private readonly today: () => string = () => process.env.STAND_IN_TODAY || new Date().toISOString().slice(0, 10)
+  ) {
+    this.registerPageRoutes();
+    this.registerAdminPageRoutes();
+    this.registerApiRoutes();
+  }
+
+  /**
+   * Create an HTTP server bound to this application
+   */
+  createServer(): Server {
+    return createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.sendJson(response, 500, { errors: [`Stand-in failure: ${error}`] });
+      });
+    });
+  }
+
+  /**
+   * Start the application on a port (0 picks a free one) for use inside a test run
+   */
+  async start(port: number = 0): Promise<RunningStandIn> {
+    const server = this.createServer();
+    await new Promise<void>(resolve => server.listen(port, resolve));
+    const { port: boundPort } = server.address() as AddressInfo;
+    return {
+      url: `http://localhost:${boundPort}/`,
+      store: this.store,
+      close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const method = request.method || 'GET';
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+      if (match) {
+        const body = await this.readBody(request);
+        if (body === undefined) {
+          this.sendJson(response, 400, { errors: ['Request body is not valid JSON'] });
+          return;
+        }
+        route.handler({ params: match.slice(1), query: url.searchParams, body, headers: request.headers }, response);
+        return;
+      }
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+      this.sendJson(response, 404, { errors: [`No endpoint for ${method} ${url.pathname}`] });
+    } else {
+      this.sendHtml(response, 404, renderNotFoundPage());
+    }
+  }
+
+  private route(method: string, pattern: RegExp, handler: RouteHandler): void {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private registerPageRoutes(): void {
+    this.route('GET', /^\/$/, (_request, response) => {
+      this.sendHtml(response, 200, renderHomePage(this.store.getRooms()));
+    });
+
+    this.route('GET', /^\/reservation\/(\d+)$/, (request, response) => {
+      const room = this.store.getRoom(Number(request.params[0]));
+      if (!room) {
+        this.sendHtml(response, 404, renderNotFoundPage());
+        return;
+      }
+      this.sendHtml(response, 200, renderReservationPage(room, this.today()));
+    });
+
+    this.route('GET', /^\/assets\/([\w.-]+)$/, (request, response) => {
+      const file = path.join(PUBLIC_DIR, request.params[0]);
+      if (!fs.existsSync(file)) {
+        this.sendJson(response, 404, { errors: ['Asset not found'] });
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'text/plain' });
+      response.end(fs.readFileSync(file));
+    });
+  }
+
+  /**
+   * Admin pages redirect to the login page until the session cookie is valid
+   */
+  private registerAdminPageRoutes(): void {
+    this.route('GET', /^\/admin\/?$/, (request, response) => {
+      if (this.isAuthenticated(request)) {
+        this.redirect(response, '/admin/rooms');
+        return;
+      }
+      this.sendHtml(response, 200, renderAdminLoginPage());
+    });
+
+    this.route('GET', /^\/admin\/rooms$/, (request, response) => {
+      if (!this.requireAdminPage(request, response)) return;
+      this.sendHtml(response, 200, renderAdminRoomsPage(this.store.getRooms(), this.countUnreadMessages()));
+    });
+
+    this.route('GET', /^\/admin\/room\/(\d+)$/, (request, response) => {
+      if (!this.requireAdminPage(request, response)) return;
+      const room = this.store.getRoom(Number(request.params[0]));
+      if (!room) {
+        this.sendHtml(response, 404, renderNotFoundPage());
+        return;
+      }
+      this.sendHtml(response, 200, renderAdminRoomPage(room, this.store.getBookingsForRoom(room.roomid), this.countUnreadMessages()));
+    });
+
+    this.route('GET', /^\/admin\/message$/, (request, response) => {
+      if (!this.requireAdminPage(request, response)) return;
+      this.sendHtml(response, 200, renderAdminMessagesPage(this.store.getMessages()));
+    });
+  }
+
+  private registerApiRoutes(): void {
+    this.registerRoomRoutes();
+    this.registerBookingRoutes();
+    this.registerAuthRoutes();
+    this.registerMessageRoutes();
+  }
+
+  private registerRoomRoutes(): void {
+    this.route('GET', /^\/api\/room$/, (request, response) => {
+      const checkin = request.query.get('checkin');
+      const checkout = request.query.get('checkout');
+      const rooms = checkin && checkout
+        ? this.store.getAvailableRooms({ checkin, checkout })
+        : this.store.getRooms();
+      this.sendJson(response, 200, { rooms });
+    });
+
+    this.route('GET', /^\/api\/room\/(\d+)$/, (request, response) => {
+      const room = this.store.getRoom(Number(request.params[0]));
+      if (!room) {
+        this.sendJson(response, 404, { errors: [`Room ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 200, room);
+    });
+
+    this.route('POST', /^\/api\/room$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      const body = request.body as Partial<NewRoom>;
+      const errors = RoomValidator.validate(body);
+      if (errors.length > 0) {
+        this.sendJson(response, 400, { errors });
+        return;
+      }
+      const room = this.store.addRoom({
+        roomName: String(body.roomName),
+        type: body.type!,
+        accessible: body.accessible === true,
+        capacity: Number(body.capacity) || 2,
+        description: body.description || 'Please enter a description for this room',
+        features: body.features ?? [],
+        roomPrice: Number(body.roomPrice)
+      });
+      this.sendJson(response, 201, { room });
+    });
+
+    this.route('DELETE', /^\/api\/room\/(\d+)$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      if (!this.store.deleteRoom(Number(request.params[0]))) {
+        this.sendJson(response, 404, { errors: [`Room ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 202, { deleted: true });
+    });
+
+    this.route('GET', /^\/api\/report\/room\/(\d+)$/, (request, response) => {
+      const report = this.store.getBookingsForRoom(Number(request.params[0])).map(booking => ({
+        start: booking.bookingdates.checkin,
+        end: booking.bookingdates.checkout,
+        title: 'Unavailable'
+      }));
+      this.sendJson(response, 200, { report });
+    });
+  }
+
+  private registerBookingRoutes(): void {
+    this.route('GET', /^\/api\/booking$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      const roomId = request.query.get('roomid');
+      const bookings = roomId ? this.store.getBookingsForRoom(Number(roomId)) : this.store.getBookings();
+      this.sendJson(response, 200, { bookings });
+    });
+
+    this.route('GET', /^\/api\/booking\/(\d+)$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      const booking = this.store.getBooking(Number(request.params[0]));
+      if (!booking) {
+        this.sendJson(response, 404, { errors: [`Booking ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 200, booking);
+    });
+
+    this.route('DELETE', /^\/api\/booking\/(\d+)$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      if (!this.store.deleteBooking(Number(request.params[0]))) {
+        this.sendJson(response, 404, { errors: [`Booking ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 202, { deleted: true });
+    });
+
+    this.route('POST', /^\/api\/booking$/, (request, response) => {
+      const body = request.body as Partial<NewBooking>;
+      const errors = BookingValidator.validate(body);
+      if (errors.length > 0) {
+        this.sendJson(response, 400, { errors });
+        return;
+      }
+      if (!this.store.getRoom(Number(body.roomid))) {
+        this.sendJson(response, 400, { errors: [`Room ${body.roomid} does not exist`] });
+        return;
+      }
+      const booking = body as NewBooking;
+      if (!this.store.isRoomAvailable(booking.roomid, booking.bookingdates)) {
+        this.sendJson(response, 409, {
+          errors: ['The room dates are either invalid or are already booked for one or more of the dates that you have selected.']
+        });
+        return;
+      }
+      this.sendJson(response, 201, { booking: this.store.addBooking(booking) });
+    });
+  }
+
+  private registerAuthRoutes(): void {
+    this.route('POST', /^\/api\/auth\/login$/, (request, response) => {
+      const { username, password } = request.body;
+      if (username !== this.adminUsername || password !== this.adminPassword) {
+        this.sendJson(response, 401, { errors: ['Invalid credentials'] });
+        return;
+      }
+      const token = randomUUID();
+      this.tokens.add(token);
+      response.setHeader('Set-Cookie', `token=${token}; Path=/; HttpOnly; SameSite=Lax`);
+      this.sendJson(response, 200, { token });
+    });
+
+    this.route('POST', /^\/api\/auth\/validate$/, (request, response) => {
+      const valid = this.tokens.has(request.body.token ?? this.readToken(request));
+      this.sendJson(response, valid ? 200 : 403, { valid });
+    });
+
+    this.route('POST', /^\/api\/auth\/logout$/, (request, response) => {
+      this.tokens.delete(request.body.token ?? this.readToken(request));
+      response.setHeader('Set-Cookie', 'token=; Path=/; Max-Age=0');
+      this.sendJson(response, 200, { loggedOut: true });
+    });
+  }
+
+  private registerMessageRoutes(): void {
+    this.route('POST', /^\/api\/message$/, (request, response) => {
+      const body = request.body as Partial<NewMessage>;
+      const errors = MessageValidator.validate(body);
+      if (errors.length > 0) {
+        this.sendJson(response, 400, { errors });
+        return;
+      }
+      this.sendJson(response, 201, { message: this.store.addMessage(body as NewMessage) });
+    });
+
+    this.route('GET', /^\/api\/message$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      const messages = this.store.getMessages().map(({ messageid, name, subject, read }) => ({ messageid, name, subject, read }));
+      this.sendJson(response, 200, { messages });
+    });
+
+    this.route('GET', /^\/api\/message\/(\d+)$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      const message = this.store.getMessage(Number(request.params[0]));
+      if (!message) {
+        this.sendJson(response, 404, { errors: [`Message ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 200, message);
+    });
+
+    this.route('PUT', /^\/api\/message\/(\d+)\/read$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      if (!this.store.markMessageRead(Number(request.params[0]))) {
+        this.sendJson(response, 404, { errors: [`Message ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 202, { read: true });
+    });
+
+    this.route('DELETE', /^\/api\/message\/(\d+)$/, (request, response) => {
+      if (!this.requireAuth(request, response)) return;
+      if (!this.store.deleteMessage(Number(request.params[0]))) {
+        this.sendJson(response, 404, { errors: [`Message ${request.params[0]} not found`] });
+        return;
+      }
+      this.sendJson(response, 202, { deleted: true });
+    });
+  }
+
+  /**
+   * Read the session token from the request cookie
+   */
+  private readToken(request: StandInRequest): string {
+    const cookies = request.headers.cookie || '';
+    const match = /(?:^|;\s*)token=([^;]+)/.exec(cookies);
+    return match ? match[1] : '';
+  }
+
+  private isAuthenticated(request: StandInRequest): boolean {
+    return this.tokens.has(this.readToken(request));
+  }
+
+  /**
+   * Reject the request with 403 unless it carries a valid admin token
+   */
+  private requireAuth(request: StandInRequest, response: ServerResponse): boolean {
+    if (this.isAuthenticated(request)) {
+      return true;
+    }
+    this.sendJson(response, 403, { errors: ['Authentication required'] });
+    return false;
+  }
+
+  /**
+   * Send the browser to the login page unless it carries a valid admin token
+   */
+  private requireAdminPage(request: StandInRequest, response: ServerResponse): boolean {
+    if (this.isAuthenticated(request)) {
+      return true;
+    }
+    this.redirect(response, '/admin');
+    return false;
+  }
+
+  private countUnreadMessages(): number {
+    return this.store.getMessages().filter(message => !message.read).length;
+  }
+
+  private readBody(request: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      request.on('data', chunk => { raw += chunk; });
+      request.on('error', reject);
+      request.on('end', () => {
+        if (raw === '') {
+          resolve({});
+          return;
+        }
+        try {
+          resolve(JSON.parse(raw));
+        } catch {
+          resolve(undefined);
+        }
+      });
+    });
+  }
+
+  private sendJson(response: ServerResponse, status: number, payload: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    response.end(JSON.stringify(payload));
+  }
+
+  private redirect(response: ServerResponse, location: string): void {
+    response.writeHead(302, { Location: location });
+    response.end();
+  }
+
+  private sendHtml(response: ServerResponse, status: number, html: string): void {
+    response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(html);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Admin Views - HTML templates for the stand-in admin panel
+ *
+ * Follows the markup of the real /admin pages the admin page objects
+ * rely on (#username/#password/#doLogin, [data-testid="roomlisting"],
+ * the #createRoom form, message rows with data-testid="message<N>" and
+ * the [data-testid="message"] detail modal). Behaviour lives in
+ * public/admin.js.
+ */
+
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+import { StandInBooking, StandInMessage, StandInRoom } from './BookingStore';
+import { HOTEL_NAME, escapeHtml } from './views';
+
+export const ADMIN_ROOM_FEATURES = ['WiFi', 'TV', 'Radio', 'Refreshments', 'Safe', 'Views', 'Mini Bar', 'Balcony', 'Jacuzzi'];
+
+function adminNav(unreadMessages: number): string {
+  const badge = unreadMessages > 0 ? ` <span class="badge">${unreadMessages}</span>` : '';
+  return `  <nav role="navigation" class="navbar navbar-admin">
+    <a class="navbar-brand" href="/admin/rooms">${escapeHtml(HOTEL_NAME)} Admin</a>
+    <ul class="navbar-nav">
+      <li><a id="roomsLink" href="/admin/rooms">Rooms</a></li>
+      <li><a id="messagesLink" href="/admin/message">Messages${badge}</a></li>
+      <li><a id="frontPageLink" href="/">Front Page</a></li>
+      <li><button type="button" id="logout" class="btn btn-secondary">Logout</button></li>
+    </ul>
+  </nav>`;
+}
+
+function adminLayout(title: string, body: string, nav: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} - ${escapeHtml(HOTEL_NAME)}</title>
+  <link rel="stylesheet" href="/assets/stand-in.css">
+</head>
+<body>
+${nav}
+  <main class="admin">
+${body}
+  </main>
+  <script src="/assets/admin.js"></script>
+</body>
+</html>`;
+}
+
+function featureId(feature: string): string {
+  return `${feature.replace(/\s+/g, '').toLowerCase()}Checkbox`;
+}
+
+function renderRoomListing(room: StandInRoom): string {
+  return `        <div data-testid="roomlisting" id="room${room.roomid}" class="row detail" data-room-id="${room.roomid}">
+          <p>${escapeHtml(room.roomName)}</p>
+          <p>${escapeHtml(room.type)}</p>
+          <p>${room.accessible}</p>
+          <p>${room.roomPrice}</p>
+          <p>${escapeHtml(room.features.join(', ') || 'No features added to the room')}</p>
+          <button type="button" class="roomDelete" data-room-id="${room.roomid}" aria-label="Delete room ${escapeHtml(room.roomName)}">&times;</button>
+        </div>`;
+}
+
+function renderBookingListing(booking: StandInBooking): string {
+  return `        <div data-testid="bookinglisting" class="row detail" data-booking-id="${booking.bookingid}">
+          <p>${escapeHtml(booking.firstname)}</p>
+          <p>${escapeHtml(booking.lastname)}</p>
+          <p>${booking.depositpaid}</p>
+          <p>${booking.bookingdates.checkin}</p>
+          <p>${booking.bookingdates.checkout}</p>
+          <button type="button" class="bookingDelete" data-booking-id="${booking.bookingid}" aria-label="Delete booking ${booking.bookingid}">&times;</button>
+        </div>`;
+}
+
+function renderMessageListing(message: StandInMessage, index: number): string {
+  return `        <div class="row detail read-${message.read}" data-message-id="${message.messageid}">
+          <div class="rowBrand" data-testid="message${index}"><p>${escapeHtml(message.name)}</p></div>
+          <div data-testid="messageDescription${index}"><p>${escapeHtml(message.subject)}</p></div>
+          <button type="button" class="messageDelete" data-testid="DeleteMessage${index}" data-message-id="${message.messageid}" aria-label="Delete message ${index}">&times;</button>
+        </div>`;
+}
+
+export function renderAdminLoginPage(): string {
+  return adminLayout('Login', `    <section class="admin-login">
+      <h2>Login</h2>
+      <form id="loginForm" class="admin-form">
+        <label for="username">Username</label>
+        <input type="text" id="username" name="username" class="form-control" placeholder="Username" autocomplete="username">
+        <label for="password">Password</label>
+        <input type="password" id="password" name="password" class="form-control" placeholder="Password" autocomplete="current-password">
+        <button type="submit" id="doLogin" class="btn btn-primary">Login</button>
+      </form>
+    </section>`);
+}
+
+export function renderAdminRoomsPage(rooms: StandInRoom[], unreadMessages: number): string {
+  const typeOptions = RoomTypeNames.names().map(type => `<option value="${escapeHtml(type)}">${escapeHtml(type)}</option>`).join('');
+  const featureBoxes = ADMIN_ROOM_FEATURES.map(feature => `          <label for="${featureId(feature)}"><input type="checkbox" id="${featureId(feature)}" name="features" value="${escapeHtml(feature)}"> ${escapeHtml(feature)}</label>`).join('\n');
+
+  return adminLayout('Rooms', `    <section class="admin-rooms">
+      <h2>Rooms</h2>
+      <div class="row header">
+        <p>Room #</p><p>Type</p><p>Accessible</p><p>Price</p><p>Room details</p>
+      </div>
+      <div class="room-listings">
+${rooms.map(renderRoomListing).join('\n')}
+      </div>
+      <form id="createRoomForm" class="row room-form">
+        <label for="roomName">Room #</label>
+        <input type="text" id="roomName" name="roomName" class="form-control" data-testid="roomName" placeholder="e.g. 104">
+        <label for="type">Type</label>
+        <select id="type" name="type" class="form-control">${typeOptions}</select>
+        <label for="accessible">Accessible</label>
+        <select id="accessible" name="accessible" class="form-control"><option value="false">false</option><option value="true">true</option></select>
+        <label for="roomPrice">Price</label>
+        <input type="text" id="roomPrice" name="roomPrice" class="form-control" data-testid="roomPrice" placeholder="e.g. 120">
+        <fieldset class="room-features">
+          <legend>Room details</legend>
+${featureBoxes}
+        </fieldset>
+        <button type="submit" id="createRoom" class="btn btn-primary">Create</button>
+      </form>
+    </section>`, adminNav(unreadMessages));
+}
+
+export function renderAdminRoomPage(room: StandInRoom, bookings: StandInBooking[], unreadMessages: number): string {
+  const listings = bookings.length > 0
+    ? bookings.map(renderBookingListing).join('\n')
+    : '        <p class="no-bookings">No bookings for this room</p>';
+
+  return adminLayout(`Room ${room.roomName}`, `    <section class="admin-room" data-room-id="${room.roomid}">
+      <h2>Room: ${escapeHtml(room.roomName)}</h2>
+      <div class="room-summary">
+        <p>Type: ${escapeHtml(room.type)}</p>
+        <p>Accessible: ${room.accessible}</p>
+        <p>Room price: ${room.roomPrice}</p>
+        <p>Description: ${escapeHtml(room.description)}</p>
+        <p>Features: ${escapeHtml(room.features.join(', '))}</p>
+      </div>
+      <h3>Bookings</h3>
+      <div class="row header">
+        <p>Firstname</p><p>Lastname</p><p>Deposit paid?</p><p>Check in</p><p>Check out</p>
+      </div>
+      <div class="booking-listings">
+${listings}
+      </div>
+    </section>`, adminNav(unreadMessages));
+}
+
+export function renderAdminMessagesPage(messages: StandInMessage[]): string {
+  const unread = messages.filter(message => !message.read).length;
+  return adminLayout('Messages', `    <section class="admin-messages">
+      <h2>Messages</h2>
+      <div class="messages">
+        <div class="row header"><p>Name</p><p>Subject</p></div>
+${messages.map(renderMessageListing).join('\n')}
+      </div>
+    </section>`, adminNav(unread));
+}
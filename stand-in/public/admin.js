@@ -0,0 +1,130 @@
+/**
+ * Admin panel behaviour for the stand-in application
+ *
+ * Logs in through /api/auth/login, creates and deletes rooms, deletes
+ * bookings and shows, marks read and deletes contact messages. Every
+ * change reloads the page so the server-rendered lists stay the source
+ * of truth.
+ */
+(function () {
+  'use strict';
+
+  var main = document.querySelector('main');
+
+  function send(method, url, body) {
+    return fetch(url, {
+      method: method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }).then(function (response) {
+      return response.json().then(function (payload) {
+        return { ok: response.ok, payload: payload };
+      });
+    });
+  }
+
+  function escapeHtml(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  function renderAlert(form, messages) {
+    var alert = form.querySelector('.alert');
+    if (!alert) {
+      alert = document.createElement('div');
+      alert.className = 'alert alert-danger';
+      alert.setAttribute('role', 'alert');
+      form.appendChild(alert);
+    }
+    alert.innerHTML = messages.map(function (message) { return '<p>' + escapeHtml(message) + '</p>'; }).join('');
+  }
+
+  function login(form) {
+    send('POST', '/api/auth/login', {
+      username: form.elements.username.value,
+      password: form.elements.password.value
+    }).then(function (result) {
+      if (result.ok) {
+        window.location.assign('/admin/rooms');
+      } else {
+        renderAlert(form, ['Invalid credentials']);
+      }
+    });
+  }
+
+  function createRoom(form) {
+    var features = Array.prototype.filter.call(form.elements.features, function (box) { return box.checked; })
+      .map(function (box) { return box.value; });
+    send('POST', '/api/room', {
+      roomName: form.elements.roomName.value,
+      type: form.elements.type.value,
+      accessible: form.elements.accessible.value === 'true',
+      roomPrice: form.elements.roomPrice.value,
+      features: features
+    }).then(function (result) {
+      if (result.ok) {
+        window.location.reload();
+      } else {
+        renderAlert(form, result.payload.errors || ['Room could not be created']);
+      }
+    });
+  }
+
+  function reloadAfter(request) {
+    request.then(function () { window.location.reload(); });
+  }
+
+  function showMessage(messageId) {
+    send('GET', '/api/message/' + messageId).then(function (result) {
+      if (!result.ok) return;
+      return send('PUT', '/api/message/' + messageId + '/read').then(function () { return result.payload; });
+    }).then(function (message) {
+      if (!message) return;
+      var modal = document.createElement('div');
+      modal.className = 'message-modal';
+      modal.setAttribute('role', 'dialog');
+      modal.setAttribute('data-testid', 'message');
+      modal.innerHTML =
+        '<p><span>From: </span>' + escapeHtml(message.name) + '</p>' +
+        '<p><span>Phone: </span>' + escapeHtml(message.phone) + '</p>' +
+        '<p><span>Email: </span>' + escapeHtml(message.email) + '</p>' +
+        '<p><span>' + escapeHtml(message.subject) + '</span></p>' +
+        '<p>' + escapeHtml(message.description) + '</p>' +
+        '<button type="button" class="btn btn-outline-primary" data-action="close">Close</button>';
+      main.appendChild(modal);
+    });
+  }
+
+  document.addEventListener('submit', function (event) {
+    event.preventDefault();
+    if (event.target.id === 'loginForm') {
+      login(event.target);
+    } else if (event.target.id === 'createRoomForm') {
+      createRoom(event.target);
+    }
+  });
+
+  document.addEventListener('click', function (event) {
+    var button = event.target.closest('button');
+    var row = event.target.closest('.detail');
+
+    if (button && button.id === 'logout') {
+      send('POST', '/api/auth/logout').then(function () { window.location.assign('/'); });
+    } else if (button && button.classList.contains('roomDelete')) {
+      reloadAfter(send('DELETE', '/api/room/' + button.dataset.roomId));
+    } else if (button && button.classList.contains('bookingDelete')) {
+      reloadAfter(send('DELETE', '/api/booking/' + button.dataset.bookingId));
+    } else if (button && button.classList.contains('messageDelete')) {
+      reloadAfter(send('DELETE', '/api/message/' + button.dataset.messageId));
+    } else if (button && button.dataset.action === 'close') {
+      window.location.reload();
+    } else if (row && row.dataset.roomId) {
+      window.location.assign('/admin/room/' + row.dataset.roomId);
+    } else if (row && row.dataset.messageId) {
+      showMessage(row.dataset.messageId);
+    }
+  });
+})();
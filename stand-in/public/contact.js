@@ -0,0 +1,66 @@
+/**
+ * Contact form behaviour for the stand-in homepage
+ *
+ * Posts the message to /api/message, then either thanks the sender or
+ * lists the API's validation messages in an .alert.alert-danger.
+ */
+(function () {
+  'use strict';
+
+  var form = document.getElementById('contactForm');
+  if (!form) return;
+
+  function escapeHtml(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  function renderAlert(messages) {
+    var alert = form.querySelector('.alert');
+    if (!alert) {
+      alert = document.createElement('div');
+      alert.className = 'alert alert-danger';
+      alert.setAttribute('role', 'alert');
+      form.appendChild(alert);
+    }
+    alert.innerHTML = messages.map(function (message) { return '<p>' + escapeHtml(message) + '</p>'; }).join('');
+  }
+
+  function renderThanks(message) {
+    form.parentNode.innerHTML =
+      '<h3>Thanks for getting in touch ' + escapeHtml(message.name) + '!</h3>' +
+      '<p>We\'ll get back to you about</p>' +
+      '<p class="contact-subject">' + escapeHtml(message.subject) + '</p>' +
+      '<p>as soon as possible.</p>';
+  }
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var body = {
+      name: form.elements.name.value,
+      email: form.elements.email.value,
+      phone: form.elements.phone.value,
+      subject: form.elements.subject.value,
+      description: form.elements.description.value
+    };
+
+    fetch('/api/message', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }).then(function (response) {
+      return response.json().then(function (payload) {
+        if (response.ok) {
+          renderThanks(body);
+        } else {
+          renderAlert(payload.errors || ['Message could not be sent']);
+        }
+      });
+    }).catch(function () {
+      renderAlert(['Message could not be sent']);
+    });
+  });
+})();
@@ -0,0 +1,261 @@
+/**
+ * Reservation page behaviour for the stand-in application
+ *
+ * Renders the Month View calendar, keeps the selected stay in sync with
+ * the Price Summary and submits the booking form to /api/booking.
+ * All date arithmetic is done in UTC on YYYY-MM-DD strings.
+ */
+(function () {
+  'use strict';
+
+  var MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+    'August', 'September', 'October', 'November', 'December'];
+  var DAY_MS = 24 * 60 * 60 * 1000;
+
+  var root = document.querySelector('.reservation');
+  var calendar = root.querySelector('.rbc-month-view');
+  var calendarBody = calendar.querySelector('tbody');
+  var toolbarLabel = root.querySelector('.rbc-toolbar-label');
+  var priceLines = root.querySelector('.price-lines');
+  var bookingPanel = root.querySelector('.booking-panel');
+
+  var roomId = Number(root.dataset.roomId);
+  var roomPrice = Number(root.dataset.roomPrice);
+  var cleaningFee = Number(root.dataset.cleaningFee);
+  var serviceFee = Number(root.dataset.serviceFee);
+  var today = parseDate(root.dataset.today);
+
+  var state = {
+    viewMonth: startOfMonth(today),
+    checkin: null,
+    checkout: null,
+    extending: false,
+    unavailable: []
+  };
+
+  function parseDate(value) {
+    var parts = value.split('-').map(Number);
+    return new Date(Date.UTC(parts[0], parts[1] - 1, parts[2]));
+  }
+
+  function formatDate(date) {
+    return date.toISOString().slice(0, 10);
+  }
+
+  function startOfMonth(date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  function addDays(date, days) {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  function addMonths(date, months) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  }
+
+  function nightsBetween(checkin, checkout) {
+    return Math.round((checkout.getTime() - checkin.getTime()) / DAY_MS);
+  }
+
+  function pad(value) {
+    return value < 10 ? '0' + value : String(value);
+  }
+
+  function escapeHtml(value) {
+    var div = document.createElement('div');
+    div.textContent = value;
+    return div.innerHTML;
+  }
+
+  function isUnavailable(isoDate) {
+    return state.unavailable.some(function (range) {
+      return isoDate >= range.start && isoDate < range.end;
+    });
+  }
+
+  function isSelected(isoDate) {
+    if (!state.checkin || !state.checkout) {
+      return false;
+    }
+    return isoDate >= formatDate(state.checkin) && isoDate < formatDate(state.checkout);
+  }
+
+  function renderCalendar() {
+    var month = state.viewMonth;
+    var firstWeekday = month.getUTCDay();
+    var daysInMonth = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0)).getUTCDate();
+    var cells = [];
+    var i;
+
+    for (i = 0; i < firstWeekday; i++) {
+      cells.push('<td class="rbc-date-cell rbc-off-range"></td>');
+    }
+    for (i = 1; i <= daysInMonth; i++) {
+      var isoDate = formatDate(new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), i)));
+      var classes = ['rbc-date-cell'];
+      if (isoDate === formatDate(today)) classes.push('rbc-today');
+      if (isSelected(isoDate)) classes.push('rbc-selected');
+      if (isUnavailable(isoDate)) classes.push('rbc-unavailable');
+      cells.push('<td class="' + classes.join(' ') + '" data-date="' + isoDate + '">' +
+        '<button type="button" class="rbc-button-link" data-date="' + isoDate + '"' +
+        (isUnavailable(isoDate) ? ' disabled' : '') + '>' + pad(i) + '</button></td>');
+    }
+    while (cells.length % 7 !== 0) {
+      cells.push('<td class="rbc-date-cell rbc-off-range"></td>');
+    }
+
+    var rows = [];
+    for (i = 0; i < cells.length; i += 7) {
+      rows.push('<tr class="rbc-month-row">' + cells.slice(i, i + 7).join('') + '</tr>');
+    }
+    calendarBody.innerHTML = rows.join('');
+    toolbarLabel.textContent = MONTH_NAMES[month.getUTCMonth()] + ' ' + month.getUTCFullYear();
+    calendar.dataset.month = formatDate(month).slice(0, 7);
+    calendar.dataset.checkin = state.checkin ? formatDate(state.checkin) : '';
+    calendar.dataset.checkout = state.checkout ? formatDate(state.checkout) : '';
+  }
+
+  function renderPriceSummary() {
+    if (!state.checkin || !state.checkout) {
+      priceLines.innerHTML = '<p class="price-placeholder">Select your dates on the calendar.</p>';
+      return;
+    }
+    var nights = nightsBetween(state.checkin, state.checkout);
+    var roomTotal = roomPrice * nights;
+    var total = roomTotal + cleaningFee + serviceFee;
+    priceLines.innerHTML =
+      '<div class="price-line" data-line="room"><span>£' + roomPrice + ' x ' + nights + ' nights</span><span>£' + roomTotal + '</span></div>' +
+      '<div class="price-line" data-line="cleaning"><span>Cleaning fee</span><span>£' + cleaningFee + '</span></div>' +
+      '<div class="price-line" data-line="service"><span>Service fee</span><span>£' + serviceFee + '</span></div>' +
+      '<hr>' +
+      '<div class="price-line price-total" data-line="total"><span>Total</span><span>£' + total + '</span></div>';
+  }
+
+  function render() {
+    renderCalendar();
+    renderPriceSummary();
+  }
+
+  /**
+   * A first click books a single night; a later click on a following day
+   * extends the stay so that day becomes the check-out date.
+   */
+  function selectDay(isoDate) {
+    var day = parseDate(isoDate);
+    if (state.extending && state.checkin && day > state.checkin) {
+      state.checkout = day;
+      state.extending = false;
+    } else {
+      state.checkin = day;
+      state.checkout = addDays(day, 1);
+      state.extending = true;
+    }
+    render();
+  }
+
+  function navigate(direction) {
+    if (direction === 'today') {
+      state.viewMonth = startOfMonth(today);
+    } else {
+      state.viewMonth = addMonths(state.viewMonth, direction === 'next' ? 1 : -1);
+    }
+    renderCalendar();
+  }
+
+  function renderAlert(messages) {
+    var existing = bookingPanel.querySelector('.alert');
+    if (existing) existing.remove();
+    var alert = document.createElement('div');
+    alert.className = 'alert alert-danger';
+    alert.setAttribute('role', 'alert');
+    alert.innerHTML = '<ul>' + messages.map(function (message) {
+      return '<li>' + escapeHtml(message) + '</li>';
+    }).join('') + '</ul>';
+    bookingPanel.appendChild(alert);
+  }
+
+  function showBookingForm() {
+    if (!state.checkin || !state.checkout) {
+      renderAlert(['Please select your dates on the calendar']);
+      return;
+    }
+    bookingPanel.innerHTML =
+      '<form class="booking-form" novalidate>' +
+      '  <input class="form-control room-firstname" name="firstname" type="text" placeholder="Firstname" aria-label="Firstname">' +
+      '  <input class="form-control room-lastname" name="lastname" type="text" placeholder="Lastname" aria-label="Lastname">' +
+      '  <input class="form-control room-email" name="email" type="email" placeholder="Email" aria-label="Email">' +
+      '  <input class="form-control room-phone" name="phone" type="tel" placeholder="Phone" aria-label="Phone">' +
+      '  <button type="submit" class="btn btn-primary">Reserve Now</button>' +
+      '  <button type="button" class="btn btn-secondary" data-action="cancel">Cancel</button>' +
+      '</form>';
+  }
+
+  function showConfirmation(checkin, checkout) {
+    root.querySelector('.booking-card .card-body').innerHTML =
+      '<h2>Booking Confirmed</h2>' +
+      '<p>Your booking has been confirmed for the following dates:</p>' +
+      '<p><strong>' + checkin + ' - ' + checkout + '</strong></p>' +
+      '<a class="btn btn-primary" href="/">Return home</a>';
+  }
+
+  function submitBooking(form) {
+    var checkin = formatDate(state.checkin);
+    var checkout = formatDate(state.checkout);
+    var body = {
+      roomid: roomId,
+      firstname: form.elements.firstname.value,
+      lastname: form.elements.lastname.value,
+      email: form.elements.email.value,
+      phone: form.elements.phone.value,
+      depositpaid: false,
+      bookingdates: { checkin: checkin, checkout: checkout }
+    };
+
+    fetch('/api/booking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }).then(function (response) {
+      return response.json().then(function (payload) {
+        if (response.ok) {
+          showConfirmation(checkin, checkout);
+        } else {
+          renderAlert(payload.errors || ['Booking could not be completed']);
+        }
+      });
+    }).catch(function () {
+      renderAlert(['Booking could not be completed']);
+    });
+  }
+
+  root.addEventListener('click', function (event) {
+    var target = event.target.closest('button');
+    if (!target) return;
+
+    if (target.classList.contains('rbc-button-link')) {
+      selectDay(target.dataset.date);
+    } else if (target.dataset.navigate) {
+      navigate(target.dataset.navigate);
+    } else if (target.id === 'doReservation') {
+      showBookingForm();
+    } else if (target.dataset.action === 'cancel') {
+      bookingPanel.innerHTML = '<button type="button" id="doReservation" class="btn btn-primary">Reserve Now</button>';
+    }
+  });
+
+  root.addEventListener('submit', function (event) {
+    event.preventDefault();
+    submitBooking(event.target);
+  });
+
+  fetch('/api/report/room/' + roomId)
+    .then(function (response) { return response.json(); })
+    .then(function (payload) {
+      state.unavailable = payload.report || [];
+      renderCalendar();
+    })
+    .catch(function () { /* calendar stays fully available */ });
+
+  render();
+})();
@@ -0,0 +1,19 @@
+/**
+ * Stand-in server entry point
+ *
+ * Started by Playwright's webServer when STAND_IN=true, or manually with
+ * `npm run stand-in`. Listens on TestConfig.STAND_IN_PORT.
+ */
+
+import { TestConfig } from '../config/TestConfig';
+import { StandInApp } from './StandInApp';
+
+const server = new StandInApp().createServer();
+
+server.listen(TestConfig.STAND_IN_PORT, () => {
+  console.log(`Stand-in booking application listening on ${TestConfig.STAND_IN_URL}`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
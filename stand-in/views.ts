@@ -0,0 +1,147 @@
+/**
+ * Views - HTML templates for the stand-in application
+ *
+ * Markup keeps the roles, names, placeholders and CSS classes the page
+ * objects rely on (hero "Book Now", [data-room] cards, "Month View"
+ * calendar, "Price Summary", #doReservation, .alert.alert-danger and the
+ * Contact* test IDs of the contact form).
+ */
+
+import { AppConstants } from '../config/TestConfig';
+import { StandInRoom } from './BookingStore';
+
+export const HOTEL_NAME = 'Shady Meadows B&B';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(title: string, body: string, scripts: string[] = []): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="/assets/stand-in.css">
+</head>
+<body>
+  <nav role="navigation" class="navbar">
+    <a class="navbar-brand" href="/">${escapeHtml(HOTEL_NAME)}</a>
+    <ul class="navbar-nav">
+      <li><a href="/#rooms">Rooms</a></li>
+      <li><a href="/#booking">Booking</a></li>
+      <li><a href="/#contact">Contact</a></li>
+    </ul>
+  </nav>
+  <main>
+${body}
+  </main>
+${scripts.map(src => `  <script src="${src}"></script>`).join('\n')}
+</body>
+</html>`;
+}
+
+function renderRoomCard(room: StandInRoom): string {
+  const features = room.features.map(feature => `<li>${escapeHtml(feature)}</li>`).join('');
+  return `      <div class="card room-card" data-room="${room.roomid}" data-room-type="${escapeHtml(room.type)}">
+        <div class="card-body">
+          <h3 class="card-title">${escapeHtml(room.type)}</h3>
+          <p class="card-text">${escapeHtml(room.description)}</p>
+          <ul class="room-features">${features}</ul>
+          <div class="room-price">£${room.roomPrice} <small>per night</small></div>
+          <a class="btn btn-primary" href="/reservation/${room.roomid}">Book now</a>
+        </div>
+      </div>`;
+}
+
+export function renderHomePage(rooms: StandInRoom[]): string {
+  return layout(HOTEL_NAME, `    <section class="hero">
+      <h1>Welcome to ${escapeHtml(HOTEL_NAME)}</h1>
+      <p>Welcome to our peaceful countryside retreat. Pick a room and reserve your stay online.</p>
+      <a class="btn btn-primary btn-lg" href="#rooms">Book Now</a>
+    </section>
+    <section id="booking" class="booking-intro">
+      <h2>Check Availability &amp; Book Your Stay</h2>
+      <p>Choose one of our rooms below to see its calendar and prices.</p>
+    </section>
+    <section id="rooms">
+      <h2>Our Rooms</h2>
+      <div class="room-list">
+${rooms.map(renderRoomCard).join('\n')}
+      </div>
+    </section>
+    <section id="contact">
+      <div class="card contact-card">
+        <div class="card-body">
+          <h3>Send Us a Message</h3>
+          <form id="contactForm" class="contact-form" novalidate>
+            <label for="name">Name</label>
+            <input type="text" id="name" name="name" class="form-control" data-testid="ContactName">
+            <label for="email">Email</label>
+            <input type="email" id="email" name="email" class="form-control" data-testid="ContactEmail">
+            <label for="phone">Phone</label>
+            <input type="tel" id="phone" name="phone" class="form-control" data-testid="ContactPhone">
+            <label for="subject">Subject</label>
+            <input type="text" id="subject" name="subject" class="form-control" data-testid="ContactSubject">
+            <label for="description">Message</label>
+            <textarea id="description" name="description" class="form-control" rows="5" data-testid="ContactDescription"></textarea>
+            <button type="submit" class="btn btn-primary">Submit</button>
+          </form>
+        </div>
+      </div>
+    </section>`, ['/assets/contact.js']);
+}
+
+export function renderReservationPage(room: StandInRoom, today: string): string {
+  const features = room.features.map(feature => `<li>${escapeHtml(feature)}</li>`).join('');
+  return layout(`${room.type} - ${HOTEL_NAME}`, `    <section class="reservation"
+      data-room-id="${room.roomid}"
+      data-room-price="${room.roomPrice}"
+      data-cleaning-fee="${AppConstants.CLEANING_FEE}"
+      data-service-fee="${AppConstants.SERVICE_FEE}"
+      data-today="${today}">
+      <div class="room-details">
+        <h1>${escapeHtml(room.type)}</h1>
+        <p>${escapeHtml(room.description)}</p>
+        <ul class="room-features">${features}</ul>
+      </div>
+      <div class="calendar-panel">
+        <div class="rbc-toolbar">
+          <span class="rbc-btn-group">
+            <button type="button" data-navigate="today">Today</button>
+            <button type="button" data-navigate="back">Back</button>
+            <button type="button" data-navigate="next">Next</button>
+          </span>
+          <span class="rbc-toolbar-label" aria-live="polite"></span>
+        </div>
+        <table class="rbc-month-view" aria-label="Month View">
+          <thead>
+            <tr><th>Sun</th><th>Mon</th><th>Tue</th><th>Wed</th><th>Thu</th><th>Fri</th><th>Sat</th></tr>
+          </thead>
+          <tbody></tbody>
+        </table>
+      </div>
+      <div class="card booking-card">
+        <div class="card-body">
+          <h3>Price Summary</h3>
+          <div class="price-lines"><p class="price-placeholder">Select your dates on the calendar.</p></div>
+          <div class="booking-panel">
+            <button type="button" id="doReservation" class="btn btn-primary">Reserve Now</button>
+          </div>
+        </div>
+      </div>
+    </section>`, ['/assets/reservation.js']);
+}
+
+export function renderNotFoundPage(): string {
+  return layout(`Not Found - ${HOTEL_NAME}`, `    <section class="not-found">
+      <h1>Page not found</h1>
+      <a href="/">Return home</a>
+    </section>`);
+}
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { applySuppressions, contrastRatio, DomSnapshot, evaluateSnapshot, findKeyboardTrap, parseColor } from '../services/AccessibilityAudit';
+
+/**
+ * Accessibility Rule Tests
+ *
+ * Judges hand-written DOM snapshots and focus sequences; no browser is started.
+ */
+test.describe('Accessibility Rules', () => {
+
+  const snapshot = (overrides: Partial<DomSnapshot>): DomSnapshot => ({
+    fields: [], text: [], headings: [], controls: [], focusableCount: 0, ...overrides
+  });
+
+  test('should measure contrast with the WCAG thresholds for normal and large text', () => {
+    expect(contrastRatio(parseColor('rgb(0, 0, 0)')!, parseColor('rgb(255, 255, 255)')!)).toBeCloseTo(21, 1);
+    expect(parseColor('rgba(0, 0, 0, 0)')).toBeNull();
+
+    const grey = { selector: 'p.muted', text: 'Muted', color: 'rgb(153, 153, 153)', background: 'rgb(255, 255, 255)', fontSizePx: 16, bold: false };
+    expect(evaluateSnapshot(snapshot({ text: [grey] })).map(v => v.rule)).toEqual(['color-contrast']);
+    expect(evaluateSnapshot(snapshot({ text: [{ ...grey, color: 'rgb(130, 130, 130)', fontSizePx: 24 }] }))).toEqual([]);
+    expect(evaluateSnapshot(snapshot({ text: [{ ...grey, background: null }] }))).toEqual([]);
+  });
+
+  test('should report unlabelled fields, skipped heading levels, unnamed controls and traps', () => {
+    const violations = evaluateSnapshot(snapshot({
+      fields: [{ selector: '#name', labelled: true }, { selector: 'input.room-email', labelled: false }],
+      headings: [{ selector: 'h1', level: 1, text: 'Suite' }, { selector: 'h2', level: 2, text: 'Rooms' }, { selector: 'h4', level: 4, text: 'Price' }],
+      controls: [{ selector: 'a.logo', name: '' }, { selector: '#doReservation', name: 'Reserve Now' }]
+    }));
+
+    expect(violations.map(v => `${v.rule} ${v.selector}`)).toEqual([
+      'missing-label input.room-email',
+      'heading-order h4',
+      'unnamed-control a.logo'
+    ]);
+    expect(findKeyboardTrap(['#name', '#email', '#email', '#email'])).toBe('#email');
+    expect(findKeyboardTrap(['body', 'body', 'body', '#name', '#email'])).toBeNull();
+  });
+
+  test('should keep suppressed findings with their reason', () => {
+    const found = [
+      { rule: 'color-contrast' as const, selector: 'table > td.rbc-off-range', message: 'low' },
+      { rule: 'color-contrast' as const, selector: 'p.price', message: 'low' }
+    ];
+
+    const result = applySuppressions(found, [{ rule: 'color-contrast', selector: '.rbc-off-range', reason: 'Inactive day' }]);
+
+    expect(result.violations.map(v => v.selector)).toEqual(['p.price']);
+    expect(result.suppressed).toEqual([{ ...found[0], reason: 'Inactive day' }]);
+  });
+});
@@ -0,0 +1,34 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestData } from '../data/TestData';
+
+/**
+ * Accessibility Tests
+ *
+ * Audits each guest-facing page object as it is reached; every result is
+ * attached to the report as accessibility-<PageObject>.
+ */
+test.describe('Accessibility', () => {
+
+  test('should find no violations on the homepage and contact form', async ({ homePage, roomsPage, contactFormPage }) => {
+    await homePage.navigateAndVerify();
+    await homePage.verifyAccessibility();
+    await roomsPage.verifyAccessibility();
+    await contactFormPage.verifyAccessibility();
+  });
+
+  test('should find no violations on the reservation page and booking form', async ({ bookingFlow, reservationPage, bookingFormPage }) => {
+    await bookingFlow.selectStay(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT).run();
+    await reservationPage.verifyAccessibility();
+
+    await reservationPage.proceedToCheckout();
+    await bookingFormPage.verifyFormFieldsVisible();
+    const result = await bookingFormPage.verifyAccessibility();
+    expect(result.suppressed.every(finding => finding.reason)).toBe(true);
+  });
+
+  test('should find no violations on the admin login page', async ({ adminLoginPage, page }) => {
+    await adminLoginPage.navigate();
+    await page.locator('#doLogin').waitFor();
+    await adminLoginPage.verifyAccessibility();
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestConfig } from '../config/TestConfig';
+import { RoomType } from '../data/TestDataModels';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+/**
+ * Admin Panel Tests
+ *
+ * Uses the logged-in admin fixtures; the login itself happens once per worker.
+ * Against the live site ADMIN_USERNAME and ADMIN_PASSWORD must be set.
+ */
+test.describe('Admin Panel', () => {
+  test.skip(!TestConfig.hasAdminCredentials(), 'Set ADMIN_USERNAME and ADMIN_PASSWORD to run the admin panel tests');
+
+  test('should reject a wrong password on the login form', async ({ adminLoginPage }) => {
+    const { username } = TestConfig.getAdminCredentials();
+
+    await adminLoginPage.submitCredentials({ username, password: `not-${username}` });
+
+    await expect.poll(() => adminLoginPage.getErrorMessage()).toBe('Invalid credentials');
+  });
+
+  test('should create a room and remove it again', { tag: '@destructive' }, async ({ adminRoomsPage, guestData }) => {
+    const roomName = `9${guestData.seed % 1000}`;
+
+    await adminRoomsPage.navigateAndVerify();
+    await adminRoomsPage.createRoom({ roomName, type: RoomType.DOUBLE, price: 175, accessible: true, features: ['WiFi', 'TV'] });
+
+    expect((await adminRoomsPage.getRooms()).find(room => room.roomName === roomName)).toMatchObject({
+      type: RoomTypeNames.nameOf(RoomType.DOUBLE),
+      accessible: true,
+      price: 175,
+      features: ['WiFi', 'TV']
+    });
+
+    await adminRoomsPage.deleteRoom(roomName);
+  });
+
+  test('should list a guest booking on the room page', { tag: '@destructive' }, async ({ apiClient, adminBookingsPage, guestData }) => {
+    const room = await apiClient.getRoomByType(RoomType.SUITE);
+    const booking = await apiClient.createBooking(room.roomId, guestData.booking({ roomType: RoomType.SUITE, guest: { asciiOnly: true } }));
+    const { firstname, lastname } = booking.guestDetails;
+
+    await adminBookingsPage.navigateToRoom(room.roomId);
+
+    expect(await adminBookingsPage.getRoomName()).toBe(room.roomName);
+    expect(await adminBookingsPage.findBooking(firstname, lastname)).toMatchObject({
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate
+    });
+
+    await adminBookingsPage.deleteBooking(firstname, lastname);
+  });
+
+  test('should show a contact message and mark it read', { tag: '@destructive' }, async ({ apiClient, adminMessagesPage, guestData }) => {
+    const guest = guestData.user({ asciiOnly: true });
+    const message = {
+      name: `${guest.firstname} ${guest.lastname}`,
+      email: guest.email,
+      phone: guest.phone,
+      subject: `Parking ${guestData.seed}`,
+      description: 'Is there space to park a car overnight near the house?'
+    };
+    await apiClient.sendMessage(message);
+
+    await adminMessagesPage.navigateAndVerify();
+    const unreadBefore = await adminMessagesPage.getUnreadMessageCount();
+
+    expect(await adminMessagesPage.openMessage(message.subject)).toEqual(message);
+    await adminMessagesPage.closeMessage();
+
+    const listed = (await adminMessagesPage.getMessages()).filter(listing => listing.subject === message.subject);
+    expect(listed[listed.length - 1]).toEqual({ name: message.name, subject: message.subject, read: true });
+    expect(await adminMessagesPage.getUnreadMessageCount()).toBe(unreadBefore - 1);
+
+    await adminMessagesPage.deleteMessage(message.subject);
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { ApiClient } from '../services/ApiClient';
+import { StandInApp, RunningStandIn } from '../stand-in/StandInApp';
+import { BookingData, RoomType } from '../data/TestDataModels';
+import { TestData } from '../data/TestData';
+import { ApiAuthenticationError, ApiRequestError } from '../utils/CustomErrors';
+
+/**
+ * API Client Tests
+ *
+ * Runs the typed client against a stand-in started on a free port, so
+ * no browser and no public site are needed.
+ */
+test.describe('API Client - Booking Platform Endpoints', () => {
+  let standIn: RunningStandIn;
+
+  const booking: BookingData = {
+    checkInDate: '2030-03-10',
+    checkOutDate: '2030-03-13',
+    numberOfNights: 3,
+    guestDetails: TestData.VALID_BOOKING
+  };
+
+  test.beforeAll(async () => {
+    standIn = await new StandInApp().start();
+  });
+
+  test.afterAll(async () => {
+    await standIn.close();
+  });
+
+  test.beforeEach(() => {
+    standIn.store.reset();
+  });
+
+  test('should map rooms onto RoomData', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+
+    const rooms = await apiClient.getRooms();
+    const suite = await apiClient.getRoomByType(RoomType.SUITE);
+
+    expect(rooms.map(room => room.type)).toEqual([RoomType.SINGLE, RoomType.DOUBLE, RoomType.SUITE]);
+    expect(suite).toMatchObject({ type: RoomType.SUITE, price: 250, capacity: 6 });
+  });
+
+  test('should map the room type names of the API onto RoomType', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+    standIn.store.addRoom({ roomName: '201', type: 'Twin', accessible: false, capacity: 2, description: 'No RoomType member', features: [], roomPrice: 120 });
+
+    const rooms = await apiClient.getRooms();
+
+    expect(rooms.map(({ type, apiType }) => ({ type, apiType }))).toEqual([
+      { type: RoomType.SINGLE, apiType: 'Single' },
+      { type: RoomType.DOUBLE, apiType: 'Double' },
+      { type: RoomType.SUITE, apiType: 'Suite' },
+      { type: undefined, apiType: 'Twin' }
+    ]);
+  });
+
+  test('should create, list and delete a booking', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+    const room = await apiClient.getRoomByType(RoomType.DOUBLE);
+
+    const created = await apiClient.createBooking(room.roomId, booking);
+    expect(created).toMatchObject({ ...booking, roomType: RoomType.DOUBLE });
+
+    const available = await apiClient.getAvailableRooms('2030-03-11', '2030-03-12');
+    expect(available.map(candidate => candidate.roomId)).not.toContain(room.roomId);
+
+    await apiClient.login('admin', 'password');
+    const bookings = await apiClient.getBookings(room.roomId);
+    expect(bookings).toHaveLength(1);
+    expect(bookings[0].guestDetails.lastname).toBe(TestData.VALID_BOOKING.lastname);
+
+    await apiClient.deleteBooking(created.bookingId);
+    expect(await apiClient.getBookings(room.roomId)).toHaveLength(0);
+  });
+
+  test('should raise ApiRequestError with the validation messages', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+    const invalid: BookingData = { ...booking, guestDetails: TestData.EMPTY_FIRSTNAME };
+
+    const error = await apiClient.createBooking(1, invalid).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error.status).toBe(400);
+    expect(error.errors).toContain('Firstname should not be blank');
+  });
+
+  test('should raise ApiAuthenticationError for admin endpoints without a token', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+
+    await expect(apiClient.getBookings()).rejects.toBeInstanceOf(ApiAuthenticationError);
+    await expect(apiClient.login('admin', 'wrong')).rejects.toBeInstanceOf(ApiAuthenticationError);
+    expect(await apiClient.isAuthenticated()).toBe(false);
+  });
+
+  test('should deliver contact messages to the admin inbox', async ({ request }) => {
+    const apiClient = new ApiClient(request, standIn.url);
+    const sent = await apiClient.sendMessage({
+      name: 'John Doe',
+      email: 'john.doe@example.com',
+      phone: '01234567890',
+      subject: 'Late arrival',
+      description: 'We will arrive after 10pm, is that a problem?'
+    });
+
+    await apiClient.login('admin', 'password');
+    const inbox = await apiClient.getMessages();
+    expect(inbox).toContainEqual({ messageId: sent.messageId, name: 'John Doe', subject: 'Late arrival', read: false });
+
+    await apiClient.markMessageRead(sent.messageId);
+    expect((await apiClient.getMessage(sent.messageId)).read).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import { BookingFlow, BookingFlowPages } from '../helpers/BookingFlow';
+import { RoomType } from '../data/TestDataModels';
+import { DateUtils } from '../utils/DateUtils';
+
+/**
+ * Booking Flow Tests
+ *
+ * Runs the builder against recording page objects to check which stages it walks; no browser is started.
+ */
+test.describe('Booking Flow Builder', () => {
+
+  const recordingPages = () => {
+    const calls: string[] = [];
+    const record = (name: string, value?: unknown) => async (...args: unknown[]) => {
+      calls.push(args.length > 0 ? `${name}(${args.map(arg => JSON.stringify(arg)).join(', ')})` : name);
+      return value;
+    };
+    const stay = { checkIn: DateUtils.toDate('2026-11-02'), checkOut: DateUtils.toDate('2026-11-04'), nights: 2 };
+    const pages = {
+      homePage: { navigateAndVerify: record('home.navigateAndVerify'), clickHeroBookNow: record('home.clickHeroBookNow') },
+      roomsPage: { selectRoomByIndex: record('rooms.selectRoomByIndex'), selectRoom: record('rooms.selectRoom') },
+      reservationPage: {
+        verifyPageLoad: record('reservation.verifyPageLoad'),
+        getRoomId: () => 3,
+        getRoomType: record('reservation.getRoomType', ' Suite '),
+        selectStay: record('reservation.selectStay', stay),
+        verifyPricing: record('reservation.verifyPricing'),
+        getPriceSummaryLines: record('reservation.getPriceSummaryLines', [{ key: 'total', label: 'Total', amount: 579 }]),
+        proceedToCheckout: record('reservation.proceedToCheckout')
+      },
+      bookingFormPage: {
+        verifyFormFieldsVisible: record('form.verifyFormFieldsVisible'),
+        clearAllFields: record('form.clearAllFields'),
+        fillForm: record('form.fillForm')
+      },
+      confirmationPage: {}
+    };
+    return { calls, stay, pages: pages as unknown as BookingFlowPages };
+  };
+
+  test('should stop on the room list when nothing is configured', async () => {
+    const { calls, pages } = recordingPages();
+
+    const result = await BookingFlow.start(pages).run();
+
+    expect(result).toEqual({ stage: 'rooms', validationMessages: [], screenshots: [] });
+    expect(calls).toEqual(['home.navigateAndVerify', 'home.clickHeroBookNow']);
+  });
+
+  test('should walk only as far as the configured stages and report what it saw', async () => {
+    const { calls, stay, pages } = recordingPages();
+
+    const atReservation = await BookingFlow.start(pages)
+      .selectStay('2026-11-02', '2026-11-04')
+      .verifyPricing()
+      .run();
+    expect(atReservation).toEqual({
+      stage: 'reservation', roomId: 3, roomType: 'Suite', stay, displayedPrice: 579, validationMessages: [], screenshots: []
+    });
+    expect(calls).toContain('rooms.selectRoomByIndex(0)');
+    expect(calls).toContain('reservation.verifyPricing');
+    expect(calls).not.toContain('reservation.proceedToCheckout');
+
+    calls.length = 0;
+    const atForm = await BookingFlow.start(pages)
+      .fillGuest({ firstname: 'Ann' }, { clearFirst: true })
+      .selectRoom({ type: RoomType.SUITE })
+      .run();
+    expect(atForm.stage).toBe('bookingForm');
+    expect(calls).toContain('rooms.selectRoom({"type":"Suite"})');
+    expect(calls).not.toContain('reservation.verifyPricing');
+    expect(calls.slice(-4)).toEqual([
+      'reservation.proceedToCheckout', 'form.verifyFormFieldsVisible', 'form.clearAllFields', 'form.fillForm({"firstname":"Ann"})'
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { ApiClient } from '../services/ApiClient';
+import { BookingVerifier } from '../services/BookingVerifier';
+import { StandInApp, RunningStandIn } from '../stand-in/StandInApp';
+import { BookingData } from '../data/TestDataModels';
+import { TestData } from '../data/TestData';
+import { BookingVerificationError } from '../utils/CustomErrors';
+
+/**
+ * Booking Verifier Tests
+ *
+ * Stores bookings in a stand-in through the API and checks them from the admin side; no browser needed.
+ */
+test.describe('Booking Verifier', () => {
+  let standIn: RunningStandIn;
+
+  const credentials = () => ({ username: 'admin', password: 'password' });
+  const booking: BookingData = {
+    checkInDate: '2030-04-07',
+    checkOutDate: '2030-04-09',
+    numberOfNights: 2,
+    guestDetails: TestData.VALID_BOOKING
+  };
+  const expected = { roomId: 1, guest: TestData.VALID_BOOKING, checkIn: '2030-04-07', checkOut: '2030-04-09' };
+
+  test.beforeAll(async () => {
+    standIn = await new StandInApp().start();
+  });
+
+  test.afterAll(async () => {
+    await standIn.close();
+  });
+
+  test.beforeEach(() => {
+    standIn.store.reset();
+  });
+
+  test('should find the stored booking and delete it on cleanUp', async ({ request }) => {
+    await new ApiClient(request, standIn.url).createBooking(1, booking);
+    const verifier = new BookingVerifier(new ApiClient(request, standIn.url), credentials);
+
+    const stored = await verifier.verifyBookingStored({ ...expected, checkIn: new Date(Date.UTC(2030, 3, 7)) });
+    expect(stored).toMatchObject({ roomId: 1, checkInDate: '2030-04-07', checkOutDate: '2030-04-09' });
+
+    await verifier.cleanUp();
+    expect(standIn.store.getBookings()).toEqual([]);
+  });
+
+  test('should list the room bookings when none matches', async ({ request }) => {
+    await new ApiClient(request, standIn.url).createBooking(1, { ...booking, checkOutDate: '2030-04-10' });
+    const verifier = new BookingVerifier(new ApiClient(request, standIn.url), credentials);
+
+    const error = await verifier.verifyBookingStored(expected, 500).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(BookingVerificationError);
+    expect(error.message).toBe(
+      'No stored booking matches room 1, John Doe, 2030-04-07 to 2030-04-09; the room has:\n  - room 1, John Doe, 2030-04-07 to 2030-04-10'
+    );
+  });
+
+  test('should wait for a booking stored after verification starts', async ({ request }) => {
+    const verifier = new BookingVerifier(new ApiClient(request, standIn.url), credentials);
+
+    const verified = verifier.verifyBookingStored(expected, 5000);
+    setTimeout(() => standIn.store.addBooking({
+      roomid: 1,
+      firstname: 'John',
+      lastname: 'Doe',
+      email: 'john.doe@example.com',
+      phone: '01234567890',
+      depositpaid: false,
+      bookingdates: { checkin: '2030-04-07', checkout: '2030-04-09' }
+    }), 600);
+
+    await expect(verified).resolves.toMatchObject({ bookingId: 1 });
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect, BrowserContext } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { BrowserEventCapture, formatBrowserEvent } from '../services/BrowserEventCapture';
+
+/**
+ * Browser Event Capture Tests
+ *
+ * Drives the capture with emitted context events; no browser is started.
+ */
+test.describe('Browser Event Capture', () => {
+
+  const consoleMessage = (type: string, text: string) => ({
+    type: () => type,
+    text: () => text,
+    location: () => ({ url: 'http://localhost:3000/assets/reservation.js', lineNumber: 12, columnNumber: 4 })
+  });
+
+  const request = (method: string, url: string, errorText?: string) => ({
+    method: () => method,
+    url: () => url,
+    failure: () => (errorText ? { errorText } : null)
+  });
+
+  const response = (status: number, url: string) => ({
+    status: () => status,
+    statusText: () => (status === 404 ? 'Not Found' : 'OK'),
+    url: () => url,
+    request: () => request('GET', url)
+  });
+
+  test('should record console, page error and network events from the context', () => {
+    const context = new EventEmitter();
+    const capture = new BrowserEventCapture();
+    capture.attach(context as unknown as BrowserContext);
+
+    context.emit('console', consoleMessage('error', 'Booking could not be completed'));
+    context.emit('weberror', { error: () => new Error('boom'), page: () => null });
+    context.emit('requestfailed', request('POST', 'http://localhost:3000/api/booking', 'net::ERR_CONNECTION_RESET'));
+    context.emit('response', response(200, 'http://localhost:3000/api/room'));
+    context.emit('response', response(404, 'http://localhost:3000/api/room/99'));
+
+    expect(capture.getEvents().map(formatBrowserEvent)).toEqual([
+      '[console.error] Booking could not be completed (http://localhost:3000/assets/reservation.js:12)',
+      expect.stringMatching(/^\[pageerror\] Error: boom/),
+      '[requestfailed] POST http://localhost:3000/api/booking - net::ERR_CONNECTION_RESET',
+      '[response] 404 GET http://localhost:3000/api/room/99'
+    ]);
+
+    capture.detach();
+    context.emit('console', consoleMessage('log', 'after detach'));
+    expect(capture.getEvents()).toHaveLength(4);
+  });
+
+  test('should keep only the most recent events', () => {
+    const capture = new BrowserEventCapture(3);
+
+    for (let i = 1; i <= 5; i++) {
+      capture.record({ type: 'console', level: 'log', message: `message ${i}` });
+    }
+
+    expect(capture.getEvents().map(event => event.message)).toEqual(['message 3', 'message 4', 'message 5']);
+    expect(capture.droppedCount).toBe(2);
+  });
+
+  test('should skip ignored events and filter stored ones', () => {
+    const capture = new BrowserEventCapture();
+    capture.ignore({ type: 'console', message: /^\[HMR\]/ });
+
+    capture.record({ type: 'console', level: 'log', message: '[HMR] connected' });
+    capture.record({ type: 'console', level: 'warning', message: 'Deprecated API' });
+    capture.record({ type: 'response', message: 'Not Found', method: 'GET', url: 'https://automationintesting.online/favicon.ico', status: 404 });
+    capture.record({ type: 'response', message: 'Server Error', method: 'GET', url: 'https://automationintesting.online/api/room', status: 500 });
+
+    expect(capture.getEvents().map(event => event.message)).toEqual(['Deprecated API', 'Server Error']);
+    expect(capture.getEvents({ type: 'response', url: '/api/' })).toHaveLength(1);
+    expect(capture.countByType()).toEqual({ console: 1, pageerror: 0, requestfailed: 0, response: 1 });
+  });
+});
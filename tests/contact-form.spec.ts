@@ -0,0 +1,49 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestConfig } from '../config/TestConfig';
+import { dataLoader } from '../services/DataLoaderService';
+
+/**
+ * Contact Form Tests
+ *
+ * Negative cases come from data/contact-messages.yaml; the round trip
+ * reads the sent message back from the admin inbox.
+ */
+test.describe('Contact Form', () => {
+
+  test('should show the application messages for each invalid message', async ({ contactFormPage }) => {
+    const cases = await dataLoader.getContactValidationCases();
+
+    for (const { key, testCase, message } of cases) {
+      await test.step(`${key}: ${testCase.description}`, async () => {
+        await contactFormPage.navigateAndVerify();
+        await contactFormPage.fillForm(message);
+        await contactFormPage.submitForm();
+        await contactFormPage.verifyValidationMessages(testCase.expectedErrors);
+      });
+    }
+  });
+
+  test('should deliver a message to the admin inbox', { tag: '@destructive' }, async ({ contactFormPage, adminMessagesPage, guestData }) => {
+    test.skip(!TestConfig.hasAdminCredentials(), 'Set ADMIN_USERNAME and ADMIN_PASSWORD to read the admin inbox');
+
+    const guest = guestData.user({ asciiOnly: true });
+    const message = {
+      ...await dataLoader.getValidContactMessage(),
+      name: `${guest.firstname} ${guest.lastname}`,
+      email: guest.email,
+      subject: `Late arrival ${guestData.seed}`
+    };
+
+    await test.step('Send the message from the homepage', async () => {
+      await contactFormPage.navigateAndVerify();
+      await contactFormPage.sendMessage(message);
+    });
+
+    await test.step('Read it in the admin inbox', async () => {
+      await adminMessagesPage.navigateAndVerify();
+      expect(await adminMessagesPage.openMessage(message.subject)).toEqual(message);
+      await adminMessagesPage.closeMessage();
+      await adminMessagesPage.deleteMessage(message.subject);
+    });
+  });
+});
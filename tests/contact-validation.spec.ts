@@ -0,0 +1,40 @@
+import { test, expect, request as playwrightRequest } from '@playwright/test';
+import { StandInApp, RunningStandIn } from '../stand-in/StandInApp';
+import { dataLoader } from '../services/DataLoaderService';
+import { ValidationService } from '../services/ValidationService';
+
+/**
+ * Contact Validation Tests
+ *
+ * Checks the contact cases in the test data against ValidationService and
+ * the stand-in message API; no browser needed.
+ */
+test.describe('Contact Form Validation Rules', () => {
+
+  test('should accept the valid message', async () => {
+    const message = await dataLoader.getValidContactMessage();
+
+    expect(ValidationService.validateContactForm(message).allErrors).toEqual([]);
+  });
+
+  test('should predict the expected errors for every invalid message', async () => {
+    for (const { key, testCase, message } of await dataLoader.getContactValidationCases()) {
+      expect(ValidationService.validateContactForm(message).allErrors, key).toEqual(testCase.expectedErrors);
+    }
+  });
+
+  test('should match the errors returned by the message API', async () => {
+    const standIn: RunningStandIn = await new StandInApp().start();
+    const api = await playwrightRequest.newContext({ baseURL: standIn.url });
+    try {
+      for (const { key, testCase, message } of await dataLoader.getContactValidationCases()) {
+        const response = await api.post('/api/message', { data: message });
+        expect(response.status(), key).toBe(400);
+        expect((await response.json()).errors, key).toEqual(testCase.expectedErrors);
+      }
+    } finally {
+      await api.dispose();
+      await standIn.close();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { DateUtils } from '../utils/DateUtils';
+import { CalendarDateError } from '../utils/CustomErrors';
+
+/**
+ * Date Utils Tests
+ *
+ * Month arithmetic and calendar labels behind the reservation page's month navigation; no browser is started.
+ */
+test.describe('Date Utils', () => {
+
+  const iso = (date: Date) => DateUtils.toIsoDate(date);
+
+  test('should move to the first of a month across month ends and years', () => {
+    expect(iso(DateUtils.addMonths('2026-01-31', 1))).toBe('2026-02-01');
+    expect(iso(DateUtils.addMonths('2026-03-31', -1))).toBe('2026-02-01');
+    expect(iso(DateUtils.addMonths('2026-12-15', 1))).toBe('2027-01-01');
+    expect(iso(DateUtils.addMonths('2026-01-01', -1))).toBe('2025-12-01');
+    expect(iso(DateUtils.addMonths('2026-05-20', 0))).toBe('2026-05-01');
+    expect(DateUtils.monthsBetween('2026-11-30', '2027-02-01')).toBe(3);
+    expect(DateUtils.monthsBetween('2027-02-01', '2026-11-30')).toBe(-3);
+  });
+
+  test('should build days of a month and refuse days the month does not have', () => {
+    expect(iso(DateUtils.dayOfMonth('2026-02-10', '01'))).toBe('2026-02-01');
+    expect(iso(DateUtils.dayOfMonth('2028-02-01', '29'))).toBe('2028-02-29');
+    expect(iso(DateUtils.dayOfMonth('2026-12-01', '31'))).toBe('2026-12-31');
+    expect(() => DateUtils.dayOfMonth('2026-02-01', '29')).toThrow(CalendarDateError);
+    expect(() => DateUtils.dayOfMonth('2026-11-01', '31')).toThrow('No such day in November 2026: "31"');
+    expect(() => DateUtils.dayOfMonth('2026-11-01', '00')).toThrow(CalendarDateError);
+  });
+
+  test('should count nights and format ranges for stays that span months', () => {
+    expect(DateUtils.nightsBetween('2026-01-31', '2026-02-02')).toBe(2);
+    expect(DateUtils.nightsBetween('2026-12-31', '2027-01-01')).toBe(1);
+    expect(DateUtils.formatRange('2026-01-31', DateUtils.addDays('2026-01-31', 2))).toBe('2026-01-31 - 2026-02-02');
+    expect(DateUtils.formatRange(new Date(Date.UTC(2026, 11, 31, 23, 30)), '2027-01-01')).toBe('2026-12-31 - 2027-01-01');
+  });
+
+  test('should read and write calendar labels', () => {
+    expect(DateUtils.dayLabel('2026-03-05')).toBe('05');
+    expect(DateUtils.monthLabel('2026-09-30')).toBe('September 2026');
+    expect(iso(DateUtils.parseMonthLabel(' september 2026 '))).toBe('2026-09-01');
+    expect(() => DateUtils.parseMonthLabel('Sept 2026')).toThrow('Unrecognised month label');
+    expect(() => DateUtils.toDate('2026-02-30')).toThrow('Invalid calendar date');
+  });
+});
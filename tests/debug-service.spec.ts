@@ -0,0 +1,55 @@
+import { test, expect, BrowserContext, Page } from '@playwright/test';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import { debugService, debugStep, DebugReport } from '../services/DebugService';
+
+/**
+ * Debug Service Tests
+ *
+ * Uses a stand-in page and context so the report and attachments can be checked without a browser.
+ */
+test.describe('Debug Service Reporting', () => {
+
+  const fakePage = () => ({
+    url: () => 'http://localhost:3000/reservation/1',
+    title: async () => 'Shady Meadows B&B',
+    content: async () => '<html><body><button id="doReservation">Reserve Now</button></body></html>',
+    screenshot: async ({ path }: { path: string }) => fs.writeFileSync(path, 'png'),
+    viewportSize: () => ({ width: 1280, height: 720 }),
+    evaluate: async () => 'fake-agent'
+  }) as unknown as Page;
+
+  test('should write debug-report.json and attach the artifacts to the test', async ({}, testInfo) => {
+    const testName = testInfo.title;
+    const context = new EventEmitter();
+    const page = fakePage();
+
+    await debugService.initializeTest(testName, context as unknown as BrowserContext, testInfo);
+    await debugStep(testName, 'Open reservation', 'Open room 1', 'goto', 'Calendar shown', page, async () => {});
+    context.emit('response', {
+      status: () => 409,
+      statusText: () => 'Conflict',
+      url: () => 'http://localhost:3000/api/booking',
+      request: () => ({ method: () => 'POST' })
+    });
+    await expect(
+      debugStep(testName, 'Reserve', 'Submit booking', 'click', 'Confirmation shown', page, async () => {
+        throw new Error('Booking Confirmed not shown');
+      })
+    ).rejects.toThrow('Booking Confirmed not shown');
+    await debugService.finalizeTest(testName, context as unknown as BrowserContext, false);
+
+    const report: DebugReport = JSON.parse(fs.readFileSync(testInfo.outputPath('debug', 'debug-report.json'), 'utf8'));
+    expect(report.success).toBe(false);
+    expect(report.steps.map(step => [step.stepName, step.success])).toEqual([['Open reservation', true], ['Reserve', false]]);
+    expect(report.steps[1].errorDetails.networkErrors).toEqual(['[response] 409 POST http://localhost:3000/api/booking']);
+    expect(report.browserEvents.counts.response).toBe(1);
+    expect(report.artifacts.map(artifact => artifact.name)).toEqual(['step-2-error', 'step-2-error-html']);
+
+    expect(testInfo.attachments.map(attachment => [attachment.name, attachment.contentType])).toEqual([
+      ['step-2-error', 'image/png'],
+      ['step-2-error-html', 'text/html'],
+      ['debug-report', 'application/json']
+    ]);
+  });
+});
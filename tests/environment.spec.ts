@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { DESTRUCTIVE_TAG, EnvironmentDefinitions, EnvironmentResolver } from '../config/EnvironmentResolver';
+import { TestConfig } from '../config/TestConfig';
+import { ConfigurationError } from '../utils/CustomErrors';
+
+/**
+ * Environment Tests
+ *
+ * Resolves environments from the shipped test data and hand-written variables; no browser is started.
+ */
+test.describe('Environment Resolver', () => {
+
+  const definitions: EnvironmentDefinitions = EnvironmentResolver.readDefinitions(TestConfig.TEST_DATA_DIR);
+  const standInUrl = 'http://localhost:3000/';
+
+  test('should select production by default and the named environment with TEST_ENV', () => {
+    expect(EnvironmentResolver.resolve(definitions, {}, standInUrl)).toEqual({
+      name: 'production', baseUrl: 'https://automationintesting.online/', timeout: 10000, retries: 2, protected: true
+    });
+    expect(EnvironmentResolver.resolve(definitions, { TEST_ENV: 'staging' }, standInUrl)).toMatchObject({
+      name: 'staging', baseUrl: 'https://staging.automationintesting.online/', timeout: 15000, retries: 3, protected: false
+    });
+    expect(() => EnvironmentResolver.resolve(definitions, { TEST_ENV: 'qa' }, standInUrl))
+      .toThrow(new ConfigurationError('TEST_ENV', '"qa" is not a known environment (one of production, staging, development)'));
+  });
+
+  test('should point at the stand-in and never protect it', () => {
+    expect(EnvironmentResolver.resolve(definitions, { STAND_IN: 'true' }, 'http://localhost:4000/')).toMatchObject({
+      name: 'development', baseUrl: 'http://localhost:4000/', protected: false
+    });
+    expect(EnvironmentResolver.resolve(definitions, { STAND_IN: 'true', TEST_ENV: 'production' }, standInUrl)).toMatchObject({
+      baseUrl: standInUrl, protected: false
+    });
+  });
+
+  test('should refuse destructive tests only on protected environments', () => {
+    const production = EnvironmentResolver.resolve(definitions, {}, standInUrl);
+    const staging = EnvironmentResolver.resolve(definitions, { TEST_ENV: 'staging' }, standInUrl);
+
+    expect(EnvironmentResolver.refusal(production, [DESTRUCTIVE_TAG])).toContain('refused on the protected "production" environment');
+    expect(EnvironmentResolver.refusal(production, ['@smoke'])).toBeNull();
+    expect(EnvironmentResolver.refusal(staging, [DESTRUCTIVE_TAG])).toBeNull();
+  });
+});
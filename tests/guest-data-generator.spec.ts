@@ -0,0 +1,64 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { GuestDataGenerator, GuestRuleViolation } from '../data/GuestDataGenerator';
+import { ValidationService } from '../services/ValidationService';
+import { DateUtils } from '../utils/DateUtils';
+
+/**
+ * Guest Data Generator Tests
+ *
+ * Checks that generated guests are reproducible and respect (or break) the validation rules.
+ */
+test.describe('Guest Data Generator', () => {
+
+  const VIOLATED_FIELDS: Record<GuestRuleViolation, string> = {
+    firstnameBlank: 'firstname',
+    firstnameTooShort: 'firstname',
+    firstnameTooLong: 'firstname',
+    lastnameBlank: 'lastname',
+    lastnameTooShort: 'lastname',
+    lastnameTooLong: 'lastname',
+    emailBlank: 'email',
+    emailInvalid: 'email',
+    phoneTooShort: 'phone',
+    phoneTooLong: 'phone'
+  };
+
+  test('should produce the same guests for the same seed', () => {
+    const first = new GuestDataGenerator(20250901);
+    const second = new GuestDataGenerator(20250901);
+
+    const guests = [first.user({ withTitle: true, withAddress: true }), first.booking()];
+    expect([second.user({ withTitle: true, withAddress: true }), second.booking()]).toEqual(guests);
+    expect(new GuestDataGenerator(20250902).user()).not.toEqual(guests[0]);
+  });
+
+  test('should generate guests that pass every validation rule', () => {
+    const generator = new GuestDataGenerator(42);
+
+    for (let i = 0; i < 200; i++) {
+      const user = generator.user();
+      expect(ValidationService.validateCompleteForm(user).allErrors, JSON.stringify(user)).toEqual([]);
+    }
+  });
+
+  test('should break only the requested rule', () => {
+    const generator = new GuestDataGenerator(7);
+
+    for (const [violation, field] of Object.entries(VIOLATED_FIELDS)) {
+      for (let i = 0; i < 20; i++) {
+        const user = generator.user({ violate: violation as GuestRuleViolation });
+        const summary = ValidationService.validateCompleteForm(user);
+        const failedFields = summary.results.filter(result => result.hasErrors).map(result => result.fieldName);
+        expect(failedFields, `${violation}: ${JSON.stringify(user)}`).toEqual([field]);
+      }
+    }
+  });
+
+  test('should keep booking dates and nights consistent', ({ guestData }) => {
+    const booking = guestData.booking({ nights: 3 });
+
+    expect(DateUtils.nightsBetween(booking.checkInDate, booking.checkOutDate)).toBe(3);
+    expect(DateUtils.toDate(booking.checkInDate) > DateUtils.today()).toBe(true);
+    expect(test.info().annotations).toContainEqual({ type: 'seed', description: `TEST_DATA_SEED=${guestData.seed}` });
+  });
+});
@@ -0,0 +1,31 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestData, ValidationMessages } from '../data/TestData';
+import { KeyboardActions } from '../utils/PageUtils';
+
+/**
+ * Keyboard Booking Tests
+ *
+ * The booking journey pages move focus with Tab/Shift+Tab and press
+ * Enter/Space; nothing is clicked.
+ */
+test.describe('Keyboard-only Booking', () => {
+  test.use({ inputMode: 'keyboard' });
+
+  test('should reach the booking form and submit it with the keyboard only', async ({ bookingFlow }) => {
+    const result = await bookingFlow
+      .selectRoom({ index: 0 })
+      .selectStay(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT)
+      .fillGuest(TestData.EMPTY_EMAIL)
+      .expectValidationErrors(ValidationMessages.EMPTY_EMAIL)
+      .run();
+
+    expect(result.stage).toBe('submitted');
+  });
+
+  test('should name the element that focus cannot reach', async ({ page }) => {
+    await page.setContent('<a href="#top">Home</a><button type="button" tabindex="-1">Reserve Now</button>');
+
+    await expect(KeyboardActions.activate(page, page.getByRole('button', { name: 'Reserve Now' }), 'Reserve Now button'))
+      .rejects.toThrow(/could not reach Reserve Now button: \d+ presses of Tab never focused it/);
+  });
+});
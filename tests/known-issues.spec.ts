@@ -0,0 +1,93 @@
+import { test, expect, Page, TestInfo } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { KnownIssue, KnownIssueMonitor, KnownIssueRegistry } from '../services/KnownIssues';
+import { DateUtils } from '../utils/DateUtils';
+import { KnownIssueError, TestDataSchemaError } from '../utils/CustomErrors';
+
+/**
+ * Known Issues Tests
+ *
+ * Checks the registry file handling and the monitor's verdicts with a stand-in page; no browser is started.
+ */
+test.describe('Known Issues', () => {
+
+  const issue: KnownIssue = {
+    id: 'client-side-exception',
+    title: 'Booking page crashes',
+    matcher: { pageText: 'Application error', consoleError: '/TypeError: .*undefined/' },
+    tests: ['Booking › should book a room'],
+    expires: '2027-01-31',
+    baseUrl: 'https://automationintesting.online/'
+  };
+
+  const fakePage = (bodyText: string) => {
+    const page = new EventEmitter() as EventEmitter & Record<string, unknown>;
+    page.url = () => 'https://automationintesting.online/reservation/1';
+    page.locator = () => ({ innerText: async () => bodyText });
+    return page;
+  };
+
+  const fakeTestInfo = (status: TestInfo['status']) => {
+    const info = { status, annotations: [] as TestInfo['annotations'], expectedStatus: 'passed' };
+    return Object.assign(info, { fail: (_condition: boolean, description: string) => {
+      info.expectedStatus = 'failed';
+      info.annotations.push({ type: 'fail', description });
+    } });
+  };
+
+  test('should load the project file and report every schema problem', () => {
+    expect(KnownIssueRegistry.load().issues.length).toBeGreaterThan(0);
+
+    const parse = () => KnownIssueRegistry.parse([
+      'knownIssues:',
+      '  - id: broken',
+      '    title: Broken',
+      '    matcher: {}',
+      '    tests: [Booking]',
+      '    expires: next week',
+      '  - id: broken',
+      '    title: Broken again',
+      '    matcher: { url: /error }',
+      '    tests: [Booking]',
+      '    expires: 2027-01-31'
+    ].join('\n'), 'inline issues');
+
+    expect(parse).toThrow(TestDataSchemaError);
+    expect(parse).toThrow(/needs at least one of pageText, url, consoleError/);
+    expect(parse).toThrow(/expected a YYYY-MM-DD date, got "next week"/);
+    expect(parse).toThrow(/duplicate id "broken"/);
+  });
+
+  test('should select issues by test path and base URL and fail once expired', () => {
+    const registry = new KnownIssueRegistry([issue]);
+    const titlePath = ['booking.spec.ts', 'Booking', 'should book a room'];
+
+    expect(registry.forTest(titlePath, 'https://automationintesting.online/')).toEqual([issue]);
+    expect(registry.forTest(titlePath, 'http://localhost:3000/')).toEqual([]);
+    expect(registry.forTest(['booking.spec.ts', 'Booking', 'should show rooms'], 'https://automationintesting.online/')).toEqual([]);
+
+    expect(() => KnownIssueRegistry.assertNotExpired([issue], DateUtils.toDate('2027-01-31'))).not.toThrow();
+    expect(() => KnownIssueRegistry.assertNotExpired([issue], DateUtils.toDate('2027-02-01')))
+      .toThrow(new KnownIssueError(issue.id, 'expired on 2027-01-31; check whether it still reproduces, then remove the entry or move its expiry date'));
+  });
+
+  test('should mark reproduced failures as expected and fail passes without the issue', async () => {
+    const crashed = fakePage('Application error: a client-side exception has occurred');
+    const crashedMonitor = new KnownIssueMonitor(crashed as unknown as Page, [issue]);
+    crashed.emit('pageerror', new Error("TypeError: Cannot read properties of undefined (reading 'map')"));
+    const failed = fakeTestInfo('failed');
+    await crashedMonitor.settle(failed as unknown as TestInfo);
+    expect(failed.expectedStatus).toBe('failed');
+    expect(failed.annotations.map(annotation => annotation.type)).toEqual(['known-issue', 'fail']);
+
+    const textOnly = fakePage('Application error: a client-side exception has occurred');
+    const unmatched = fakeTestInfo('failed');
+    await new KnownIssueMonitor(textOnly as unknown as Page, [issue]).settle(unmatched as unknown as TestInfo);
+    expect(unmatched.expectedStatus).toBe('passed');
+    expect(unmatched.annotations).toEqual([]);
+
+    const healthy = fakePage('Booking Confirmed');
+    await expect(new KnownIssueMonitor(healthy as unknown as Page, [issue]).settle(fakeTestInfo('passed') as unknown as TestInfo))
+      .rejects.toThrow(/Known issue client-side-exception did not reproduce and the test passed/);
+  });
+});
@@ -0,0 +1,70 @@
+import { test, expect, Locator, Page } from '@playwright/test';
+import { LocatorRegistry } from '../utils/LocatorRegistry';
+import { summariseDrift } from '../reporters/LocatorDriftReporter';
+
+/**
+ * Locator Registry Tests
+ *
+ * Resolves strategies against a stand-in page that reports which selectors exist; no browser is started.
+ */
+interface FakeLocator {
+  selector: string;
+  count(): Promise<number>;
+  or(other: FakeLocator): FakeLocator;
+  first(): { waitFor(): Promise<void> };
+}
+
+test.describe('Locator Registry', () => {
+
+  test.beforeEach(() => LocatorRegistry.reset());
+
+  const fakePage = (present: string[]) => {
+    const locator = (selector: string): FakeLocator => ({
+      selector,
+      count: async () => (present.includes(selector) ? 1 : 0),
+      or: other => locator(`${selector} | ${other.selector}`),
+      first: () => ({ waitFor: async () => undefined })
+    });
+    return {
+      getByRole: (role: string) => locator(`role=${role}`),
+      getByPlaceholder: (text: string) => locator(`placeholder=${text}`),
+      locator: (css: string) => locator(`css=${css}`)
+    } as unknown as Page;
+  };
+
+  const selectorOf = (locator: Locator) => (locator as unknown as FakeLocator).selector;
+
+  const registry = new LocatorRegistry({
+    'form.firstname': [{ role: 'textbox', name: 'Firstname' }, { placeholder: 'Firstname' }, { css: 'input[name="firstname"]' }],
+    'form.submit': [{ role: 'button', name: 'Reserve Now' }, { css: '#doReservation' }]
+  });
+
+  test('should use the first strategy that matches and record drift from the primary one', async () => {
+    const page = fakePage(['placeholder=Firstname', 'css=input[name="firstname"]', 'role=button']);
+
+    expect(selectorOf(await registry.resolve(page, 'form.firstname'))).toBe('placeholder=Firstname');
+    expect(selectorOf(await registry.resolve(page, 'form.submit'))).toBe('role=button');
+    expect(LocatorRegistry.getDrift()).toEqual([
+      { element: 'form.firstname', primary: 'role=textbox[name=Firstname]', matched: 'placeholder=Firstname', fallbackIndex: 1 }
+    ]);
+
+    expect(selectorOf(await registry.resolve(fakePage([]), 'form.submit', 10))).toBe('role=button');
+    expect(LocatorRegistry.getDrift().map(resolution => [resolution.element, resolution.matched])).toEqual([
+      ['form.firstname', 'placeholder=Firstname'],
+      ['form.submit', null]
+    ]);
+    expect(() => registry.locate(page, 'form.lastname')).toThrow('No locator strategies registered for element "form.lastname"');
+  });
+
+  test('should summarise drift per element across tests', () => {
+    const firstname = { element: 'form.firstname', primary: 'role=textbox[name=Firstname]', matched: 'placeholder=Firstname', fallbackIndex: 1 };
+
+    expect(summariseDrift([
+      { test: 'booking › fills the form', resolutions: [firstname] },
+      { test: 'booking › validates the form', resolutions: [firstname, { ...firstname, element: 'form.submit', primary: 'role=button', matched: null, fallbackIndex: -1 }] }
+    ])).toEqual([
+      { element: 'form.firstname', primary: 'role=textbox[name=Firstname]', matchedBy: ['placeholder=Firstname'], tests: ['booking › fills the form', 'booking › validates the form'] },
+      { element: 'form.submit', primary: 'role=button', matchedBy: [null], tests: ['booking › validates the form'] }
+    ]);
+  });
+});
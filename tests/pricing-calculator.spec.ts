@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { PricingCalculator } from '../services/PricingCalculator';
+import { dataLoader } from '../services/DataLoaderService';
+import { RoomType } from '../data/TestDataModels';
+import { TestError } from '../utils/CustomErrors';
+
+/**
+ * Pricing Calculator Tests
+ *
+ * Pure calculation checks; no browser is started.
+ */
+test.describe('Pricing Calculator', () => {
+
+  test('should match the one-night totals in the test data', async () => {
+    const data = await dataLoader.loadTestData();
+
+    expect(PricingCalculator.calculate(RoomType.SINGLE, 1).total).toBe(data.pricing.singleRoomTotal);
+    expect(PricingCalculator.calculate(RoomType.DOUBLE, 1).total).toBe(data.pricing.doubleRoomTotal);
+    expect(PricingCalculator.calculate(RoomType.SUITE, 1).total).toBe(data.pricing.suiteTotal);
+  });
+
+  test('should price the extended 7-night suite stay', async () => {
+    const booking = await dataLoader.getBookingScenario('extendedStay');
+
+    const breakdown = PricingCalculator.calculate(booking.roomType!, booking.numberOfNights);
+
+    expect(breakdown.lines).toEqual([
+      { key: 'roomRate', label: '£250 x 7 nights', amount: 1750 },
+      { key: 'cleaningFee', label: 'Cleaning fee', amount: 25 },
+      { key: 'serviceFee', label: 'Service fee', amount: 15 },
+      { key: 'total', label: 'Total', amount: 1790 }
+    ]);
+  });
+
+  test('should add a tax line when a tax rate applies', async () => {
+    const breakdown = PricingCalculator.calculate(RoomType.DOUBLE, 2, { taxRate: 0.2 });
+
+    expect(breakdown.getLine('tax')?.amount).toBe(68);
+    expect(breakdown.total).toBe(408);
+    expect(breakdown.toPricingData()).toEqual({ roomRate: 150, cleaningFee: 25, serviceFee: 15, taxRate: 0.2, total: 408 });
+  });
+
+  test('should refuse a stay that is not a whole number of nights', async () => {
+    expect(() => PricingCalculator.calculate(RoomType.SINGLE, 0)).toThrow(TestError);
+    expect(() => PricingCalculator.calculate(RoomType.SINGLE, 1.5)).toThrow('positive whole number, got: 1.5');
+  });
+
+  test('should report which displayed line is wrong', async () => {
+    const breakdown = PricingCalculator.calculate(RoomType.SINGLE, 2);
+
+    const differences = breakdown.diff([
+      { key: 'roomRate', label: '£100 x 1 nights', amount: 100 },
+      { key: 'cleaningFee', label: 'Cleaning fee', amount: 25 },
+      { key: 'total', label: 'Total', amount: 240 }
+    ]);
+
+    expect(differences).toEqual([
+      { key: 'roomRate', label: '£100 x 2 nights (displayed as "£100 x 1 nights")', expected: 200, actual: 100 },
+      { key: 'serviceFee', label: 'Service fee', expected: 15, actual: undefined }
+    ]);
+  });
+});
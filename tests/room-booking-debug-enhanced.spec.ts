@@ -9,8 +9,9 @@
  * - Comprehensive error tracking
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/test-fixtures';
 import { debugService, debugStep, measurePerformance } from '../services/DebugService';
+import { TestConfig } from '../config/TestConfig';
 
 // Enable VS Code debugging integration
 debugService.setupVSCodeDebugging();
@@ -31,7 +32,7 @@ test.describe('Room Booking Application - Enhanced Debugging', () => {
     await debugService.finalizeTest(testInfo.title, context, success);
   });
 
-  test('Room Booking Scenario - Advanced Debugging Demo', async ({ page }, testInfo) => {
+  test('Room Booking Scenario - Advanced Debugging Demo', { tag: '@destructive' }, async ({ page }, testInfo) => {
     const testName = testInfo.title;
     
     // Step 1: Navigate to homepage with performance monitoring
@@ -39,12 +40,12 @@ test.describe('Room Booking Application - Enhanced Debugging', () => {
       testName,
       'Navigate to Homepage',
       'Navigate to the room booking application homepage',
-      'page.goto("https://automationintesting.online/")',
+      `page.goto("${TestConfig.BASE_URL}")`,
       'Homepage should load successfully with hero section visible',
       page,
       async () => {
         const { result, duration } = await measurePerformance('Homepage Navigation', async () => {
-          await page.goto('https://automationintesting.online/');
+          await page.goto(TestConfig.BASE_URL);
           return page.waitForLoadState('networkidle');
         });
         
@@ -298,7 +299,7 @@ test.describe('Room Booking Application - Enhanced Debugging', () => {
     
     // This test demonstrates focused debugging for validation scenarios
     await debugStep(testName, 'Setup for Email Validation Test', 'Navigate and setup for email validation test', 'Navigate to booking form', 'Should reach booking form', page, async () => {
-      await page.goto('https://automationintesting.online/');
+      await page.goto(TestConfig.BASE_URL);
       await page.getByRole('link', { name: /book now/i }).first().click();
       await page.getByRole('link', { name: /book now/i }).nth(1).click();
       await expect(page).toHaveURL(/\/reservation/);
@@ -1,165 +1,85 @@
-import { test, expect } from '../fixtures/test-fixtures';
-import { BookingFlowHelper } from '../helpers/BookingFlowHelper';
+import { test } from '../fixtures/test-fixtures';
 import { TestData, ValidationMessages } from '../data/TestData';
 
 test.describe('Room Booking Tests - Best Practices Implementation', () => {
-  
-  test('Complete Room Booking Flow - End to End Test', async ({ 
-    homePage, 
-    roomsPage, 
-    reservationPage, 
-    bookingFormPage, 
-    confirmationPage 
+
+  test('Complete Room Booking Flow - End to End Test', { tag: '@destructive' }, async ({
+    bookingFlow,
+    bookingFormPage,
+    confirmationPage
   }) => {
-    // ARRANGE: Set up test data and initialize helper
-    const bookingHelper = new BookingFlowHelper(homePage, roomsPage, reservationPage, bookingFormPage);
+    // ARRANGE: Set up test data
     const validBookingData = TestData.VALID_BOOKING;
     const invalidBookingData = TestData.EMPTY_FIRSTNAME;
-    
-    // ACT & ASSERT: Navigate through booking flow
-    await bookingHelper.navigateToBookingForm();
-    
-    // ACT: Test validation with invalid data first
-    await bookingFormPage.fillForm(invalidBookingData);
-    await bookingFormPage.submitForm();
-    
-    // ASSERT: Verify validation messages
-    await bookingFormPage.verifyValidationAlert();
-    await bookingFormPage.verifyMultipleValidationMessages(ValidationMessages.EMPTY_FIRSTNAME);
-    
+
+    // ACT & ASSERT: Navigate to the form and test validation with invalid data first
+    await bookingFlow
+      .verifyPricing()
+      .fillGuest(invalidBookingData)
+      .expectValidationErrors(ValidationMessages.EMPTY_FIRSTNAME)
+      .run();
+
     // ACT: Fill form with valid data
     await bookingFormPage.fillForm({ firstname: validBookingData.firstname });
     await bookingFormPage.submitForm();
-    
-    // ASSERT: Handle both possible outcomes (success or known error)
-    try {
-      await confirmationPage.verifyBookingConfirmation(TestData.DATES.EXPECTED_RANGE);
-      console.log('✅ Booking confirmation displayed successfully');
-    } catch (confirmationError) {
-      try {
-        await confirmationPage.verifyApplicationError();
-        console.log('⚠️ Application error occurred as expected - known website issue');
-      } catch (errorCheckFailed) {
-        throw new Error('Form submission resulted in unexpected state');
-      }
-    }
-    
+
+    // ASSERT: Verify confirmation (known application errors are handled by config/known-issues.yaml)
+    await confirmationPage.verifyBookingConfirmation(TestData.DATES.EXPECTED_RANGE);
+    console.log('✅ Booking confirmation displayed successfully');
+
     console.log('✅ Complete booking flow test completed successfully');
   });
 
-  test('Email Field Validation - Empty Email Test', async ({ 
-    homePage, 
-    roomsPage, 
-    reservationPage, 
-    bookingFormPage 
-  }) => {
-    // ARRANGE: Set up test data and helper
-    const bookingHelper = new BookingFlowHelper(homePage, roomsPage, reservationPage, bookingFormPage);
-    const emptyEmailData = TestData.EMPTY_EMAIL;
-    const expectedMessages = ValidationMessages.EMPTY_EMAIL;
-    
-    // ACT & ASSERT: Perform validation test using helper
-    await bookingHelper.performValidationTest(
-      emptyEmailData,
-      expectedMessages,
-      'email-validation'
-    );
-    
+  test('Email Field Validation - Empty Email Test', async ({ bookingFlow }) => {
+    // ACT & ASSERT: Submit the form without an email
+    await bookingFlow
+      .fillGuest(TestData.EMPTY_EMAIL)
+      .expectValidationErrors(ValidationMessages.EMPTY_EMAIL)
+      .captureScreenshots('email-validation')
+      .run();
+
     console.log('✅ Email validation test completed successfully');
   });
 
-  test('All Fields Empty Validation - Comprehensive Form Validation', async ({ 
-    homePage, 
-    roomsPage, 
-    reservationPage, 
-    bookingFormPage 
-  }) => {
-    // ARRANGE: Set up test data and helper
-    const bookingHelper = new BookingFlowHelper(homePage, roomsPage, reservationPage, bookingFormPage);
-    const emptyFormData = TestData.ALL_EMPTY;
+  test('All Fields Empty Validation - Comprehensive Form Validation', async ({ bookingFlow }) => {
+    // ARRANGE: Set up expected messages
     const expectedMessages = ValidationMessages.ALL_FIELDS_EMPTY;
-    
-    // ACT: Navigate to form
-    await bookingHelper.navigateToBookingForm();
-    
-    // Take before screenshot
-    await bookingFormPage.takeScreenshot('test-results/booking-form-before-submission.png');
-    
-    // ACT: Clear all fields explicitly and submit
-    await bookingFormPage.clearAllFields();
-    await bookingFormPage.submitForm();
-    
-    // Wait for validation
-    await bookingFormPage.page.waitForTimeout(1000);
-    
-    // ASSERT: Verify validation with screenshots
-    await bookingFormPage.takeScreenshot('test-results/all-fields-empty-validation-errors.png');
-    await bookingFormPage.verifyValidationAlert();
-    
-    console.log('🔍 Checking validation errors for all empty fields...');
-    
-    // ASSERT: Verify each validation message
-    for (const message of expectedMessages) {
-      await bookingFormPage.verifyValidationMessage(message);
-      console.log(`✅ Verified validation message: ${message}`);
-    }
-    
-    // ASSERT: Take focused screenshot and verify page state
-    await bookingFormPage.takeValidationAlertScreenshot('test-results/validation-alert-closeup.png');
-    
+
+    // ACT & ASSERT: Clear all fields explicitly, submit and verify each message with screenshots
+    const result = await bookingFlow
+      .fillGuest(TestData.ALL_EMPTY, { clearFirst: true })
+      .expectValidationErrors(expectedMessages)
+      .captureScreenshots('all-fields-empty')
+      .run();
+
     // Log complete validation text for debugging
-    const validationText = await bookingFormPage.getValidationText();
-    console.log('📋 Complete validation message:', validationText);
-    
-    // ASSERT: Verify form is still on reservation page
-    await bookingFormPage.verifyStillOnReservationPage();
-    
+    console.log('📋 Complete validation message:', result.validationMessages);
+    console.log(`📸 Screenshots: ${result.screenshots.join(', ')}`);
+
     console.log('✅ All fields empty validation test completed with screenshots');
   });
 
-  test('Firstname Validation - Single Field Test', async ({ 
-    homePage, 
-    roomsPage, 
-    reservationPage, 
-    bookingFormPage 
-  }) => {
-    // ARRANGE: Set up test data for firstname-only validation
-    const bookingHelper = new BookingFlowHelper(homePage, roomsPage, reservationPage, bookingFormPage);
-    const emptyFirstnameData = TestData.EMPTY_FIRSTNAME;
-    const expectedMessages = ValidationMessages.EMPTY_FIRSTNAME;
-    
-    // ACT & ASSERT: Perform validation test
-    await bookingHelper.performValidationTest(
-      emptyFirstnameData,
-      expectedMessages,
-      'firstname-validation'
-    );
-    
+  test('Firstname Validation - Single Field Test', async ({ bookingFlow }) => {
+    // ACT & ASSERT: Submit the form without a firstname
+    await bookingFlow
+      .fillGuest(TestData.EMPTY_FIRSTNAME)
+      .expectValidationErrors(ValidationMessages.EMPTY_FIRSTNAME)
+      .captureScreenshots('firstname-validation')
+      .run();
+
     console.log('✅ Firstname validation test completed successfully');
   });
 });
 
 test.describe('Price Validation Tests', () => {
-  
-  test('Price Calculation Verification', async ({ 
-    homePage, 
-    roomsPage, 
-    reservationPage 
-  }) => {
-    // ARRANGE: Set up test data
-    const checkInDate = TestData.DATES.CHECK_IN;
-    const checkOutDate = TestData.DATES.CHECK_OUT;
-    
-    // ACT: Navigate through booking flow to price calculation
-    await homePage.navigate();
-    await homePage.clickHeroBookNow();
-    await roomsPage.selectFirstAvailableRoom();
-    await reservationPage.verifyPageLoad();
-    await reservationPage.selectDates(checkInDate, checkOutDate);
-    
-    // ASSERT: Verify price calculation
-    await reservationPage.verifyPricing();
-    
-    console.log('✅ Price calculation verification completed successfully');
+
+  test('Price Calculation Verification', async ({ bookingFlow }) => {
+    // ACT & ASSERT: Stop on the reservation page once the Price Summary is verified
+    const result = await bookingFlow
+      .selectStay(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT)
+      .verifyPricing()
+      .run();
+
+    console.log(`✅ Price calculation verification completed successfully (${result.roomType}, total £${result.displayedPrice})`);
   });
 });
@@ -2,7 +2,7 @@ import { test, expect } from '../fixtures/test-fixtures';
 import { TestConfig } from '../config/TestConfig';
 import { TestData, ValidationMessages } from '../data/TestData';
 import { ValidationService, FormData } from '../services/ValidationService';
-import { BookingFlowError } from '../utils/CustomErrors';
+import { BookingFlow } from '../helpers/BookingFlow';
 
 /**
  * Room Booking Test Suite - Structured Implementation
@@ -21,35 +21,30 @@ test.describe('Room Booking Application - Structured Tests', () => {
    */
   test.describe('Complete Booking Workflow', () => {
     
-    test('should complete full booking flow with validation checks', async ({ 
-      homePage, 
-      roomsPage, 
-      reservationPage, 
+    test('should complete full booking flow with validation checks', { tag: '@destructive' }, async ({ 
+      bookingFlow,
       bookingFormPage, 
-      confirmationPage 
+      confirmationPage,
+      bookingVerifier,
+      guestData
     }) => {
+      test.skip(!TestConfig.hasAdminCredentials(), 'Set ADMIN_USERNAME and ADMIN_PASSWORD so the stored booking can be checked');
+
       // ARRANGE: Prepare test data and expected outcomes
       const testData = {
         invalidFormData: TestData.EMPTY_FIRSTNAME,
-        validFormData: TestData.VALID_BOOKING,
+        validFormData: guestData.user(),
         expectedDateRange: TestData.DATES.EXPECTED_RANGE,
         checkInDate: TestData.DATES.CHECK_IN,
         checkOutDate: TestData.DATES.CHECK_OUT
       };
 
       // ACT & ASSERT: Execute booking flow with validations
-      await test.step('Navigate to application and start booking', async () => {
-        await homePage.navigateAndVerify();
-        await homePage.clickHeroBookNow();
-        await roomsPage.selectFirstAvailableRoom();
-      });
-
-      await test.step('Configure reservation details', async () => {
-        await reservationPage.verifyPageLoad();
-        await reservationPage.selectDates(testData.checkInDate, testData.checkOutDate);
-        await reservationPage.verifyPricing();
-        await reservationPage.proceedToCheckout();
-      });
+      const { roomId } = await bookingFlow
+        .selectStay(testData.checkInDate, testData.checkOutDate)
+        .verifyPricing()
+        .proceedToBookingForm()
+        .run();
 
       await test.step('Test form validation with invalid data', async () => {
         await bookingFormPage.fillForm(testData.invalidFormData);
@@ -71,6 +66,16 @@ test.describe('Room Booking Application - Structured Tests', () => {
         // Handle expected outcomes
         await handleBookingSubmissionOutcome(confirmationPage, testData.expectedDateRange);
       });
+
+      // Whatever the guest screen showed, the test only passes if the booking was stored
+      await test.step('Verify booking stored on the admin side', async () => {
+        await bookingVerifier.verifyBookingStored({
+          roomId: roomId!,
+          guest: { firstname: testData.validFormData.firstname, lastname: testData.invalidFormData.lastname || '' },
+          checkIn: testData.checkInDate,
+          checkOut: testData.checkOutDate
+        });
+      });
     });
   });
 
@@ -80,12 +85,7 @@ test.describe('Room Booking Application - Structured Tests', () => {
    */
   test.describe('Form Validation Tests', () => {
     
-    test('should validate email field when empty', async ({ 
-      homePage, 
-      roomsPage, 
-      reservationPage, 
-      bookingFormPage 
-    }) => {
+    test('should validate email field when empty', async ({ bookingFlow }) => {
       // ARRANGE: Prepare test scenario
       const testScenario = new ValidationTestScenario(
         'Email Validation',
@@ -94,18 +94,10 @@ test.describe('Room Booking Application - Structured Tests', () => {
       );
 
       // ACT & ASSERT: Execute validation test
-      await executeValidationTest(
-        { homePage, roomsPage, reservationPage, bookingFormPage }, 
-        testScenario
-      );
+      await executeValidationTest(bookingFlow, testScenario);
     });
 
-    test('should validate all fields when empty', async ({ 
-      homePage, 
-      roomsPage, 
-      reservationPage, 
-      bookingFormPage 
-    }) => {
+    test('should validate all fields when empty', async ({ bookingFlow }) => {
       // ARRANGE: Prepare comprehensive validation scenario
       const testScenario = new ValidationTestScenario(
         'All Fields Empty',
@@ -114,18 +106,10 @@ test.describe('Room Booking Application - Structured Tests', () => {
       );
 
       // ACT & ASSERT: Execute comprehensive validation test with screenshots
-      await executeValidationTestWithScreenshots(
-        { homePage, roomsPage, reservationPage, bookingFormPage }, 
-        testScenario
-      );
+      await executeValidationTestWithScreenshots(bookingFlow, testScenario);
     });
 
-    test('should validate firstname field specifically', async ({ 
-      homePage, 
-      roomsPage, 
-      reservationPage, 
-      bookingFormPage 
-    }) => {
+    test('should validate firstname field specifically', async ({ bookingFlow }) => {
       // ARRANGE: Prepare firstname-specific validation
       const testScenario = new ValidationTestScenario(
         'Firstname Validation',
@@ -134,10 +118,7 @@ test.describe('Room Booking Application - Structured Tests', () => {
       );
 
       // ACT & ASSERT: Execute focused validation test
-      await executeValidationTest(
-        { homePage, roomsPage, reservationPage, bookingFormPage }, 
-        testScenario
-      );
+      await executeValidationTest(bookingFlow, testScenario);
     });
   });
 
@@ -147,30 +128,18 @@ test.describe('Room Booking Application - Structured Tests', () => {
    */
   test.describe('Pricing Verification', () => {
     
-    test('should calculate room pricing correctly', async ({ 
-      homePage, 
-      roomsPage, 
-      reservationPage 
-    }) => {
+    test('should calculate room pricing correctly', async ({ bookingFlow }) => {
       // ARRANGE: Prepare pricing test data
       const pricingTestData = {
         checkInDate: TestData.DATES.CHECK_IN,
         checkOutDate: TestData.DATES.CHECK_OUT
       };
 
-      // ACT: Navigate to pricing display
-      await test.step('Navigate to pricing calculation', async () => {
-        await homePage.navigateAndVerify();
-        await homePage.clickHeroBookNow();
-        await roomsPage.selectFirstAvailableRoom();
-        await reservationPage.verifyPageLoad();
-        await reservationPage.selectDates(pricingTestData.checkInDate, pricingTestData.checkOutDate);
-      });
-
-      // ASSERT: Verify pricing calculations
-      await test.step('Verify pricing accuracy', async () => {
-        await reservationPage.verifyPricing();
-      });
+      // ACT & ASSERT: Navigate to pricing display and verify pricing calculations
+      await bookingFlow
+        .selectStay(pricingTestData.checkInDate, pricingTestData.checkOutDate)
+        .verifyPricing()
+        .run();
     });
   });
 });
@@ -200,112 +169,37 @@ class ValidationTestScenario {
 /**
  * Execute a standard validation test
  */
-async function executeValidationTest(
-  pages: { homePage: any, roomsPage: any, reservationPage: any, bookingFormPage: any },
-  scenario: ValidationTestScenario
-): Promise<void> {
-  const { homePage, roomsPage, reservationPage, bookingFormPage } = pages;
-
-  // Navigate to form
-  await test.step(`Navigate to booking form for ${scenario.name}`, async () => {
-    await homePage.navigateAndVerify();
-    await homePage.clickHeroBookNow();
-    await roomsPage.selectFirstAvailableRoom();
-    await reservationPage.verifyPageLoad();
-    await reservationPage.selectDates(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT);
-    await reservationPage.proceedToCheckout();
-  });
-
-  // Execute validation test
-  await test.step(`Test ${scenario.name} validation`, async () => {
-    await bookingFormPage.fillForm(scenario.formData);
-    await bookingFormPage.submitForm();
-    await bookingFormPage.verifyValidationAlert();
-    
-    for (const expectedError of scenario.expectedErrors) {
-      await bookingFormPage.verifyValidationMessage(expectedError);
-    }
-    
-    await bookingFormPage.verifyStillOnReservationPage();
-  });
+async function executeValidationTest(bookingFlow: BookingFlow, scenario: ValidationTestScenario): Promise<void> {
+  await bookingFlow
+    .fillGuest(scenario.formData)
+    .expectValidationErrors(scenario.expectedErrors)
+    .run();
 }
 
 /**
  * Execute validation test with comprehensive screenshots
  */
-async function executeValidationTestWithScreenshots(
-  pages: { homePage: any, roomsPage: any, reservationPage: any, bookingFormPage: any },
-  scenario: ValidationTestScenario
-): Promise<void> {
-  const { homePage, roomsPage, reservationPage, bookingFormPage } = pages;
-
-  // Navigate to form
-  await test.step(`Navigate to booking form for ${scenario.name}`, async () => {
-    await homePage.navigateAndVerify();
-    await homePage.clickHeroBookNow();
-    await roomsPage.selectFirstAvailableRoom();
-    await reservationPage.verifyPageLoad();
-    await reservationPage.selectDates(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT);
-    await reservationPage.proceedToCheckout();
-  });
-
-  // Take before screenshot
-  await test.step('Capture before state', async () => {
-    await bookingFormPage.takeScreenshot(`${scenario.name.toLowerCase().replace(/\s+/g, '-')}-before.png`);
-  });
-
-  // Execute validation with screenshots
-  await test.step(`Test ${scenario.name} validation with screenshots`, async () => {
-    if (scenario.formData === TestData.ALL_EMPTY) {
-      await bookingFormPage.clearAllFields();
-    } else {
-      await bookingFormPage.fillForm(scenario.formData);
-    }
-    
-    await bookingFormPage.submitForm();
-    await bookingFormPage.page.waitForTimeout(1000);
-    
-    // Take after screenshot
-    await bookingFormPage.takeScreenshot(`${scenario.name.toLowerCase().replace(/\s+/g, '-')}-after.png`);
-    
-    // Verify validation
-    await bookingFormPage.verifyValidationAlert();
-    
-    for (const expectedError of scenario.expectedErrors) {
-      await bookingFormPage.verifyValidationMessage(expectedError);
-    }
-    
-    // Take focused validation screenshot
-    await bookingFormPage.takeValidationAlertScreenshot(`${scenario.name.toLowerCase().replace(/\s+/g, '-')}-validation.png`);
-    
-    // Log validation details
-    const validationText = await bookingFormPage.getValidationText();
-    console.log(`📋 ${scenario.name} validation messages:`, validationText);
-    
-    await bookingFormPage.verifyStillOnReservationPage();
-  });
+async function executeValidationTestWithScreenshots(bookingFlow: BookingFlow, scenario: ValidationTestScenario): Promise<void> {
+  const result = await bookingFlow
+    .fillGuest(scenario.formData, { clearFirst: scenario.formData === TestData.ALL_EMPTY })
+    .expectValidationErrors(scenario.expectedErrors)
+    .captureScreenshots(scenario.name.toLowerCase().replace(/\s+/g, '-'))
+    .run();
+
+  // Log validation details
+  console.log(`📋 ${scenario.name} validation messages:`, result.validationMessages);
 }
 
 /**
- * Handle the outcome of booking submission (success or known error)
+ * Verify the booking confirmation; known application errors are handled by config/known-issues.yaml
+ * The guest screen alone does not prove the booking was stored; see bookingVerifier
  */
 async function handleBookingSubmissionOutcome(
   confirmationPage: any, 
   expectedDateRange: string
 ): Promise<void> {
-  try {
-    await test.step('Verify booking confirmation', async () => {
-      await confirmationPage.verifyBookingConfirmation(expectedDateRange);
-      console.log('✅ Booking confirmation displayed successfully');
-    });
-  } catch (confirmationError) {
-    await test.step('Handle expected application error', async () => {
-      try {
-        await confirmationPage.verifyApplicationError();
-        console.log('⚠️ Application error occurred as expected - known website issue');
-      } catch (errorCheckFailed) {
-        throw new BookingFlowError('Form submission', 'Neither success nor expected error occurred');
-      }
-    });
-  }
+  await test.step('Verify booking confirmation', async () => {
+    await confirmationPage.verifyBookingConfirmation(expectedDateRange);
+    console.log('✅ Booking confirmation displayed successfully');
+  });
 }
@@ -8,11 +8,12 @@
  * - VS Code debugger integration points
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestConfig } from '../config/TestConfig';
 
-test('Room Booking Scenario - Automation in Testing', async ({ page }) => {
+test('Room Booking Scenario - Automation in Testing', { tag: '@destructive' }, async ({ page }) => {
   // 1. Navigate to the homepage
-  await page.goto('https://automationintesting.online/');
+  await page.goto(TestConfig.BASE_URL);
 
   // 2. Initiate booking from the hero section
   const heroBookNow = page.getByRole('link', { name: /book now/i }).first();
@@ -138,7 +139,7 @@ test('Room Booking Scenario - Automation in Testing', async ({ page }) => {
 
 test('Email Validation Test - Empty Email Field', async ({ page }) => {
   // 1. Navigate to the homepage
-  await page.goto('https://automationintesting.online/');
+  await page.goto(TestConfig.BASE_URL);
 
   // 2. Initiate booking from the hero section
   const heroBookNow = page.getByRole('link', { name: /book now/i }).first();
@@ -192,7 +193,7 @@ test('Email Validation Test - Empty Email Field', async ({ page }) => {
 
 test('All Fields Empty Validation Test - Complete Form Validation', async ({ page }) => {
   // 1. Navigate to the homepage
-  await page.goto('https://automationintesting.online/');
+  await page.goto(TestConfig.BASE_URL);
 
   // 2. Initiate booking from the hero section
   const heroBookNow = page.getByRole('link', { name: /book now/i }).first();
@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+import { RoomsPage, RoomListing } from '../pages/RoomsPage';
+import { RoomData, RoomType } from '../data/TestDataModels';
+
+/**
+ * Room Criteria Tests
+ *
+ * Checks room matching and listing comparison on parsed cards; no browser is started.
+ */
+test.describe('Room Criteria', () => {
+
+  const single: RoomData = { type: RoomType.SINGLE, price: 100, capacity: 2, features: ['TV', 'WiFi'], description: 'Cozy' };
+  const suite: RoomData = { type: RoomType.SUITE, price: 250, capacity: 6, features: ['WiFi', 'Jacuzzi'], description: 'Luxurious' };
+  const listing = ({ capacity, ...room }: RoomData): RoomListing => room;
+
+  test('should match rooms on type, inclusive price bounds and feature', () => {
+    const suiteCard = listing(suite);
+
+    expect(RoomsPage.matches(suiteCard, {})).toBe(true);
+    expect(RoomsPage.matches(suiteCard, { type: RoomType.SUITE, minPrice: 250, maxPrice: 250 })).toBe(true);
+    expect(RoomsPage.matches(suiteCard, { maxPrice: 249 })).toBe(false);
+    expect(RoomsPage.matches(suiteCard, { feature: 'jacuzzi' })).toBe(true);
+    expect(RoomsPage.matches(suiteCard, { type: RoomType.SUITE, feature: 'TV' })).toBe(false);
+  });
+
+  test('should report every difference between the listing and the test data', () => {
+    const listed: RoomListing[] = [
+      { ...listing(single), features: ['WiFi', 'TV'] },
+      { type: RoomType.DOUBLE, price: 150, features: [], description: 'Spacious' }
+    ];
+
+    expect(RoomsPage.compareRooms([single], [listing(single)])).toEqual([]);
+    expect(RoomsPage.compareRooms([{ ...single, price: 110 }, suite], listed)).toEqual([
+      'Single Room: expected £110 per night, listed £100',
+      'Suite: not listed',
+      'Double Room: listed but not in the test data'
+    ]);
+  });
+});
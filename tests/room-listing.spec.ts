@@ -0,0 +1,32 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { dataLoader } from '../services/DataLoaderService';
+import { RoomType } from '../data/TestDataModels';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+/**
+ * Room Listing Tests
+ *
+ * Reads the room cards on the homepage and books rooms chosen by what they offer.
+ */
+test.describe('Room Listing', () => {
+
+  test.beforeEach(async ({ homePage }) => {
+    await homePage.navigateAndVerify();
+  });
+
+  test('should list the rooms from the test data', async ({ roomsPage }) => {
+    await roomsPage.verifyRoomsMatch(await dataLoader.getAllRooms());
+  });
+
+  test('should book a room chosen by type, feature or price', async ({ homePage, roomsPage, reservationPage }) => {
+    const suite = await roomsPage.selectRoomByType(RoomType.SUITE);
+    await reservationPage.verifyPageLoad();
+    expect(await reservationPage.getRoomType()).toContain(RoomTypeNames.nameOf(suite.type));
+
+    await homePage.navigateAndVerify();
+    const withMiniBar = await roomsPage.selectRoom({ feature: 'Mini Bar', maxPrice: 200 });
+    expect(withMiniBar).toMatchObject({ type: RoomType.DOUBLE });
+    await reservationPage.verifyPageLoad();
+    expect(await reservationPage.getRoomType()).toContain(RoomTypeNames.nameOf(RoomType.DOUBLE));
+  });
+});
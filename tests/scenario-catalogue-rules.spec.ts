@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { dataLoader } from '../services/DataLoaderService';
+import { ScenarioCatalogue } from '../services/ScenarioCatalogue';
+import { describeCoverage, summariseCoverage } from '../reporters/ScenarioCoverageReporter';
+import { ExpectedOutcome, TestCategory, TestPriority } from '../data/TestDataModels';
+import { ConfigurationError } from '../utils/CustomErrors';
+
+/**
+ * Scenario Catalogue Rules Tests
+ *
+ * Filters, tags, outcome classification and the coverage summary for the shipped scenarios; no browser is started.
+ */
+test.describe('Scenario Catalogue Rules', () => {
+
+  test('should select scenarios by category and priority from the environment', async () => {
+    const scenarios = Object.values((await dataLoader.loadTestData()).testScenarios);
+    const smoke = ScenarioCatalogue.filterFrom({ SCENARIO_PRIORITY: 'high' });
+    const validation = ScenarioCatalogue.filterFrom({ SCENARIO_CATEGORY: 'validation, pricing', SCENARIO_PRIORITY: 'HIGH' });
+
+    expect(scenarios.filter(scenario => ScenarioCatalogue.selects(smoke, scenario)).map(scenario => scenario.id)).toEqual(['e2e_001', 'val_001', 'pri_001']);
+    expect(scenarios.filter(scenario => ScenarioCatalogue.selects(validation, scenario)).map(scenario => scenario.id)).toEqual(['val_001', 'pri_001']);
+    expect(scenarios.every(scenario => ScenarioCatalogue.selects(ScenarioCatalogue.filterFrom({}), scenario))).toBe(true);
+    expect(ScenarioCatalogue.describeFilter(validation)).toBe('SCENARIO_CATEGORY=validation,pricing SCENARIO_PRIORITY=high');
+    expect(() => ScenarioCatalogue.filterFrom({ SCENARIO_PRIORITY: 'urgent' }))
+      .toThrow(new ConfigurationError('SCENARIO_PRIORITY', 'has unknown value(s) urgent (one of high, medium, low)'));
+  });
+
+  test('should tag by category and priority, and mark scenarios that book as destructive', async () => {
+    const { endToEndBooking, emailValidation } = (await dataLoader.loadTestData()).testScenarios;
+
+    expect(ScenarioCatalogue.tags(endToEndBooking)).toEqual([`@${TestCategory.BOOKING_FLOW}`, `@${TestPriority.HIGH}`, '@destructive']);
+    expect(ScenarioCatalogue.tags(emailValidation)).toEqual(['@validation', '@high']);
+  });
+
+  test('should classify a submission from the API status and the messages shown', async () => {
+    const known = ScenarioCatalogue.validationMessages(await dataLoader.getValidationMessages());
+
+    expect(ScenarioCatalogue.classify({ outcome: 'confirmed', responseStatus: 201, validationMessages: [] }, known)).toBe(ExpectedOutcome.SUCCESS);
+    expect(ScenarioCatalogue.classify({ outcome: 'rejected', responseStatus: 400, validationMessages: ['must not be empty'] }, known))
+      .toBe(ExpectedOutcome.VALIDATION_ERROR);
+    expect(ScenarioCatalogue.classify({ outcome: 'rejected', responseStatus: 409, validationMessages: ['The room dates are either invalid or are already booked'] }, known))
+      .toBe(ExpectedOutcome.BUSINESS_ERROR);
+    expect(ScenarioCatalogue.classify({ outcome: 'rejected', responseStatus: 500, validationMessages: ['Booking could not be completed'] }, known))
+      .toBe(ExpectedOutcome.SYSTEM_ERROR);
+    expect(ScenarioCatalogue.classify({ outcome: 'rejected', validationMessages: ['Booking could not be completed'] }, known))
+      .toBe(ExpectedOutcome.SYSTEM_ERROR);
+  });
+
+  test('should summarise which scenarios ran in each project', async () => {
+    const scenarios = (await dataLoader.loadTestData()).testScenarios;
+    const coverage = summariseCoverage(scenarios, [
+      { scenario: 'emailValidation', project: 'chromium', status: 'passed' },
+      { scenario: 'emailValidation', project: 'firefox', status: 'failed' },
+      { scenario: 'comprehensiveValidation', project: 'chromium', status: 'skipped', reason: 'Not selected by SCENARIO_PRIORITY=high' }
+    ]);
+
+    expect(coverage.map(entry => entry.key)).toEqual(Object.keys(scenarios));
+    expect(coverage.map(describeCoverage)).toEqual([
+      '➖ e2e_001 Complete Booking Flow [booking_flow/high]: not selected',
+      '❌ val_001 Email Field Validation [validation/high]: passed (chromium), failed (firefox)',
+      '⏭️ val_002 All Fields Validation [validation/medium]: skipped: Not selected by SCENARIO_PRIORITY=high (chromium)',
+      '➖ pri_001 Pricing Calculation [pricing/high]: not selected'
+    ]);
+  });
+});
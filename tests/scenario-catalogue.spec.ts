@@ -0,0 +1,33 @@
+import { test } from '../fixtures/test-fixtures';
+import { dataLoader } from '../services/DataLoaderService';
+import { SCENARIO_ANNOTATION, ScenarioCatalogue } from '../services/ScenarioCatalogue';
+import { ScenarioRunner } from '../helpers/ScenarioRunner';
+
+/**
+ * Scenario Catalogue Tests
+ *
+ * One test per entry in testScenarios (data/scenarios.yaml), tagged with its
+ * category and priority. Narrow a run with SCENARIO_CATEGORY /
+ * SCENARIO_PRIORITY (e.g. `npm run test:smoke`) or --grep @high; the
+ * ScenarioCoverageReporter lists which scenarios ran.
+ */
+const scenarios = dataLoader.loadTestDataSync().testScenarios;
+const filter = ScenarioCatalogue.filterFrom(process.env);
+
+test.describe('Scenario Catalogue', () => {
+
+  for (const [key, scenario] of Object.entries(scenarios)) {
+    const annotation = [{ type: SCENARIO_ANNOTATION, description: key }];
+    const body = async ({ scenarioRunner }: { scenarioRunner: ScenarioRunner }) => {
+      await scenarioRunner.run(scenario);
+    };
+
+    // Declared skipped rather than skipped in the body, so no browser is started for it
+    if (ScenarioCatalogue.selects(filter, scenario)) {
+      test(ScenarioCatalogue.title(scenario), { tag: ScenarioCatalogue.tags(scenario), annotation }, body);
+    } else {
+      annotation.push({ type: 'skip', description: `Not selected by ${ScenarioCatalogue.describeFilter(filter)}` });
+      test.skip(ScenarioCatalogue.title(scenario), { tag: ScenarioCatalogue.tags(scenario), annotation }, body);
+    }
+  }
+});
@@ -0,0 +1,126 @@
+import { test, expect, request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { StandInApp, RunningStandIn } from '../stand-in/StandInApp';
+import { TestData, ValidationMessages } from '../data/TestData';
+import { RoomType } from '../data/TestDataModels';
+import { RoomTypeNames } from '../utils/RoomTypeNames';
+
+/**
+ * Stand-in Application Tests
+ *
+ * Exercises the local fake of the booking platform over HTTP only, so
+ * these run without a browser and without automationintesting.online.
+ */
+test.describe('Stand-in Booking Application', () => {
+  let standIn: RunningStandIn;
+  let api: APIRequestContext;
+
+  test.beforeAll(async () => {
+    standIn = await new StandInApp().start();
+    api = await playwrightRequest.newContext({ baseURL: standIn.url });
+  });
+
+  test.afterAll(async () => {
+    await api.dispose();
+    await standIn.close();
+  });
+
+  test('should serve the homepage with hero and room cards', async () => {
+    const response = await api.get('/');
+    expect(response.status()).toBe(200);
+
+    const html = await response.text();
+    expect(html).toContain('href="#rooms">Book Now</a>');
+    expect(html.match(/data-room="\d+"/g)).toHaveLength(3);
+  });
+
+  test('should serve the reservation page with calendar and price summary', async () => {
+    const html = await (await api.get('/reservation/1')).text();
+
+    expect(html).toContain(`<h1>${RoomTypeNames.nameOf(RoomType.SINGLE)}</h1>`);
+    expect(html).toContain('aria-label="Month View"');
+    expect(html).toContain('Price Summary');
+    expect(html).toContain('id="doReservation"');
+
+    expect((await api.get('/reservation/99')).status()).toBe(404);
+  });
+
+  test('should reject invalid bookings with the application messages', async () => {
+    const response = await api.post('/api/booking', {
+      data: {
+        roomid: 1,
+        ...TestData.ALL_EMPTY,
+        bookingdates: { checkin: '2030-01-01', checkout: '2030-01-02' }
+      }
+    });
+
+    expect(response.status()).toBe(400);
+    const { errors } = await response.json();
+    expect(errors).toEqual(expect.arrayContaining(ValidationMessages.ALL_FIELDS_EMPTY));
+  });
+
+  test('should store a valid booking and block overlapping dates', async () => {
+    const booking = {
+      roomid: 2,
+      ...TestData.VALID_BOOKING,
+      depositpaid: false,
+      bookingdates: { checkin: '2030-02-01', checkout: '2030-02-03' }
+    };
+
+    const created = await api.post('/api/booking', { data: booking });
+    expect(created.status()).toBe(201);
+
+    const report = await (await api.get('/api/report/room/2')).json();
+    expect(report.report).toContainEqual(expect.objectContaining({ start: '2030-02-01', end: '2030-02-03' }));
+
+    const overlapping = await api.post('/api/booking', {
+      data: { ...booking, bookingdates: { checkin: '2030-02-02', checkout: '2030-02-04' } }
+    });
+    expect(overlapping.status()).toBe(409);
+  });
+
+  test('should keep the admin panel behind the login page', async () => {
+    const guest = await playwrightRequest.newContext({ baseURL: standIn.url, maxRedirects: 0 });
+    try {
+      const redirected = await guest.get('/admin/rooms');
+      expect(redirected.status()).toBe(302);
+      expect(redirected.headers()['location']).toBe('/admin');
+      expect(await (await guest.get('/admin')).text()).toContain('id="doLogin"');
+    } finally {
+      await guest.dispose();
+    }
+
+    const admin = await playwrightRequest.newContext({ baseURL: standIn.url });
+    try {
+      await admin.post('/api/auth/login', { data: { username: 'admin', password: 'password' } });
+      const rooms = await (await admin.get('/admin/rooms')).text();
+      expect(rooms.match(/data-testid="roomlisting"/g)).toHaveLength(3);
+      expect(rooms).toContain('id="createRoom"');
+    } finally {
+      await admin.dispose();
+    }
+  });
+
+  test('should create and delete rooms for a logged-in admin only', async () => {
+    const room = { roomName: '104', type: RoomTypeNames.nameOf(RoomType.DOUBLE), accessible: false, roomPrice: 120, features: ['WiFi'] };
+    expect((await api.post('/api/room', { data: room })).status()).toBe(403);
+
+    const admin = await playwrightRequest.newContext({ baseURL: standIn.url });
+    try {
+      await admin.post('/api/auth/login', { data: { username: 'admin', password: 'password' } });
+
+      const invalid = await admin.post('/api/room', { data: { ...room, roomName: '', roomPrice: 0 } });
+      expect(invalid.status()).toBe(400);
+      expect((await invalid.json()).errors).toEqual(['Room name must be set', 'must be greater than or equal to 1']);
+
+      const created = await admin.post('/api/room', { data: room });
+      expect(created.status()).toBe(201);
+      const { roomid } = (await created.json()).room;
+      expect(await (await admin.get(`/admin/room/${roomid}`)).text()).toContain('No bookings for this room');
+
+      expect((await admin.delete(`/api/room/${roomid}`)).status()).toBe(202);
+      expect((await api.get(`/api/room/${roomid}`)).status()).toBe(404);
+    } finally {
+      await admin.dispose();
+    }
+  });
+});
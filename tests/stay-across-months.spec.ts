@@ -0,0 +1,34 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { TestConfig } from '../config/TestConfig';
+import { DateUtils } from '../utils/DateUtils';
+
+/**
+ * Stay Across Months Tests
+ *
+ * Books a stay whose check-out falls in the month after its check-in, so
+ * the Month View has to move with Next between the two clicks. Runs on the
+ * stand-in only (`npm run test:stand-in`), whose calendar exposes the
+ * selected stay to check against.
+ */
+test.describe('Stay Across Months', () => {
+
+  test('should book a stay from the last day of a month into the next', { tag: '@destructive' }, async ({ bookingFlow, guestData }) => {
+    test.skip(!TestConfig.USE_STAND_IN, 'Books a stay; runs on the stand-in only (npm run test:stand-in)');
+
+    // The last day of the month three months ahead, clear of the stays other tests book
+    const checkIn = DateUtils.addDays(DateUtils.addMonths(DateUtils.today(), 4), -1);
+    const checkOut = DateUtils.addDays(checkIn, 2);
+
+    const result = await bookingFlow
+      .selectStay(checkIn, checkOut)
+      .verifyPricing()
+      .fillGuest(guestData.user())
+      .submit()
+      .expectConfirmation()
+      .run();
+
+    expect(DateUtils.monthsBetween(checkIn, checkOut)).toBe(1);
+    expect(result.stay).toEqual({ checkIn, checkOut, nights: 2 });
+    expect(result.outcome).toBe('confirmed');
+  });
+});
@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestDataFiles } from '../services/TestDataFiles';
+import { dataLoader } from '../services/DataLoaderService';
+import { TestDataFileError } from '../utils/CustomErrors';
+
+/**
+ * Test Data Files Tests
+ *
+ * Checks merging of JSON, YAML and CSV data files, environment overlays and value provenance.
+ */
+test.describe('Test Data Files', () => {
+  let directory: string;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(directory, file)), { recursive: true });
+    await fs.writeFile(path.join(directory, file), content);
+  };
+
+  test.beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'test-data-'));
+    await write('users.json', JSON.stringify({
+      users: { validUser: { firstname: 'John', lastname: 'Doe', email: 'john.doe@example.com', phone: '01234567890' } }
+    }));
+    await write('bookings.yaml', 'bookings:\n  standardBooking:\n    numberOfNights: 2\n    specialRequests: [Late check-in]\n');
+    await write('invalidUsers.csv', [
+      'key,firstname,lastname,email,phone,address.city',
+      'emptyFirstname,,Doe,john.doe@example.com,01234567890,London',
+      'quotedName,"Smith, ""Jo""",Doe,,123,'
+    ].join('\n'));
+    await write('overlays/staging/users.yaml', 'users:\n  validUser:\n    email: staging.user@example.com\n');
+    await write('overlays/staging/bookings.json', JSON.stringify({ bookings: { standardBooking: { specialRequests: [] } } }));
+  });
+
+  test.afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should merge JSON, YAML and CSV files into sections', async () => {
+    const loaded = await TestDataFiles.load(directory, '');
+
+    expect(loaded.data.invalidUsers).toEqual({
+      emptyFirstname: { firstname: '', lastname: 'Doe', email: 'john.doe@example.com', phone: '01234567890', address: { city: 'London' } },
+      quotedName: { firstname: 'Smith, "Jo"', lastname: 'Doe', email: '', phone: '123', address: { city: '' } }
+    });
+    expect(loaded.data.bookings).toEqual({ standardBooking: { numberOfNights: 2, specialRequests: ['Late check-in'] } });
+    expect(loaded.files.map(file => path.basename(file))).toEqual(['bookings.yaml', 'invalidUsers.csv', 'users.json']);
+  });
+
+  test('should apply the environment overlay and record where values came from', async () => {
+    const loaded = await TestDataFiles.load(directory, 'staging');
+
+    expect(loaded.data).toMatchObject({
+      users: { validUser: { email: 'staging.user@example.com', firstname: 'John' } },
+      bookings: { standardBooking: { specialRequests: [] } }
+    });
+
+    expect(loaded.sourceOf('users.validUser.email')).toContain(path.join('overlays', 'staging', 'users.yaml'));
+    expect(loaded.sourceOf('users.validUser.firstname')).toMatch(/users\.json$/);
+    expect(loaded.sourceOf('invalidUsers.quotedName.address.city')).toMatch(/invalidUsers\.csv$/);
+    expect(Object.keys(loaded.sourcesUnder('bookings.standardBooking'))).toEqual([
+      'bookings.standardBooking.numberOfNights',
+      'bookings.standardBooking.specialRequests'
+    ]);
+  });
+
+  test('should load the same data and provenance synchronously', async () => {
+    const loaded = await TestDataFiles.load(directory, 'staging');
+    const loadedSync = TestDataFiles.loadSync(directory, 'staging');
+
+    expect(loadedSync.data).toEqual(loaded.data);
+    expect(loadedSync.files).toEqual(loaded.files);
+    expect(loadedSync.sourcesUnder()).toEqual(loaded.sourcesUnder());
+    expect(() => TestDataFiles.loadSync(directory, 'qa')).toThrow(/available overlays: staging/);
+  });
+
+  test('should reject an unknown overlay and malformed files', async () => {
+    await expect(TestDataFiles.load(directory, 'qa')).rejects.toThrow(/available overlays: staging/);
+    await expect(TestDataFiles.loadFiles([path.join(directory, 'missing.json')])).rejects.toBeInstanceOf(TestDataFileError);
+
+    await write('broken/invalidUsers.csv', 'firstname,lastname\nJohn,Doe\n');
+    await expect(TestDataFiles.load(path.join(directory, 'broken'), '')).rejects.toThrow('must include a "key" column');
+  });
+
+  test('should expose provenance for the shipped test data', async () => {
+    expect(await dataLoader.getValueSource('invalidUsers.emptyEmail.email')).toMatch(/invalidUsers\.csv$/);
+    expect(await dataLoader.getValueSource('testScenarios.endToEndBooking.priority')).toMatch(/scenarios\.yaml$/);
+    expect(await dataLoader.getValueSource('validation.testCases[0].name')).toMatch(/test-data\.json$/);
+  });
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { dataLoader } from '../services/DataLoaderService';
+import { RawTestData, TestDataResolver } from '../services/TestDataResolver';
+import { RoomType } from '../data/TestDataModels';
+import { TestDataReferenceError } from '../utils/CustomErrors';
+import { TestDataFiles } from '../services/TestDataFiles';
+import { TestDataSchema } from '../services/TestDataSchema';
+
+/**
+ * Test Data Resolution Tests
+ *
+ * Checks that key references in the test data are hydrated at load time.
+ */
+test.describe('Test Data Cross-References', () => {
+
+  test('should hydrate booking guests and rooms', async () => {
+    const booking = await dataLoader.getBookingScenario('extendedStay');
+
+    expect(booking.guestDetails).toEqual(await dataLoader.getValidUser('specialCharacterUser'));
+    expect(booking.room).toEqual(await dataLoader.getRoomData('suite'));
+    expect(booking.roomType).toBe(RoomType.SUITE);
+  });
+
+  test('should hydrate validation test case form data', async () => {
+    const testCase = await dataLoader.getValidationTestCase('empty email');
+
+    expect(testCase.formData).toEqual(await dataLoader.getInvalidUser('emptyEmail'));
+  });
+
+  test('should hydrate scenario users, bookings, rooms and test cases', async () => {
+    const endToEnd = await dataLoader.getTestScenario('endToEndBooking');
+    const pricing = await dataLoader.getTestScenario('pricingVerification');
+
+    expect(endToEnd.data.user).toEqual(await dataLoader.getValidUser('validUser'));
+    expect(endToEnd.data.booking).toEqual(await dataLoader.getBookingScenario('standardBooking'));
+    expect(endToEnd.data.validation?.name).toBe('Empty Firstname Validation');
+    expect(pricing.data.room?.type).toBe(RoomType.SINGLE);
+  });
+
+  test('should refuse an invalid user as a booking guest', async () => {
+    const raw = (await TestDataFiles.load()).data as unknown as RawTestData;
+    raw.bookings.standardBooking.guestDetails = 'emptyEmail';
+
+    expect(() => TestDataResolver.resolve(raw)).toThrow(new TestDataReferenceError([
+      'bookings.standardBooking.guestDetails: "emptyEmail" is an invalidUsers entry, but a booking guest must come from users'
+    ]));
+  });
+
+  test('should report every dangling reference at once', async () => {
+    const raw = (await TestDataFiles.load()).data as unknown as RawTestData;
+    raw.bookings.standardBooking.guestDetails = 'ghostUser';
+    raw.bookings.weekendBooking.roomType = 'Penthouse' as RoomType;
+    raw.testScenarios.pricingVerification.data.room = 'penthouse';
+
+    let error: unknown;
+    try {
+      TestDataResolver.resolve(raw);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TestDataReferenceError);
+    expect((error as TestDataReferenceError).problems).toEqual([
+      'bookings.standardBooking.guestDetails: no users entry "ghostUser"',
+      'bookings.weekendBooking.roomType: no rooms entry has type "Penthouse"',
+      'testScenarios.pricingVerification.data.room: no rooms entry "penthouse"'
+    ]);
+  });
+
+  test('should report a users entry a test asks for that the data lacks', async () => {
+    const raw = (await TestDataFiles.load()).data as unknown as RawTestData;
+    delete (raw.users as Record<string, unknown>).maximumValidUser;
+
+    expect(TestDataSchema.validate(raw)).toEqual([]);
+    expect(() => TestDataResolver.entry(raw.users, 'maximumValidUser', 'users')).toThrow(new TestDataReferenceError([
+      'users: no users entry "maximumValidUser"'
+    ]));
+  });
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { TestDataSchema } from '../services/TestDataSchema';
+import { TestDataFiles } from '../services/TestDataFiles';
+import { RawTestData } from '../services/TestDataResolver';
+import { TestDataSchemaError } from '../utils/CustomErrors';
+
+/**
+ * Test Data Schema Tests
+ *
+ * Checks that malformed test data is reported with JSON paths before any test uses it.
+ */
+test.describe('Test Data Schema', () => {
+
+  const loadTestData = async (): Promise<RawTestData> => (await TestDataFiles.load()).data as unknown as RawTestData;
+
+  test('should accept the shipped test data', async () => {
+    expect(TestDataSchema.validate(await loadTestData())).toEqual([]);
+  });
+
+  test('should report every problem with its JSON path', async () => {
+    const data = await loadTestData();
+    // Values the types rule out are written the way a data file would hold them
+    Object.assign(data.users.validUser, { firstName: data.users.validUser.firstname });
+    Reflect.deleteProperty(data.users.validUser, 'firstname');
+    Object.assign(data.bookings.weekendBooking, { roomType: 'Twin Room' });
+    Object.assign(data.validation.testCases[1], { testType: 'single' });
+    Object.assign(data.testScenarios.pricingVerification, { priority: 'urgent' });
+    Object.assign(data.environments.staging, { retries: '3' });
+
+    expect(TestDataSchema.validate(data)).toEqual([
+      'users.validUser.firstname: missing required property',
+      'users.validUser.firstName: unexpected property',
+      'bookings.weekendBooking.roomType: expected RoomType (one of "Single Room", "Double Room", "Suite"), got "Twin Room"',
+      'validation.testCases[1].testType: expected ValidationTestType (one of "single_field", "multiple_fields", "complete_form"), got "single"',
+      'testScenarios.pricingVerification.priority: expected TestPriority (one of "high", "medium", "low"), got "urgent"',
+      'environments.staging.retries: expected number, got string'
+    ]);
+  });
+
+  test('should raise a single aggregated TestDataSchemaError', async () => {
+    const data = await loadTestData();
+    Reflect.deleteProperty(data, 'pricing');
+    data.rooms.suite.capacity = 0;
+
+    expect(() => TestDataSchema.assertValid(data, 'broken.json')).toThrow(TestDataSchemaError);
+    expect(() => TestDataSchema.assertValid(data, 'broken.json')).toThrow(
+      'broken.json failed schema validation with 2 problem(s):\n' +
+      '  - rooms.suite.capacity: must be at least 1, got 0\n' +
+      '  - pricing: missing required property'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { dataLoader } from '../services/DataLoaderService';
+import { ValidationMatrix } from '../services/ValidationMatrix';
+import { ValidationTestType } from '../data/TestDataModels';
+import { ValidationMatrixMismatchError } from '../utils/CustomErrors';
+
+/**
+ * Validation Matrix Generator Tests
+ *
+ * Builds the matrix from the shipped test data and from hand-written cases; no browser is started.
+ */
+test.describe('Validation Matrix Generator', () => {
+
+  test('should generate one consistent entry per test case and invalid guest', async () => {
+    const data = await dataLoader.loadTestData();
+    const entries = ValidationMatrix.build(data);
+
+    expect(entries).toHaveLength(data.validation.testCases.length + Object.keys(data.invalidUsers).length);
+    expect(new Set(entries.map(entry => entry.title)).size).toBe(entries.length);
+    expect(entries.filter(entry => entry.mismatches.length > 0).map(entry => entry.source)).toEqual([]);
+    expect(entries.filter(entry => entry.findings.length > 0).map(entry => entry.source)).toEqual(['validation.testCases[2]']);
+    expect(dataLoader.loadTestDataSync()).toBe(data);
+  });
+
+  test('should tag invalid guests by the fields ValidationService rejects', async () => {
+    const entries = ValidationMatrix.build(await dataLoader.loadTestData());
+    const bySource = (source: string) => entries.find(entry => entry.source === source)!;
+
+    expect(bySource('invalidUsers.shortPhone')).toMatchObject({
+      title: 'should reject invalid guest shortPhone',
+      testType: ValidationTestType.SINGLE_FIELD,
+      tags: ['@single_field'],
+      expectedErrors: ['size must be between 11 and 21']
+    });
+    expect(bySource('invalidUsers.emptyLastname').expectedErrors).toEqual(['Lastname should not be blank', 'size must be between 3 and 30']);
+    expect(bySource('invalidUsers.allFieldsEmpty').tags).toEqual(['@complete_form']);
+    expect(bySource('validation.testCases[1]')).toMatchObject({
+      title: 'Empty Email Validation',
+      tags: ['@single_field'],
+      expectedErrors: ['must not be empty']
+    });
+  });
+
+  test('should report data file expectations that disagree with ValidationService', () => {
+    const [entry, guest] = ValidationMatrix.build({
+      validation: {
+        errorMessages: {},
+        testCases: [{
+          name: 'Short Lastname',
+          description: 'Lastname below the minimum size',
+          formData: { firstname: 'John', lastname: 'Do', email: 'john@example.com', phone: '01234567890' },
+          expectedErrors: ['Lastname should not be blank'],
+          testType: ValidationTestType.SINGLE_FIELD
+        }]
+      },
+      invalidUsers: {
+        notInvalid: { firstname: 'John', lastname: 'Doe', email: 'john@example.com', phone: '01234567890' }
+      }
+    });
+
+    expect(entry.mismatches).toEqual([
+      'expectedErrors lists "Lastname should not be blank", which ValidationService does not predict',
+      'ValidationService predicts "size must be between 3 and 30", which expectedErrors does not list'
+    ]);
+    expect(() => ValidationMatrix.verifyConsistent(entry)).toThrow(ValidationMatrixMismatchError);
+    expect(guest.mismatches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { test } from '../fixtures/test-fixtures';
+import { dataLoader } from '../services/DataLoaderService';
+import { ValidationMatrix, ValidationMatrixEntry } from '../services/ValidationMatrix';
+
+/**
+ * Validation Matrix Tests
+ *
+ * One test per validation test case and per invalid guest in the test data,
+ * tagged with its test type (e.g. --grep @single_field). The expected
+ * messages are ValidationService's; a test case whose expectedErrors
+ * disagree fails before the browser is used.
+ */
+const entries = ValidationMatrix.build(dataLoader.loadTestDataSync());
+
+function declare(entry: ValidationMatrixEntry): void {
+  const annotation = [
+    { type: 'source', description: entry.source },
+    ...entry.findings.map(finding => ({ type: 'parity-finding', description: finding }))
+  ];
+  test(entry.title, { tag: entry.tags, annotation }, async ({ bookingFlow }) => {
+    ValidationMatrix.verifyConsistent(entry);
+
+    await bookingFlow
+      .fillGuest(entry.formData, { clearFirst: true })
+      .expectValidationErrors(entry.expectedErrors)
+      .run();
+  });
+}
+
+test.describe('Booking Form Validation Matrix', () => {
+
+  test.describe('Validation test cases', () => {
+    entries.filter(entry => entry.source.startsWith('validation.')).forEach(declare);
+  });
+
+  test.describe('Invalid guests', () => {
+    entries.filter(entry => entry.source.startsWith('invalidUsers.')).forEach(declare);
+  });
+});
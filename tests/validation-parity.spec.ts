@@ -0,0 +1,77 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { ApiClient } from '../services/ApiClient';
+import { dataLoader } from '../services/DataLoaderService';
+import { ValidationParity, ValidationParityReport } from '../services/ValidationParity';
+import { StandInApp } from '../stand-in/StandInApp';
+import { TestConfig } from '../config/TestConfig';
+import { ValidationMessages } from '../data/TestData';
+import { TestError, ValidationParityError } from '../utils/CustomErrors';
+
+/**
+ * Validation Parity Tests
+ *
+ * With VALIDATION_PARITY=true (`npm run validation:parity`), probes every
+ * booking form rule of ValidationService at its boundaries through the
+ * booking API of the environment selected with TEST_ENV and fails with a
+ * diff of predicted and returned messages. The stand-in only checks how
+ * probes are sent and diffed, since its rules are written from the service.
+ * No probe creates a booking; no browser is started.
+ */
+test.describe('Validation Parity', () => {
+
+  const listedMessages = Object.values(ValidationMessages).flat();
+
+  async function checkParity(apiClient: ApiClient, application: string): Promise<void> {
+    // Any room will do; the probes are rejected before the room matters
+    const [room] = await apiClient.getRooms();
+    if (!room) {
+      throw new TestError(`${application} offers no room to probe with`);
+    }
+    const report: ValidationParityReport = await ValidationParity.probeApi(
+      apiClient, room.roomId, await dataLoader.getValidUser('validUser'), listedMessages
+    );
+    await test.info().attach('validation-parity', { body: JSON.stringify(report, null, 2), contentType: 'application/json' });
+
+    const differences = ValidationParity.differences(report);
+    if (differences.length > 0) {
+      throw new ValidationParityError(application, differences);
+    }
+  }
+
+  test('should send every probe through the booking API without booking anything', async ({ request }) => {
+    const standIn = await new StandInApp().start();
+    try {
+      const validGuest = await dataLoader.getValidUser('validUser');
+      const report = await ValidationParity.probeApi(new ApiClient(request, standIn.url), 1, validGuest, listedMessages);
+
+      expect(report.probes.map(probe => probe.description)).toEqual(ValidationParity.boundaryProbes(validGuest).map(probe => probe.description));
+      expect(report.probes[0].returned).toContain('Firstname should not be blank');
+      expect(report.probes.flatMap(probe => probe.returned)).not.toContain('Check-out date must be after check-in date');
+      expect(standIn.store.getBookings()).toEqual([]);
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  test('should predict the messages of the application under test', { tag: '@parity' }, async ({ apiClient }) => {
+    test.skip(!TestConfig.VALIDATION_PARITY, 'Sends about two dozen booking requests; run with npm run validation:parity');
+
+    await checkParity(apiClient, `${TestConfig.ENVIRONMENT.name} (${TestConfig.BASE_URL})`);
+  });
+
+  test('should diff predicted and returned messages per probe and for ValidationMessages', async () => {
+    const probes = ValidationParity.boundaryProbes(await dataLoader.getValidUser('validUser'))
+      .filter(probe => ['lastname "Abcdefghijklmnopqrstuvwxyzabcde" (31 characters)', 'phone empty', 'email empty'].includes(probe.description));
+    const report = ValidationParity.compare(probes, [[], ['size must be between 11 and 21'], ['must not be empty']], ['must not be empty', 'Title is required']);
+
+    expect(ValidationParity.differences(report)).toEqual([
+      'lastname.size, lastname "Abcdefghijklmnopqrstuvwxyzabcde" (31 characters):',
+      '  - size must be between 3 and 30',
+      'phone.size, phone empty:',
+      '  + size must be between 11 and 21',
+      'TestData.ValidationMessages:',
+      '  - Title is required',
+      '  + size must be between 11 and 21'
+    ]);
+  });
+});
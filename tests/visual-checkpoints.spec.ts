@@ -0,0 +1,28 @@
+import { test } from '../fixtures/test-fixtures';
+import { TestData, ValidationMessages } from '../data/TestData';
+
+/**
+ * Visual Checkpoint Tests
+ *
+ * Compares key booking screens with the baselines in visual-baselines/.
+ * A checkpoint without a baseline fails with "No visual baseline"; review
+ * and accept the screenshots with `npm run visual:review`.
+ */
+test.describe('Visual Checkpoints', () => {
+
+  test('should match the homepage room list', async ({ homePage, roomsPage }) => {
+    await homePage.navigateAndVerify();
+    await roomsPage.getRooms();
+    await roomsPage.verifyVisualCheckpoint('homepage-rooms', { fullPage: true });
+  });
+
+  test('should match the reservation page and the booking form validation', async ({ bookingFlow, reservationPage, bookingFormPage }) => {
+    await bookingFlow.selectStay(TestData.DATES.CHECK_IN, TestData.DATES.CHECK_OUT).run();
+    await reservationPage.verifyVisualCheckpoint('reservation-stay-selected');
+
+    await reservationPage.proceedToCheckout();
+    await bookingFormPage.submitForm();
+    await bookingFormPage.verifyValidationMessage(ValidationMessages.ALL_FIELDS_EMPTY[0]);
+    await bookingFormPage.verifyVisualCheckpoint('booking-form-all-empty', { element: bookingFormPage.validationAlert });
+  });
+});
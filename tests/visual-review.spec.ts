@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import type { JSONReport } from '@playwright/test/reporter';
+import { VisualCheckpoints, VisualCheckpointRecord } from '../services/VisualCheckpoints';
+
+/**
+ * Visual Review Tests
+ *
+ * Reads checkpoint records from a hand-written JSON report and accepts one into a temporary baseline; no browser is started.
+ */
+test.describe('Visual Review', () => {
+
+  const reportWith = (...records: VisualCheckpointRecord[]): JSONReport => ({
+    suites: [{
+      specs: [],
+      suites: [{
+        specs: [{
+          tests: [{
+            results: records.map(record => ({
+              attachments: [{ name: VisualCheckpoints.ATTACHMENT, contentType: 'application/json', body: Buffer.from(JSON.stringify(record)).toString('base64') }]
+            }))
+          }]
+        }]
+      }]
+    }]
+  }) as unknown as JSONReport;
+
+  test('should list the latest record per browser and checkpoint', () => {
+    const newForm: VisualCheckpointRecord = { name: 'booking-form', project: 'chromium', status: 'new', baseline: 'b.png', actual: 'a.png' };
+    const changedForm: VisualCheckpointRecord = { ...newForm, status: 'changed', diff: 'd.png' };
+    const firefoxForm: VisualCheckpointRecord = { ...newForm, project: 'firefox' };
+
+    expect(VisualCheckpoints.pending(reportWith(newForm, changedForm, firefoxForm))).toEqual([changedForm, firefoxForm]);
+  });
+
+  test('should copy the run screenshot over the baseline when accepted', () => {
+    const actual = test.info().outputPath('booking-form-actual.png');
+    const baseline = test.info().outputPath('baselines', 'chromium-linux', 'booking-form.png');
+    fs.writeFileSync(actual, 'new screenshot');
+
+    VisualCheckpoints.accept({ name: 'booking-form', project: 'chromium', status: 'new', baseline, actual });
+
+    expect(fs.readFileSync(baseline, 'utf-8')).toBe('new screenshot');
+    expect(() => VisualCheckpoints.accept({ name: 'gone', project: 'chromium', status: 'new', baseline, actual: `${actual}.missing` }))
+      .toThrow(/No screenshot for chromium\/gone/);
+  });
+});
@@ -0,0 +1,70 @@
+import { test, expect, Locator } from '@playwright/test';
+import { WaitActions, WaitTimings } from '../utils/PageUtils';
+import { WaitTimeoutError } from '../utils/CustomErrors';
+
+/**
+ * Wait Actions Tests
+ *
+ * Drives the waits with stand-in locators and probes; no browser is started.
+ */
+test.describe('Wait Actions', () => {
+
+  test.beforeEach(() => WaitTimings.reset());
+
+  const changingText = (values: string[]) => {
+    let reads = 0;
+    return {
+      innerText: async () => values[Math.min(reads++, values.length - 1)],
+      toString: () => "locator('.price-summary')"
+    } as unknown as Locator;
+  };
+
+  test('should poll until the condition is met and time out with the last value', async () => {
+    let count = 0;
+    const probe = async () => {
+      count++;
+      if (count === 2) {
+        throw new Error('Execution context was destroyed');
+      }
+      return count;
+    };
+
+    await expect(WaitActions.until('three rows', probe, value => value === 3, { interval: 5 })).resolves.toBe(3);
+    await expect(WaitActions.until('ten rows', async () => 4, value => value === 10, { timeout: 30, interval: 5 }))
+      .rejects.toThrow(new WaitTimeoutError('ten rows', 30, 4));
+
+    expect(WaitTimings.getEntries().map(entry => [entry.description, entry.met])).toEqual([['three rows', true], ['ten rows', false]]);
+  });
+
+  test('should return text only once it stops changing', async () => {
+    const summary = changingText(['Total £0', 'Total £100', 'Total £290']);
+
+    await expect(WaitActions.forStableText(summary, { quietPeriod: 20, interval: 5 })).resolves.toBe('Total £290');
+
+    const ticking = { innerText: async () => String(Date.now()) } as unknown as Locator;
+    await expect(WaitActions.forStableText(ticking, { quietPeriod: 50, timeout: 40, interval: 2 })).rejects.toThrow(WaitTimeoutError);
+  });
+
+  test('should back off exponentially with bounded jitter and time each delay', async () => {
+    expect([0, 1, 2, 3, 4].map(attempt => WaitActions.backoffDelay(attempt, { baseDelay: 100, maxDelay: 500, random: () => 0 })))
+      .toEqual([100, 200, 400, 500, 500]);
+    expect(WaitActions.backoffDelay(1, { baseDelay: 100, jitter: 0.5, random: () => 1 })).toBe(100);
+
+    let attempts = 0;
+    const flaky = async () => {
+      if (++attempts < 3) {
+        throw new Error('Element is not attached to the DOM');
+      }
+      return 'clicked';
+    };
+    await expect(WaitActions.withBackoff('click Reserve Now', flaky, { baseDelay: 5, random: () => 0 })).resolves.toBe('clicked');
+    await expect(WaitActions.withBackoff('click Reserve Now', async () => { throw new Error('gone'); }, { retries: 1, baseDelay: 1 }))
+      .rejects.toThrow('gone');
+
+    expect(WaitTimings.getEntries().map(entry => entry.description)).toEqual([
+      'back-off 1 before retrying click Reserve Now',
+      'back-off 2 before retrying click Reserve Now',
+      'back-off 1 before retrying click Reserve Now'
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Browser DOM - Typed view of the page for code run inside evaluate()
+ *
+ * The project compiles without the DOM library, so callbacks that run in
+ * the browser cast globalThis to BrowserWindow once and work with these
+ * interfaces. They list only the members the page objects and audits read.
+ */
+
+export interface DomNode {
+  nodeType: number;
+  textContent: string | null;
+  parentElement: DomElement | null;
+  compareDocumentPosition(other: DomNode): number;
+}
+
+export interface DomElement extends DomNode {
+  id: string;
+  tagName: string;
+  children: ArrayLike<DomElement>;
+  childNodes: ArrayLike<DomNode>;
+  classList: ArrayLike<string>;
+  getAttribute(name: string): string | null;
+  getClientRects(): ArrayLike<unknown>;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+  blur(): void;
+  // Only set on form controls and images
+  value?: string;
+  type?: string;
+  disabled?: boolean;
+  labels?: ArrayLike<DomElement> | null;
+  alt?: string;
+}
+
+export interface DomDocument {
+  activeElement: DomElement | null;
+  body: DomElement;
+  getElementById(id: string): DomElement | null;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+}
+
+export interface DomStyle {
+  display: string;
+  visibility: string;
+  color: string;
+  backgroundColor: string;
+  backgroundImage: string;
+  fontSize: string;
+  fontWeight: string;
+}
+
+export interface BrowserWindow {
+  document: DomDocument;
+  getComputedStyle(element: DomElement): DomStyle;
+}
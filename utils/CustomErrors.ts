@@ -29,9 +29,154 @@ export class ValidationError extends TestError {
   }
 }
 
+export class WaitTimeoutError extends TestError {
+  constructor(description: string, timeout: number, lastValue?: unknown) {
+    super(`Timed out after ${timeout}ms waiting for ${description}${lastValue !== undefined ? ` (last value: ${JSON.stringify(lastValue)})` : ''}`, { lastValue });
+    this.name = 'WaitTimeoutError';
+  }
+}
+
 export class BookingFlowError extends TestError {
   constructor(step: string, details?: string) {
     super(`Booking flow failed at step: ${step}${details ? `. Details: ${details}` : ''}`);
     this.name = 'BookingFlowError';
   }
 }
+
+export class TestDataReferenceError extends TestError {
+  constructor(public readonly problems: string[]) {
+    super(`Test data has ${problems.length} unresolved reference(s):\n  - ${problems.join('\n  - ')}`, { problems });
+    this.name = 'TestDataReferenceError';
+  }
+}
+
+export class TestDataFileError extends TestError {
+  constructor(public readonly file: string, reason: string) {
+    super(`Test data file ${file} ${reason}`, { file });
+    this.name = 'TestDataFileError';
+  }
+}
+
+export class TestDataSchemaError extends TestError {
+  constructor(public readonly problems: string[], source = 'Test data') {
+    super(`${source} failed schema validation with ${problems.length} problem(s):\n  - ${problems.join('\n  - ')}`, { problems });
+    this.name = 'TestDataSchemaError';
+  }
+}
+
+export class ConfigurationError extends TestError {
+  constructor(public readonly setting: string, reason: string) {
+    super(`Configuration ${setting} ${reason}`, { setting });
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class BookingVerificationError extends TestError {
+  constructor(expected: string, public readonly found: string[]) {
+    super(
+      `No stored booking matches ${expected}; ${found.length > 0 ? `the room has:\n  - ${found.join('\n  - ')}` : 'the room has no bookings'}`,
+      { found }
+    );
+    this.name = 'BookingVerificationError';
+  }
+}
+
+export class KnownIssueError extends TestError {
+  constructor(public readonly issueId: string, reason: string) {
+    super(`Known issue ${issueId} ${reason}`, { issueId });
+    this.name = 'KnownIssueError';
+  }
+}
+
+export class PricingMismatchError extends TestError {
+  constructor(description: string, public readonly mismatches: string[]) {
+    super(`Price Summary mismatch for ${description}:\n  - ${mismatches.join('\n  - ')}`, { mismatches });
+    this.name = 'PricingMismatchError';
+  }
+}
+
+export class RoomListingMismatchError extends TestError {
+  constructor(public readonly mismatches: string[]) {
+    super(`Room listing does not match the test data:\n  - ${mismatches.join('\n  - ')}`, { mismatches });
+    this.name = 'RoomListingMismatchError';
+  }
+}
+
+export class AccessibilityViolationError extends TestError {
+  constructor(public readonly pageName: string, public readonly violations: string[]) {
+    super(`${pageName} has ${violations.length} accessibility violation(s):\n  - ${violations.join('\n  - ')}`, { pageName, violations });
+    this.name = 'AccessibilityViolationError';
+  }
+}
+
+export class KeyboardNavigationError extends TestError {
+  constructor(public readonly element: string, reason: string) {
+    super(`Keyboard navigation could not reach ${element}: ${reason}`, { element });
+    this.name = 'KeyboardNavigationError';
+  }
+}
+
+export class VisualBaselineMissingError extends TestError {
+  constructor(public readonly checkpoint: string, public readonly baseline: string) {
+    super(`No visual baseline for checkpoint "${checkpoint}" at ${baseline}; review and accept it with npm run visual:review`, { checkpoint, baseline });
+    this.name = 'VisualBaselineMissingError';
+  }
+}
+
+export class ValidationMatrixMismatchError extends TestError {
+  constructor(public readonly source: string, public readonly mismatches: string[]) {
+    super(`Test data ${source} disagrees with ValidationService:\n  - ${mismatches.join('\n  - ')}`, { source, mismatches });
+    this.name = 'ValidationMatrixMismatchError';
+  }
+}
+
+export class ValidationParityError extends TestError {
+  constructor(public readonly application: string, public readonly differences: string[]) {
+    super(`ValidationService and ${application} disagree (- predicted only, + returned only):\n${differences.join('\n')}`, { application, differences });
+    this.name = 'ValidationParityError';
+  }
+}
+
+export class ScenarioOutcomeError extends TestError {
+  constructor(public readonly scenario: string, public readonly expected: string, public readonly actual: string, shown: string[] = []) {
+    super(`Scenario ${scenario} expected outcome ${expected} but got ${actual}${shown.length > 0 ? ` (form showed: ${shown.join('; ')})` : ''}`, { scenario, expected, actual, shown });
+    this.name = 'ScenarioOutcomeError';
+  }
+}
+
+export class CalendarDateError extends TestError {
+  constructor(public readonly value: string, problem: string) {
+    super(`${problem}: "${value}"`, { value });
+    this.name = 'CalendarDateError';
+  }
+}
+
+export class ApiRequestError extends TestError {
+  constructor(
+    public readonly endpoint: string,
+    public readonly status: number,
+    public readonly responseBody?: unknown
+  ) {
+    super(
+      `API request ${endpoint} failed with status ${status}${responseBody !== undefined ? `. Response: ${JSON.stringify(responseBody)}` : ''}`,
+      { endpoint, status, responseBody }
+    );
+    this.name = 'ApiRequestError';
+  }
+
+  /**
+   * Error messages reported by the API, if the response carried any
+   */
+  get errors(): string[] {
+    const body = this.responseBody;
+    const errors = typeof body === 'object' && body !== null && 'errors' in body ? body.errors : undefined;
+    return Array.isArray(errors) ? errors.filter((error): error is string => typeof error === 'string') : [];
+  }
+}
+
+export class ApiAuthenticationError extends ApiRequestError {
+  constructor(endpoint: string, status: number, responseBody?: unknown) {
+    super(endpoint, status, responseBody);
+    this.name = 'ApiAuthenticationError';
+  }
+}
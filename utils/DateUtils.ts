@@ -0,0 +1,124 @@
+import { CalendarDateError } from './CustomErrors';
+
+/**
+ * Utility class for calendar date handling
+ * Works on date-only values at UTC midnight so results do not depend
+ * on the machine's time zone
+ */
+export class DateUtils {
+  static readonly MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+  /**
+   * Normalise a Date or YYYY-MM-DD string to a date at UTC midnight
+   */
+  static toDate(value: Date | string): Date {
+    if (value instanceof Date) {
+      return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+    }
+    const match = this.ISO_DATE_PATTERN.exec(value);
+    if (!match) {
+      throw new CalendarDateError(value, 'Invalid ISO date (expected YYYY-MM-DD)');
+    }
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    if (this.toIsoDate(date) !== value) {
+      throw new CalendarDateError(value, 'Invalid calendar date');
+    }
+    return date;
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD
+   */
+  static toIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Today's date at UTC midnight
+   */
+  static today(): Date {
+    return this.toDate(new Date());
+  }
+
+  static addDays(date: Date | string, days: number): Date {
+    return new Date(this.toDate(date).getTime() + days * this.DAY_MS);
+  }
+
+  /**
+   * First day of the month a number of months after the given date
+   */
+  static addMonths(date: Date | string, months: number): Date {
+    const base = this.toDate(date);
+    return new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + months, 1));
+  }
+
+  static startOfMonth(date: Date | string): Date {
+    return this.addMonths(date, 0);
+  }
+
+  /**
+   * Number of whole months from one date's month to another's
+   */
+  static monthsBetween(from: Date | string, to: Date | string): number {
+    const start = this.toDate(from);
+    const end = this.toDate(to);
+    return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  }
+
+  static nightsBetween(checkIn: Date | string, checkOut: Date | string): number {
+    return Math.round((this.toDate(checkOut).getTime() - this.toDate(checkIn).getTime()) / this.DAY_MS);
+  }
+
+  /**
+   * Build a date from a month and a day string such as '01'
+   * Throws CalendarDateError for a day the month does not have, e.g. '31' in November
+   */
+  static dayOfMonth(month: Date | string, day: string): Date {
+    const base = this.toDate(month);
+    const date = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), Number(day)));
+    if (!/^\d{1,2}$/.test(day) || date.getUTCMonth() !== base.getUTCMonth()) {
+      throw new CalendarDateError(day, `No such day in ${this.monthLabel(base)}`);
+    }
+    return date;
+  }
+
+  /**
+   * Day-of-month label as shown on calendar buttons ('01'..'31')
+   */
+  static dayLabel(date: Date | string): string {
+    return String(this.toDate(date).getUTCDate()).padStart(2, '0');
+  }
+
+  /**
+   * Calendar toolbar label for a month, e.g. 'September 2025'
+   */
+  static monthLabel(date: Date | string): string {
+    const value = this.toDate(date);
+    return `${this.MONTH_NAMES[value.getUTCMonth()]} ${value.getUTCFullYear()}`;
+  }
+
+  /**
+   * Parse a toolbar label such as 'September 2025' into the first of that month
+   */
+  static parseMonthLabel(label: string): Date {
+    const match = /([A-Za-z]+)\s+(\d{4})/.exec(label.trim());
+    const monthIndex = match ? this.MONTH_NAMES.findIndex(name => name.toLowerCase() === match[1].toLowerCase()) : -1;
+    if (!match || monthIndex < 0) {
+      throw new CalendarDateError(label, 'Unrecognised month label');
+    }
+    return new Date(Date.UTC(Number(match[2]), monthIndex, 1));
+  }
+
+  /**
+   * Date range as shown on the confirmation screen, e.g. '2025-09-01 - 2025-09-02'
+   */
+  static formatRange(checkIn: Date | string, checkOut: Date | string): string {
+    return `${this.toIsoDate(this.toDate(checkIn))} - ${this.toIsoDate(this.toDate(checkOut))}`;
+  }
+}
@@ -0,0 +1,126 @@
+import { Page, Locator } from '@playwright/test';
+import { TestConfig } from '../config/TestConfig';
+import { TestError } from './CustomErrors';
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+/**
+ * One way of finding an element; strings match the way the Playwright getBy* methods do
+ */
+export type LocatorStrategy =
+  | { role: AriaRole; name?: string | RegExp; exact?: boolean }
+  | { testId: string }
+  | { label: string; exact?: boolean }
+  | { placeholder: string; exact?: boolean }
+  | { text: string | RegExp; exact?: boolean }
+  | { css: string };
+
+export interface LocatorResolution {
+  element: string;
+  primary: string;
+  // Strategy that found the element, or null when none did
+  matched: string | null;
+  fallbackIndex: number;
+}
+
+export function describeStrategy(strategy: LocatorStrategy): string {
+  if ('role' in strategy) {
+    return strategy.name === undefined ? `role=${strategy.role}` : `role=${strategy.role}[name=${String(strategy.name)}]`;
+  }
+  if ('testId' in strategy) return `testId=${strategy.testId}`;
+  if ('label' in strategy) return `label=${strategy.label}`;
+  if ('placeholder' in strategy) return `placeholder=${strategy.placeholder}`;
+  if ('text' in strategy) return `text=${String(strategy.text)}`;
+  return `css=${strategy.css}`;
+}
+
+export function buildLocator(page: Page, strategy: LocatorStrategy): Locator {
+  if ('role' in strategy) return page.getByRole(strategy.role, { name: strategy.name, exact: strategy.exact });
+  if ('testId' in strategy) return page.getByTestId(strategy.testId);
+  if ('label' in strategy) return page.getByLabel(strategy.label, { exact: strategy.exact });
+  if ('placeholder' in strategy) return page.getByPlaceholder(strategy.placeholder, { exact: strategy.exact });
+  if ('text' in strategy) return page.getByText(strategy.text, { exact: strategy.exact });
+  return page.locator(strategy.css);
+}
+
+/**
+ * Locator Registry - Logical elements with ordered fallback strategies
+ *
+ * locate() combines every strategy, so assertions keep working while any
+ * of them matches. resolve() waits for the element, returns the first
+ * strategy that finds it and records when that was not the primary one;
+ * the locatorDrift fixture attaches those records and
+ * reporters/LocatorDriftReporter.ts lists them at the end of the run.
+ */
+export class LocatorRegistry {
+  private static resolutions: LocatorResolution[] = [];
+
+  constructor(private readonly definitions: Record<string, LocatorStrategy[]>) {}
+
+  get elements(): string[] {
+    return Object.keys(this.definitions);
+  }
+
+  /**
+   * Every strategy for the element combined with or()
+   */
+  locate(page: Page, element: string): Locator {
+    return this.strategies(element).map(strategy => buildLocator(page, strategy)).reduce((combined, next) => combined.or(next));
+  }
+
+  /**
+   * Wait for the element and return the first strategy that finds it
+   * When none does, the primary locator is returned so the caller fails on it as before
+   */
+  async resolve(page: Page, element: string, timeout: number = TestConfig.DEFAULT_TIMEOUT): Promise<Locator> {
+    const strategies = this.strategies(element);
+    const candidates = strategies.map(strategy => buildLocator(page, strategy));
+
+    await this.locate(page, element).first().waitFor({ state: 'attached', timeout }).catch(() => undefined);
+
+    for (let index = 0; index < candidates.length; index++) {
+      if (await candidates[index].count() > 0) {
+        LocatorRegistry.record(element, strategies, index);
+        return candidates[index];
+      }
+    }
+    LocatorRegistry.record(element, strategies, -1);
+    return candidates[0];
+  }
+
+  /**
+   * Resolutions of the running test, one per element, as last resolved
+   */
+  static getResolutions(): LocatorResolution[] {
+    return [...this.resolutions];
+  }
+
+  /**
+   * Elements found only by a fallback, or not found at all
+   */
+  static getDrift(): LocatorResolution[] {
+    return this.resolutions.filter(resolution => resolution.fallbackIndex !== 0);
+  }
+
+  static reset(): void {
+    this.resolutions = [];
+  }
+
+  private static record(element: string, strategies: LocatorStrategy[], fallbackIndex: number): void {
+    const resolution: LocatorResolution = {
+      element,
+      primary: describeStrategy(strategies[0]),
+      matched: fallbackIndex === -1 ? null : describeStrategy(strategies[fallbackIndex]),
+      fallbackIndex
+    };
+    this.resolutions = [...this.resolutions.filter(existing => existing.element !== element), resolution];
+  }
+
+  private strategies(element: string): LocatorStrategy[] {
+    const strategies = this.definitions[element];
+    if (!strategies || strategies.length === 0) {
+      throw new TestError(`No locator strategies registered for element "${element}"`);
+    }
+    return strategies;
+  }
+}
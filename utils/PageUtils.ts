@@ -1,4 +1,36 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, Locator, Response } from '@playwright/test';
+import { TestConfig } from '../config/TestConfig';
+import { KeyboardNavigationError, WaitTimeoutError } from './CustomErrors';
+import { BrowserWindow, DomElement } from './BrowserDom';
+
+/**
+ * How page objects drive the application: mouse clicks, or Tab/Shift+Tab/Enter/Space only
+ */
+export type InputMode = 'pointer' | 'keyboard';
+
+export interface WaitOptions {
+  timeout?: number;
+  interval?: number;
+}
+
+export interface BackoffOptions {
+  retries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  // Share of each delay that is randomised: 0 for fixed delays, 1 for anywhere up to the full delay
+  jitter?: number;
+  random?: () => number;
+}
+
+export interface WaitTiming {
+  description: string;
+  durationMs: number;
+  met: boolean;
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
 
 /**
  * Utility class for common UI interactions and waits
@@ -10,15 +42,7 @@ export class ElementActions {
    * Click an element with retry logic
    */
   static async clickWithRetry(element: Locator, maxRetries: number = 3): Promise<void> {
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        await element.click();
-        return;
-      } catch (error) {
-        if (i === maxRetries - 1) throw error;
-        await element.page().waitForTimeout(1000);
-      }
-    }
+    await WaitActions.withBackoff(`click ${element}`, () => element.click(), { retries: maxRetries - 1 });
   }
 
   /**
@@ -59,6 +83,81 @@ export class ElementActions {
   }
 }
 
+/**
+ * Utility class for keyboard-only interactions
+ * Elements are reached by moving focus with Tab/Shift+Tab, never by clicking or focus()
+ */
+export class KeyboardActions {
+  private static readonly FOCUSABLE = 'a[href], button, input, select, textarea, [tabindex]';
+
+  /**
+   * Tab towards the element until it has focus; fails naming it when focus never lands there
+   */
+  static async focus(page: Page, element: Locator, name: string): Promise<void> {
+    if (!await ElementActions.isElementVisible(element, TestConfig.DEFAULT_TIMEOUT)) {
+      throw new KeyboardNavigationError(name, 'it is not visible');
+    }
+    if (await this.isFocused(element)) {
+      return;
+    }
+
+    // Shift+Tab when the element comes before the focused one (DOCUMENT_POSITION_PRECEDING)
+    const backwards = await element.evaluate((target: DomElement) => {
+      const doc = (globalThis as unknown as BrowserWindow).document;
+      const active = doc.activeElement;
+      return Boolean(active && active !== doc.body && active.compareDocumentPosition(target) & 2);
+    });
+    const key = backwards ? 'Shift+Tab' : 'Tab';
+    // Every focusable element once, plus the document itself when focus wraps around
+    const limit = await page.evaluate(selector => (globalThis as unknown as BrowserWindow).document.querySelectorAll(selector).length, this.FOCUSABLE) + 2;
+
+    for (let presses = 0; presses < limit; presses++) {
+      await page.keyboard.press(key);
+      if (await this.isFocused(element)) {
+        return;
+      }
+    }
+    throw new KeyboardNavigationError(name, `${limit} presses of ${key} never focused it (last focused: ${await this.describeFocus(page)})`);
+  }
+
+  /**
+   * Focus the element and press Enter for links, Space for buttons and other controls
+   */
+  static async activate(page: Page, element: Locator, name: string): Promise<void> {
+    await this.focus(page, element, name);
+    const isLink = await element.evaluate((target: DomElement) => target.tagName === 'A' || target.getAttribute('role') === 'link');
+    await page.keyboard.press(isLink ? 'Enter' : 'Space');
+  }
+
+  /**
+   * Focus a field, select and delete what it holds, then type the value
+   */
+  static async type(page: Page, element: Locator, value: string, name: string): Promise<void> {
+    await this.focus(page, element, name);
+    await page.keyboard.press('ControlOrMeta+A');
+    await page.keyboard.press('Backspace');
+    if (value) {
+      await page.keyboard.type(value);
+    }
+  }
+
+  private static async isFocused(element: Locator): Promise<boolean> {
+    return element.evaluate((target: DomElement) => target === (globalThis as unknown as BrowserWindow).document.activeElement).catch(() => false);
+  }
+
+  private static async describeFocus(page: Page): Promise<string> {
+    return page.evaluate(() => {
+      const doc = (globalThis as unknown as BrowserWindow).document;
+      const active = doc.activeElement;
+      if (!active || active === doc.body) {
+        return 'nothing';
+      }
+      const label = (active.getAttribute('aria-label') || active.textContent || active.getAttribute('name') || '').trim().slice(0, 30);
+      return `<${active.tagName.toLowerCase()}${active.id ? ` id="${active.id}"` : ''}> "${label}"`;
+    });
+  }
+}
+
 /**
  * Utility class for page-level operations
  */
@@ -90,3 +189,162 @@ export class PageActions {
     return pattern.test(currentUrl);
   }
 }
+
+/**
+ * Time spent in each wait of the running test
+ * Reset and attached to the report by the waitTimings fixture
+ */
+export class WaitTimings {
+  private static entries: WaitTiming[] = [];
+
+  static async measure<T>(description: string, action: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await action();
+      this.entries.push({ description, durationMs: Date.now() - started, met: true });
+      return result;
+    } catch (error) {
+      this.entries.push({ description, durationMs: Date.now() - started, met: false });
+      throw error;
+    }
+  }
+
+  static getEntries(): WaitTiming[] {
+    return [...this.entries];
+  }
+
+  static totalMs(): number {
+    return this.entries.reduce((total, entry) => total + entry.durationMs, 0);
+  }
+
+  static reset(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Utility class for condition-based waits
+ * Every wait polls for a condition instead of sleeping and is timed in WaitTimings
+ */
+export class WaitActions {
+
+  /**
+   * Poll a probe until its value meets the condition; returns that value
+   * A probe that throws (e.g. while the page reloads) counts as not met yet
+   */
+  static async until<T>(
+    description: string,
+    probe: () => Promise<T>,
+    isMet: (value: T) => boolean,
+    { timeout = TestConfig.DEFAULT_TIMEOUT, interval = TestConfig.WAIT_POLL_INTERVAL }: WaitOptions = {}
+  ): Promise<T> {
+    return WaitTimings.measure(description, async () => {
+      const deadline = Date.now() + timeout;
+      for (;;) {
+        let last: unknown;
+        try {
+          const value = await probe();
+          if (isMet(value)) {
+            return value;
+          }
+          last = value;
+        } catch (error) {
+          last = `error: ${(error as Error).message}`;
+        }
+        if (Date.now() >= deadline) {
+          throw new WaitTimeoutError(description, timeout, last);
+        }
+        await sleep(interval);
+      }
+    });
+  }
+
+  /**
+   * Wait until an element's text has not changed for the quiet period; returns the settled text
+   */
+  static async forStableText(
+    element: Locator,
+    { quietPeriod = TestConfig.TEXT_STABLE_PERIOD, timeout = TestConfig.DEFAULT_TIMEOUT, interval = TestConfig.WAIT_POLL_INTERVAL }: WaitOptions & { quietPeriod?: number } = {}
+  ): Promise<string> {
+    const description = `stable text of ${element}`;
+    return WaitTimings.measure(description, async () => {
+      const deadline = Date.now() + timeout;
+      let text = await element.innerText();
+      let unchangedSince = Date.now();
+      while (Date.now() - unchangedSince < quietPeriod) {
+        if (Date.now() >= deadline) {
+          throw new WaitTimeoutError(description, timeout, text);
+        }
+        await sleep(interval);
+        const current = await element.innerText();
+        if (current !== text) {
+          text = current;
+          unchangedSince = Date.now();
+        }
+      }
+      return text;
+    });
+  }
+
+  /**
+   * Wait until a locator matches exactly the expected number of elements
+   */
+  static async forCount(element: Locator, expected: number, options: WaitOptions = {}): Promise<number> {
+    return this.until(`${expected} of ${element}`, () => element.count(), count => count === expected, options);
+  }
+
+  /**
+   * Wait until an attribute no longer has the given value; returns the new value
+   */
+  static async forAttributeChange(element: Locator, name: string, from: string | null, options: WaitOptions = {}): Promise<string | null> {
+    return this.until(`${name} of ${element} to change from ${JSON.stringify(from)}`, () => element.getAttribute(name), value => value !== from, options);
+  }
+
+  /**
+   * Run an action and wait for the response it causes; strings match as URL substrings
+   */
+  static async forResponse(
+    page: Page,
+    url: string | RegExp,
+    action: () => Promise<void>,
+    { method, timeout = TestConfig.FORM_SUBMISSION_TIMEOUT }: { method?: string; timeout?: number } = {}
+  ): Promise<Response> {
+    const matches = (response: Response) =>
+      (typeof url === 'string' ? response.url().includes(url) : url.test(response.url()))
+      && (!method || response.request().method() === method);
+
+    return WaitTimings.measure(`${method ?? 'any'} response from ${url}`, async () => {
+      const [response] = await Promise.all([page.waitForResponse(matches, { timeout }), action()]);
+      return response;
+    });
+  }
+
+  /**
+   * Delay before retry number attempt + 1: doubles each time up to maxDelay, minus random jitter
+   */
+  static backoffDelay(
+    attempt: number,
+    { baseDelay = TestConfig.RETRY_BASE_DELAY, maxDelay = TestConfig.RETRY_MAX_DELAY, jitter = 0.5, random = Math.random }: BackoffOptions = {}
+  ): number {
+    const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt);
+    return Math.round(ceiling * (1 - jitter * random()));
+  }
+
+  /**
+   * Run an action, retrying failures with exponential back-off
+   */
+  static async withBackoff<T>(description: string, action: () => Promise<T>, options: BackoffOptions = {}): Promise<T> {
+    const retries = options.retries ?? 2;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await action();
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+        const delay = this.backoffDelay(attempt, options);
+        await WaitTimings.measure(`back-off ${attempt + 1} before retrying ${description}`, () => sleep(delay));
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { RoomType } from '../data/TestDataModels';
+
+/**
+ * Names the application gives the room types
+ * The site labels room cards, reservation headers and the admin type
+ * dropdown "Single", "Double" and "Suite", and the room API uses the same
+ * names; RoomType's values are the test data's own names for them.
+ */
+export class RoomTypeNames {
+  private static readonly NAMES: Record<RoomType, string> = {
+    [RoomType.SINGLE]: 'Single',
+    [RoomType.DOUBLE]: 'Double',
+    [RoomType.SUITE]: 'Suite'
+  };
+
+  /**
+   * The name the application shows for a room type
+   */
+  static nameOf(type: RoomType): string {
+    return this.NAMES[type];
+  }
+
+  /**
+   * Every name the application offers, in RoomType order
+   */
+  static names(): string[] {
+    return Object.values(this.NAMES);
+  }
+
+  /**
+   * The room type a label names as a whole word, e.g. "Double", "double room" or "Double Room"
+   * Undefined for a type RoomType has no member for, e.g. Twin
+   */
+  static fromLabel(label: string): RoomType | undefined {
+    return (Object.keys(this.NAMES) as RoomType[])
+      .find(type => new RegExp(`\\b${this.NAMES[type]}\\b`, 'i').test(label));
+  }
+}